@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { listLookupTables, lookupTableSchema, saveLookupTable } from "@/lib/lookupTables";
+import { schemaIssues } from "@/lib/recipe-engine/schema";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+const saveLookupTableSchema = z.object({
+  name: z.string().min(1),
+  entries: lookupTableSchema
+});
+
+export async function GET(request: Request) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tables = await listLookupTables(supabase, session.tenant.id);
+    return NextResponse.json({
+      lookupTables: tables.map(({ name, entries, created_at, updated_at }) => ({ name, entries, created_at, updated_at }))
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
+
+/** Creates a lookup table, or replaces the entries of the tenant's table with that name. */
+export async function PUT(request: Request) {
+  const logger = createLogger({ component: "lookup-tables" });
+  const body = await request.json().catch(() => null);
+  const parsed = saveLookupTableSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    let id: string;
+    try {
+      ({ id } = await saveLookupTable(supabase, { tenantId, ...parsed.data, createdBy: session.userId }));
+    } catch (error) {
+      logger.error("Failed to save lookup table", { tenantId, name: parsed.data.name, error: (error as Error).message });
+      return new NextResponse("Unable to save lookup table", { status: 500 });
+    }
+
+    logger.info("Lookup table saved", { tenantId, lookupTableId: id, name: parsed.data.name });
+    return NextResponse.json({ id, name: parsed.data.name });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
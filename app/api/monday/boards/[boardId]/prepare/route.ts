@@ -4,17 +4,11 @@ import { getServiceSupabase } from "@/lib/db";
 import { verifyMondaySessionToken } from "@/lib/security";
 import { ensureBoardColumnsForRecipe, resolveOAuthToken } from "@/lib/mondayApi";
 import { prepareRecipeForBoard } from "@/lib/mondayRecipes";
-import type { RecipeDefinition, WriteBackStep } from "@/lib/recipe-engine";
-
-const recipeSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  version: z.number(),
-  steps: z.array(z.object({ type: z.string(), config: z.any() }))
-});
+import type { WriteBackStep } from "@/lib/recipe-engine";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
 
 const requestSchema = z.object({
-  recipe: recipeSchema
+  recipe: recipeDefinitionSchema
 });
 
 type RouteContext = {
@@ -38,7 +32,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
     const body = (await request.json().catch(() => null)) as unknown;
     const parsed = requestSchema.safeParse(body);
     if (!parsed.success) {
-      return NextResponse.json(parsed.error.flatten(), { status: 400 });
+      return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
     }
 
     let accessToken: string;
@@ -48,7 +42,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
       return new NextResponse((error as Error).message, { status: 403 });
     }
 
-    const recipe = parsed.data.recipe as RecipeDefinition;
+    const recipe = parsed.data.recipe;
     const boardData = await ensureBoardColumnsForRecipe({
       accessToken,
       boardId: params.boardId,
@@ -5,7 +5,7 @@ import { verifyMondaySessionToken } from "@/lib/security";
 import { createBoardForRecipe, fetchBoards, resolveOAuthToken } from "@/lib/mondayApi";
 import { createLogger } from "@/lib/logging";
 import { prepareRecipeForBoard } from "@/lib/mondayRecipes";
-import type { RecipeDefinition } from "@/lib/recipe-engine";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
 
 export const runtime = "nodejs";
 
@@ -39,19 +39,12 @@ export async function GET(request: Request) {
   }
 }
 
-const recipeSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  version: z.number(),
-  steps: z.array(z.object({ type: z.string(), config: z.any() }))
-});
-
 const createBoardSchema = z.object({
   name: z.string().trim().min(1, "Board name is required").max(120, "Board name is too long"),
   boardKind: z.enum(["public", "private", "share"]).optional(),
   workspaceId: z.union([z.string(), z.number()]).optional(),
   columns: z.array(z.string()).optional(),
-  recipe: recipeSchema
+  recipe: recipeDefinitionSchema
 });
 
 export async function POST(request: Request) {
@@ -69,11 +62,10 @@ export async function POST(request: Request) {
     const body = await request.json().catch(() => null);
     const parsed = createBoardSchema.safeParse(body);
     if (!parsed.success) {
-      return NextResponse.json(parsed.error.flatten(), { status: 400 });
+      return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
     }
 
   const { name, boardKind, workspaceId, recipe, columns } = parsed.data;
-    const recipeDefinition = recipe as RecipeDefinition;
     const resolvedBoardKind = boardKind ?? "share";
 
     const workspaceIdNumber =
@@ -90,7 +82,7 @@ export async function POST(request: Request) {
     const accessToken = await resolveOAuthToken(supabase, accountKey, String(userId));
     const { boardData, summary } = await createBoardForRecipe({
       accessToken,
-      recipe: recipeDefinition,
+      recipe,
       boardName: name,
       boardKind: resolvedBoardKind,
       workspaceId: workspaceIdNumber,
@@ -99,7 +91,7 @@ export async function POST(request: Request) {
 
     let seedSummary: null = null;
 
-    const preparedRecipe = prepareRecipeForBoard(recipeDefinition, boardData);
+    const preparedRecipe = prepareRecipeForBoard(recipe, boardData);
 
     logger.info("Created monday board via API", {
       accountId: accountKey,
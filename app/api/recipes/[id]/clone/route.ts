@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipe, getRecipe } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+const cloneRecipeSchema = z.object({
+  name: z.string().min(1).optional()
+});
+
+export async function POST(request: Request, { params }: Params) {
+  const logger = createLogger({ component: "recipes.clone" });
+  const body = await request.json().catch(() => ({}));
+  const parsed = cloneRecipeSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    const source = await getRecipe(supabase, params.id, tenantId);
+    if (!source) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    const recipe = recipeDefinitionSchema.safeParse(source.json);
+    if (!recipe.success) {
+      return NextResponse.json(
+        { error: "Stored recipe is invalid", issues: schemaIssues(recipe.error, ["json"]) },
+        { status: 422 }
+      );
+    }
+
+    const name = parsed.data.name ?? `${source.name} (copy)`;
+    let id: string;
+    try {
+      ({ id } = await createRecipe(supabase, { tenantId, recipe: { ...recipe.data, name }, createdBy: session.userId }));
+    } catch (error) {
+      logger.error("Failed to clone recipe", { tenantId, recipeId: source.id, error: (error as Error).message });
+      return new NextResponse("Unable to clone recipe", { status: 500 });
+    }
+
+    logger.info("Recipe cloned", { tenantId, recipeId: source.id, cloneId: id });
+    return NextResponse.json({ id, version: 1 });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
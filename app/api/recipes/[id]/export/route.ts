@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
+import { loadRecipeLookupTables } from "@/lib/lookupTables";
+import { migrateRecipe } from "@/lib/recipe-engine/migrations";
+import { formatIssuePath, recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipeBundle, encodeRecipeBundle, recipeContentChecksum, type BundleBase } from "@/lib/recipeBundles";
+import { getRecipe, getRecipeVersion } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+const exportQuerySchema = z.object({
+  format: z.enum(["json", "yaml"]).default("json"),
+  version: z.coerce.number().int().positive().optional()
+});
+
+export async function GET(request: Request, { params }: Params) {
+  const url = new URL(request.url);
+  const query = exportQuerySchema.safeParse({
+    format: url.searchParams.get("format") ?? undefined,
+    version: url.searchParams.get("version") ?? undefined
+  });
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(query.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const recipe = await getRecipe(supabase, params.id, session.tenant.id);
+    if (!recipe) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    const version = query.data.version ?? recipe.version;
+    const stored = await getRecipeVersion(supabase, recipe.id, session.tenant.id, version);
+    if (!stored) {
+      return new NextResponse("Recipe version not found", { status: 404 });
+    }
+    const definition = recipeDefinitionSchema.safeParse(stored.json);
+    if (!definition.success) {
+      return NextResponse.json(
+        { error: "Stored recipe is invalid", issues: schemaIssues(definition.error, ["json"]) },
+        { status: 422 }
+      );
+    }
+
+    // Included recipes are tenant-local ids that would not resolve in another account.
+    const includes = definition.data.steps.flatMap((step, index) =>
+      step.type === "include"
+        ? [
+            {
+              path: formatIssuePath(["steps", index, "config", "recipeId"]),
+              message: `Includes recipe ${step.config.recipeId} v${step.config.version}; bundles cannot carry included recipes`
+            }
+          ]
+        : []
+    );
+    if (includes.length > 0) {
+      return NextResponse.json({ error: "Recipes with include steps cannot be exported", issues: includes }, { status: 422 });
+    }
+
+    const previous = version > 1 ? await getRecipeVersion(supabase, recipe.id, session.tenant.id, version - 1) : null;
+    const base: BundleBase | null = previous
+      ? { version: previous.version, checksum: recipeContentChecksum(migrateRecipe(previous.json)) }
+      : null;
+    let lookupTables;
+    try {
+      lookupTables = await loadRecipeLookupTables(supabase, session.tenant.id, definition.data);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 422 });
+    }
+    const bundle = createRecipeBundle(
+      { name: recipe.name, version, ...(base ? { base } : {}), definition: definition.data },
+      lookupTables
+    );
+    const { format } = query.data;
+    const fileName = `${recipe.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "recipe"}-v${version}.${format}`;
+    return new NextResponse(encodeRecipeBundle(bundle, format), {
+      headers: {
+        "Content-Type": format === "yaml" ? "application/yaml; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { deleteRecipeFixture } from "@/lib/recipeFixtures";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+    fixtureId: string;
+  };
+};
+
+export async function DELETE(request: Request, { params }: Params) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const deleted = await deleteRecipeFixture(supabase, {
+      recipeId: params.id,
+      tenantId: session.tenant.id,
+      fixtureId: params.fixtureId
+    });
+    if (!deleted) {
+      return new NextResponse("Fixture not found", { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipeFixture, fixtureFromRecord, listRecipeFixtures, recipeFixtureSchema } from "@/lib/recipeFixtures";
+import { getRecipe } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+export async function GET(request: Request, { params }: Params) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const recipe = await getRecipe(supabase, params.id, session.tenant.id);
+    if (!recipe) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+
+    const fixtures = await listRecipeFixtures(supabase, recipe.id, session.tenant.id);
+    return NextResponse.json({
+      fixtures: fixtures.map((record) => ({ id: record.id, ...fixtureFromRecord(record), created_at: record.created_at }))
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const logger = createLogger({ component: "recipes.fixtures" });
+  const body = await request.json().catch(() => null);
+  const parsed = recipeFixtureSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    const recipe = await getRecipe(supabase, params.id, tenantId);
+    if (!recipe) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    const existing = await listRecipeFixtures(supabase, recipe.id, tenantId);
+    if (existing.some((record) => record.name === parsed.data.name)) {
+      return new NextResponse("A fixture with this name already exists", { status: 409 });
+    }
+
+    let id: string;
+    try {
+      ({ id } = await createRecipeFixture(supabase, {
+        recipeId: recipe.id,
+        tenantId,
+        fixture: parsed.data,
+        createdBy: session.userId
+      }));
+    } catch (error) {
+      logger.error("Failed to create recipe fixture", { tenantId, recipeId: recipe.id, error: (error as Error).message });
+      return new NextResponse("Unable to create fixture", { status: 500 });
+    }
+
+    logger.info("Recipe fixture created", { tenantId, recipeId: recipe.id, fixtureId: id });
+    return NextResponse.json({ id });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
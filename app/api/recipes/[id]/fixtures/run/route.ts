@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { flagsForPlan } from "@/lib/entitlements";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
+import { expandRecipeIncludes } from "@/lib/recipe-engine";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { loadRecipeLookupTables } from "@/lib/lookupTables";
+import { fixtureFromRecord, listRecipeFixtures, runRecipeFixtures } from "@/lib/recipeFixtures";
+import { getRecipe, recipeVersionLoader } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+const runFixturesSchema = z.object({
+  /** Unsaved draft to check; defaults to the recipe's current version. */
+  recipe: recipeDefinitionSchema.optional()
+});
+
+export async function POST(request: Request, { params }: Params) {
+  const body = await request.json().catch(() => ({}));
+  const parsed = runFixturesSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    const stored = await getRecipe(supabase, params.id, tenantId);
+    if (!stored) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    let recipe = parsed.data.recipe;
+    if (!recipe) {
+      const current = recipeDefinitionSchema.safeParse(stored.json);
+      if (!current.success) {
+        return NextResponse.json(
+          { error: "Stored recipe is invalid", issues: schemaIssues(current.error, ["json"]) },
+          { status: 422 }
+        );
+      }
+      recipe = current.data;
+    }
+    let lookupTables;
+    try {
+      recipe = await expandRecipeIncludes(recipe, recipeVersionLoader(supabase, tenantId), { recipeId: stored.id });
+      lookupTables = await loadRecipeLookupTables(supabase, tenantId, recipe);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+    }
+
+    const fixtures = (await listRecipeFixtures(supabase, stored.id, tenantId)).map(fixtureFromRecord);
+    const flags = flagsForPlan(session.tenant.plan, session.tenant.seats);
+    return NextResponse.json(runRecipeFixtures(recipe, fixtures, { allowFuzzy: flags.fuzzyMatching, lookupTables }));
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
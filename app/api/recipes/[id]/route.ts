@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { archiveRecipe, getRecipe } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+export async function GET(request: Request, { params }: Params) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const recipe = await getRecipe(supabase, params.id, session.tenant.id);
+    if (!recipe) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    return NextResponse.json(recipe);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
+
+/** Archives the recipe; its versions stay readable so pinned runs can be inspected. */
+export async function DELETE(request: Request, { params }: Params) {
+  const logger = createLogger({ component: "recipes.archive" });
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    const recipe = await getRecipe(supabase, params.id, tenantId);
+    if (!recipe) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    if (recipe.archived_at) {
+      return NextResponse.json({ ok: true, archived_at: recipe.archived_at });
+    }
+
+    const archivedAt = await archiveRecipe(supabase, recipe.id, tenantId);
+    logger.info("Recipe archived", { tenantId, recipeId: recipe.id });
+    return NextResponse.json({ ok: true, archived_at: archivedAt });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { getRecipeVersion } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+    version: string;
+  };
+};
+
+export async function GET(request: Request, { params }: Params) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const version = Number(params.version);
+    const record = Number.isInteger(version)
+      ? await getRecipeVersion(supabase, params.id, session.tenant.id, version)
+      : null;
+    if (!record) {
+      return new NextResponse("Recipe version not found", { status: 404 });
+    }
+
+    return NextResponse.json({
+      version: record.version,
+      json: record.json,
+      created_at: record.created_at,
+      created_by: record.created_by
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
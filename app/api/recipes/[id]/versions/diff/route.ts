@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { schemaIssues } from "@/lib/recipe-engine/schema";
+import { diffRecipeJson, getRecipeVersion } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive()
+});
+
+export async function GET(request: Request, { params }: Params) {
+  const url = new URL(request.url);
+  const query = diffQuerySchema.safeParse({
+    from: url.searchParams.get("from"),
+    to: url.searchParams.get("to")
+  });
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(query.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const [from, to] = await Promise.all([
+      getRecipeVersion(supabase, params.id, session.tenant.id, query.data.from),
+      getRecipeVersion(supabase, params.id, session.tenant.id, query.data.to)
+    ]);
+    if (!from || !to) {
+      return new NextResponse("Recipe version not found", { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: from.version,
+      to: to.version,
+      changes: diffRecipeJson(from.json, to.json)
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { listRecipeVersions } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    id: string;
+  };
+};
+
+export async function GET(request: Request, { params }: Params) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const versions = await listRecipeVersions(supabase, params.id, session.tenant.id);
+    if (versions.length === 0) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+
+    return NextResponse.json({
+      versions: versions.map(({ version, created_at, created_by }) => ({ version, created_at, created_by }))
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -1,17 +1,15 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getServiceSupabase } from "@/lib/db";
-import { newId } from "@/lib/ids";
+import { UnauthorizedError } from "@/lib/errors";
 import { createLogger } from "@/lib/logging";
-import type { Database } from "@/types/supabase";
-
-type RecipeInsert = Database["public"]["Tables"]["recipes"]["Insert"];
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipe } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
 
 const createRecipeSchema = z.object({
-  tenantId: z.string().uuid(),
   name: z.string().min(1),
-  json: z.any(),
-  version: z.number().int().positive().default(1)
+  json: recipeDefinitionSchema
 });
 
 export async function POST(request: Request) {
@@ -20,29 +18,32 @@ export async function POST(request: Request) {
 
   const parseResult = createRecipeSchema.safeParse(body);
   if (!parseResult.success) {
-    return NextResponse.json(parseResult.error.flatten(), { status: 400 });
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parseResult.error) }, { status: 400 });
   }
 
   const supabase = getServiceSupabase();
-  const id = newId();
-  const { tenantId, name, json, version } = parseResult.data;
-
-  const recipePayload: RecipeInsert = {
-    id,
-    tenant_id: tenantId,
-    name,
-    version,
-    json,
-    created_at: new Date().toISOString()
-  };
-
-  const { error } = await supabase.from("recipes").insert(recipePayload);
-
-  if (error) {
-    logger.error("Failed to create recipe", { tenantId, error: error.message });
-    return new NextResponse("Unable to create recipe", { status: 500 });
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    const { name, json } = parseResult.data;
+    let id: string;
+    try {
+      ({ id } = await createRecipe(supabase, { tenantId, recipe: { ...json, name }, createdBy: session.userId }));
+    } catch (error) {
+      logger.error("Failed to create recipe", { tenantId, error: (error as Error).message });
+      return new NextResponse("Unable to create recipe", { status: 500 });
+    }
+
+    logger.info("Recipe created", { tenantId, recipeId: id });
+    return NextResponse.json({ id, version: 1 });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
   }
-
-  logger.info("Recipe created", { tenantId, recipeId: id });
-  return NextResponse.json({ id });
 }
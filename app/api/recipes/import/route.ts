@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { getLookupTables, saveLookupTable } from "@/lib/lookupTables";
+import { migrateRecipe } from "@/lib/recipe-engine/migrations";
+import { schemaIssues } from "@/lib/recipe-engine/schema";
+import { canonicalJson, decodeRecipeBundle, recipeContentChecksum } from "@/lib/recipeBundles";
+import { createRecipe, createRecipeVersion, findRecipeByName } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+const importQuerySchema = z.object({
+  /**
+   * What to do when a recipe with the bundle's name is not at the bundle's
+   * base version: fail, add a new version anyway, or import a copy. Only
+   * `new_version` replaces lookup tables whose entries differ from the bundle's.
+   */
+  onConflict: z.enum(["fail", "new_version", "copy"]).default("fail")
+});
+
+export async function POST(request: Request) {
+  const logger = createLogger({ component: "recipes.import" });
+  const query = importQuerySchema.safeParse({
+    onConflict: new URL(request.url).searchParams.get("onConflict") ?? undefined
+  });
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(query.error) }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    let bundle;
+    try {
+      bundle = decodeRecipeBundle(await request.text());
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+      }
+      throw error;
+    }
+    if (bundle.recipe.definition.steps.some((step) => step.type === "include")) {
+      return new NextResponse("Bundles with include steps are not supported", { status: 422 });
+    }
+
+    const tenantId = session.tenant.id;
+    // Lookup tables are shared by all of the tenant's recipes, so one that differs from the bundle's is
+    // only replaced when the caller asks for it; missing ones are created with the recipe.
+    const currentTables = await getLookupTables(supabase, tenantId, Object.keys(bundle.lookupTables));
+    const changedTables = Object.entries(bundle.lookupTables).filter(
+      ([tableName, entries]) =>
+        !Object.hasOwn(currentTables, tableName) || canonicalJson(currentTables[tableName]) !== canonicalJson(entries)
+    );
+    const divergedTables = changedTables
+      .map(([tableName]) => tableName)
+      .filter((tableName) => Object.hasOwn(currentTables, tableName));
+    if (divergedTables.length > 0 && query.data.onConflict !== "new_version") {
+      return NextResponse.json(
+        { error: "Lookup table conflict", conflict: { lookupTables: divergedTables } },
+        { status: 409 }
+      );
+    }
+    const saveTables = async () => {
+      for (const [tableName, entries] of changedTables) {
+        await saveLookupTable(supabase, { tenantId, name: tableName, entries, createdBy: session.userId });
+      }
+      if (changedTables.length > 0) {
+        logger.info("Lookup tables imported", { tenantId, tables: changedTables.map(([tableName]) => tableName) });
+      }
+    };
+
+    const { name, version, base, definition } = bundle.recipe;
+    const existing = await findRecipeByName(supabase, tenantId, name);
+    if (!existing) {
+      await saveTables();
+      const created = await createRecipe(supabase, { tenantId, recipe: { ...definition, name }, createdBy: session.userId });
+      logger.info("Recipe imported", { tenantId, recipeId: created.id });
+      return NextResponse.json({ status: "created", id: created.id, version: 1 });
+    }
+
+    const current = recipeContentChecksum(migrateRecipe(existing.json));
+    if (current === recipeContentChecksum(definition)) {
+      await saveTables();
+      return NextResponse.json({ status: "unchanged", id: existing.id, version: existing.version });
+    }
+
+    // Fast-forward only a target still holding the content the bundle was saved on top of;
+    // version numbers alone say nothing about whether the target was edited since.
+    if (current === base?.checksum || query.data.onConflict === "new_version") {
+      await saveTables();
+      const added = await createRecipeVersion(supabase, {
+        recipeId: existing.id,
+        tenantId,
+        recipe: { ...definition, name },
+        createdBy: session.userId
+      });
+      logger.info("Recipe import added a version", { tenantId, recipeId: existing.id, version: added.version });
+      return NextResponse.json({ status: "updated", id: existing.id, version: added.version });
+    }
+    if (query.data.onConflict === "copy") {
+      await saveTables();
+      const copy = await createRecipe(supabase, {
+        tenantId,
+        recipe: { ...definition, name: `${name} (imported)` },
+        createdBy: session.userId
+      });
+      logger.info("Recipe imported as copy", { tenantId, recipeId: copy.id, conflictWith: existing.id });
+      return NextResponse.json({ status: "copied", id: copy.id, version: 1 });
+    }
+
+    return NextResponse.json(
+      {
+        error: "Recipe conflict",
+        conflict: {
+          recipeId: existing.id,
+          name,
+          currentVersion: existing.version,
+          bundleVersion: version,
+          baseVersion: base?.version ?? null
+        }
+      },
+      { status: 409 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
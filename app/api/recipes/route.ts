@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
+import { listRecipes } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+export async function GET(request: Request) {
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const includeArchived = new URL(request.url).searchParams.get("includeArchived") === "true";
+    const recipes = await listRecipes(supabase, session.tenant.id, { includeArchived });
+    return NextResponse.json({
+      recipes: recipes.map(({ id, name, version, created_at, updated_at, archived_at }) => ({
+        id,
+        name,
+        version,
+        created_at,
+        updated_at,
+        archived_at
+      }))
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
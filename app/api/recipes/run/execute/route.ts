@@ -1,8 +1,19 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
 import { flagsForPlan } from "@/lib/entitlements";
-import { executeRecipe, type RecipeDefinition, type WriteBackStep } from "@/lib/recipe-engine";
+import {
+  executeRecipeStream,
+  type LookupTable,
+  type RecipeDefinition,
+  type RecipeRow,
+  type WriteBackStep
+} from "@/lib/recipe-engine";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { prepareRecipe, recipeVersionLoader, resolveStoredRecipe } from "@/lib/recipes";
+import { loadRecipeLookupTables } from "@/lib/lookupTables";
+import { streamTableFile } from "@/lib/csv";
 import { createLogger } from "@/lib/logging";
 import { monthKey } from "@/lib/ids";
 import type { Database } from "@/types/supabase";
@@ -10,6 +21,7 @@ import { verifyMondaySessionToken } from "@/lib/security";
 import { resolveOAuthToken, upsertRowsToBoard } from "@/lib/mondayApi";
 
 type TenantRecord = Pick<Database["public"]["Tables"]["tenants"]["Row"], "id" | "plan" | "seats">;
+type RunRow = Database["public"]["Tables"]["runs"]["Row"];
 type RunUpdate = Database["public"]["Tables"]["runs"]["Update"];
 type IncrementUsageArgs = Database["public"]["Functions"]["increment_usage"]["Args"];
 
@@ -19,16 +31,23 @@ export const maxDuration = 60;
 const executeSchema = z.object({
   tenantId: z.string().uuid().optional(),
   runId: z.string().optional(),
-  recipe: z.object({
-    id: z.string(),
-    name: z.string(),
-    version: z.number(),
-    steps: z.array(z.object({ type: z.string(), config: z.any() }))
-  }),
+  recipe: recipeDefinitionSchema,
+  /** Values for the recipe's declared parameters. */
+  parameters: z.record(z.unknown()).optional(),
   plan: z.string().optional(),
   previewRows: z.array(z.record(z.any()))
 });
 
+// Multipart uploads carry the rows as a file that is streamed through the engine.
+const uploadSchema = executeSchema.omit({ previewRows: true });
+
+type ExecuteSource = {
+  rows: AsyncIterable<RecipeRow> | RecipeRow[];
+  countRows: () => Promise<number>;
+  /** Identifies each row on errors and rejected rows; defaults to its 1-based position. */
+  sourceId?: (row: RecipeRow, index: number) => string;
+};
+
 export async function POST(request: Request) {
   const logger = createLogger({ component: "recipes.execute" });
   const authHeader = request.headers.get("authorization") ?? "";
@@ -37,27 +56,50 @@ export async function POST(request: Request) {
     return new NextResponse("Missing monday token", { status: 401 });
   }
 
-  const body = await request.json().catch(() => null);
-  const parsed = executeSchema.safeParse(body);
+  let parsed: z.SafeParseReturnType<unknown, z.infer<typeof uploadSchema>>;
+  let source: ExecuteSource;
+  if ((request.headers.get("content-type") ?? "").includes("multipart/form-data")) {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const payload = formData.get("payload");
+    if (!(file instanceof File)) {
+      return new NextResponse("file is required", { status: 400 });
+    }
+    if (typeof payload !== "string") {
+      return new NextResponse("payload missing", { status: 400 });
+    }
+    parsed = uploadSchema.safeParse(safeJsonParse(payload));
+    source = {
+      rows: streamTableFile(file, file.name),
+      sourceId: (_row, index) => `row:${index + 2}`,
+      // A separate streaming pass, so the row cap is enforced before anything is written.
+      countRows: async () => {
+        let count = 0;
+        for await (const _row of streamTableFile(file, file.name)) {
+          count++;
+        }
+        return count;
+      }
+    };
+  } else {
+    const body = await request.json().catch(() => null);
+    const parsedBody = executeSchema.safeParse(body);
+    parsed = parsedBody;
+    const previewRows = parsedBody.success ? parsedBody.data.previewRows : [];
+    source = { rows: previewRows, countRows: async () => previewRows.length };
+  }
   if (!parsed.success) {
-    return NextResponse.json(parsed.error.flatten(), { status: 400 });
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
   }
 
   try {
     const { accountId, userId } = verifyMondaySessionToken(sessionToken);
     const accountKey = String(accountId);
 
-  const { tenantId: requestedTenantId, recipe, plan, previewRows, runId } = parsed.data;
-  logger.info("Execute called", { tenantId: requestedTenantId ?? null, incomingPreviewRows: previewRows.length, recipeSteps: recipe.steps.map((s: any) => s.type) });
-  try {
-    const dedupeConfigs = recipe.steps.filter((s: any) => s.type === "dedupe").map((s: any) => s.config);
-    if (dedupeConfigs.length > 0) {
-      logger.info("Dedupe step configs", { dedupeConfigs });
-    }
-  } catch (e) {
-    // non-fatal
-  }
-    if (previewRows.length === 0) {
+  const { tenantId: requestedTenantId, plan, runId } = parsed.data;
+    const rowCount = await source.countRows();
+  logger.info("Execute called", { tenantId: requestedTenantId ?? null, incomingRows: rowCount, recipeSteps: parsed.data.recipe.steps.map((step) => step.type) });
+    if (rowCount === 0) {
       return new NextResponse("No rows to process", { status: 400 });
     }
 
@@ -77,8 +119,48 @@ export async function POST(request: Request) {
       return new NextResponse("Tenant mismatch", { status: 409 });
     }
 
+    const loadPinnedRecipe = recipeVersionLoader(supabase, tenant.id);
+    let run: Pick<RunRow, "recipe_id" | "recipe_version"> | null = null;
+    if (runId) {
+      const { data: runData } = await supabase
+        .from("runs")
+        .select("recipe_id, recipe_version")
+        .eq("id", runId)
+        .eq("tenant_id", tenant.id)
+        .maybeSingle();
+      run = runData as Pick<RunRow, "recipe_id" | "recipe_version"> | null;
+    }
+
+    // Runs previewed from a stored recipe are pinned to the version they previewed, and run its stored JSON;
+    // so do recipes whose own id names a stored version. Submitted steps that differ from it are refused.
+    let recipe = parsed.data.recipe;
+    const stored = run
+      ? await resolveStoredRecipe(loadPinnedRecipe, { ...recipe, version: run.recipe_version }, run.recipe_id)
+      : await resolveStoredRecipe(loadPinnedRecipe, recipe);
+    if (stored) {
+      if (run && run.recipe_version !== recipe.version) {
+        return new NextResponse("Recipe version changed since preview", { status: 409 });
+      }
+      if (stored.changes.length > 0) {
+        return NextResponse.json(
+          { error: "Recipe differs from its stored version", changes: stored.changes },
+          { status: 409 }
+        );
+      }
+      recipe = stored.recipe;
+    }
+
+    let lookupTables: Record<string, LookupTable>;
+    try {
+      recipe = await prepareRecipe(loadPinnedRecipe, recipe, parsed.data.parameters, stored?.recipeId);
+      lookupTables = await loadRecipeLookupTables(supabase, tenant.id, recipe);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+    }
+
     const flags = flagsForPlan(tenant.plan, tenant.seats);
-    if (previewRows.length > flags.rowCap) {
+    if (rowCount > flags.rowCap) {
       return new NextResponse("Plan row cap exceeded", { status: 402 });
     }
     if (plan && plan.toLowerCase() !== tenant.plan.toLowerCase()) {
@@ -145,17 +227,31 @@ export async function POST(request: Request) {
       }
     };
 
-    const result = await executeRecipe(recipe as RecipeDefinition, previewRows, {
-      allowFuzzy: flags.fuzzyMatching,
-      writeBack
-    });
+    let result: Awaited<ReturnType<typeof executeRecipeStream>>;
+    try {
+      result = await executeRecipeStream(recipe, source.rows, {
+        allowFuzzy: flags.fuzzyMatching,
+        writeBack,
+        sourceId: source.sourceId,
+        lookupTables
+      });
+    } catch (error) {
+      // Step configs are checked once parameters are bound, before any row is read or written.
+      if (!(error instanceof ValidationError)) throw error;
+      if (runId) {
+        const failedUpdate: RunUpdate = { status: "failed", finished_at: new Date().toISOString() };
+        await supabase.from("runs").update(failedUpdate).eq("id", runId);
+      }
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+    }
 
-    logger.info("Execute result", { tenantId: tenant.id, rowsProcessed: result.rowsProcessed, rowsWritten: result.rowsWritten, errors: result.errors.length });
+    logger.info("Execute result", { tenantId: tenant.id, rowsProcessed: result.rowsProcessed, rowsWritten: result.rowsWritten, errors: result.errors.length, rejected: result.rejected.length, failed: result.failed });
 
     if (runId) {
       const completeUpdate: RunUpdate = {
-        status: result.errors.length ? "failed" : "success",
-        rows_in: previewRows.length,
+        // Row errors handled by a step's onError policy do not fail the run.
+        status: result.failed ? "failed" : "success",
+        rows_in: result.rowsProcessed,
         rows_out: result.rowsWritten,
         errors: result.errors,
         finished_at: new Date().toISOString(),
@@ -183,12 +279,22 @@ export async function POST(request: Request) {
     return NextResponse.json({
       rowsWritten: result.rowsWritten,
       errors: result.errors,
+      rejected: result.rejected,
+      failed: result.failed,
       usageUpdated: !error
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error ?? "Unknown error");
     logger.warn("Execute failed", { error: message });
     // Return the error message in the response body to aid debugging client-side.
-    return NextResponse.json({ error: message }, { status: 401 });
+    return NextResponse.json({ error: message }, { status: error instanceof UnauthorizedError ? 401 : 500 });
+  }
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
   }
 }
@@ -1,13 +1,19 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
 import { flagsForPlan } from "@/lib/entitlements";
 import {
   previewRecipe,
+  type LookupTable,
   type MapColumnsStep,
   type RecipeDefinition,
   type WriteBackStep
 } from "@/lib/recipe-engine";
+import { lintRecipe } from "@/lib/recipe-engine/lint";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { prepareRecipe, recipeVersionLoader, resolveStoredRecipe } from "@/lib/recipes";
+import { loadRecipeLookupTables } from "@/lib/lookupTables";
 import { parseTableFile } from "@/lib/csv";
 import { newId } from "@/lib/ids";
 import { createLogger } from "@/lib/logging";
@@ -25,19 +31,20 @@ export const maxDuration = 60;
 
 const MAX_PREVIEW_ROWS = 200;
 
-const recipeSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  version: z.number(),
-  steps: z.array(z.object({ type: z.string(), config: z.any() }))
-});
-
 const boardPreviewSchema = z.object({
   source: z.object({
     type: z.literal("board"),
     boardId: z.string()
   }),
-  recipe: recipeSchema,
+  recipe: recipeDefinitionSchema,
+  /**
+   * Stored recipe to run; its version matching `recipe.version` is loaded and pinned on the run. Recipes
+   * whose own id names a stored recipe are pinned the same way. Steps that differ from the stored version are
+   * refused with a 409.
+   */
+  recipeId: z.string().uuid().optional(),
+  /** Values for the recipe's declared parameters. */
+  parameters: z.record(z.unknown()).optional(),
   plan: z.string().optional()
 });
 
@@ -69,8 +76,28 @@ export async function POST(request: Request) {
 
     const flags = flagsForPlan(tenant.plan, tenant.seats);
 
+    const loadPinnedRecipe = recipeVersionLoader(supabase, tenant.id);
+
+    const prepare = async (
+      unbound: RecipeDefinition,
+      values: Record<string, unknown> | undefined,
+      recipeId?: string
+    ) => {
+      try {
+        const prepared = await prepareRecipe(loadPinnedRecipe, unbound, values, recipeId);
+        return { recipe: prepared, lookupTables: await loadRecipeLookupTables(supabase, tenant.id, prepared) };
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        return {
+          response: NextResponse.json({ error: error.message, issues: error.details }, { status: 400 })
+        };
+      }
+    };
+
   let recipe: RecipeDefinition;
+  let pinnedRecipeId: string | undefined;
   let preparedRecipe: RecipeDefinition;
+  let lookupTables: Record<string, LookupTable> = {};
   let planParam: string | undefined;
   let tableRows: Record<string, unknown>[] = [];
   let sourceBoard: { boardId: string; boardName: string } | null = null;
@@ -81,11 +108,31 @@ export async function POST(request: Request) {
       const jsonBody = await request.json().catch(() => null);
       const parsed = boardPreviewSchema.safeParse(jsonBody);
       if (!parsed.success) {
-        return NextResponse.json(parsed.error.flatten(), { status: 400 });
+        return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
       }
 
-      recipe = parsed.data.recipe as RecipeDefinition;
+      recipe = parsed.data.recipe;
       planParam = parsed.data.plan ?? undefined;
+      const stored = await resolveStoredRecipe(loadPinnedRecipe, recipe, parsed.data.recipeId);
+      if (!stored && parsed.data.recipeId) {
+        return new NextResponse("Recipe version not found", { status: 404 });
+      }
+      if (stored && stored.changes.length > 0) {
+        return NextResponse.json(
+          { error: "Recipe differs from its stored version", changes: stored.changes },
+          { status: 409 }
+        );
+      }
+      if (stored) {
+        recipe = stored.recipe;
+        pinnedRecipeId = stored.recipeId;
+      }
+      const bound = await prepare(recipe, parsed.data.parameters, pinnedRecipeId);
+      if (bound.response) {
+        return bound.response;
+      }
+      recipe = bound.recipe;
+      lookupTables = bound.lookupTables;
 
       let accessToken: string;
       try {
@@ -147,12 +194,44 @@ export async function POST(request: Request) {
         return new NextResponse("recipe missing", { status: 400 });
       }
 
-      const parsedRecipe = recipeSchema.safeParse(JSON.parse(recipePayload));
+      const parsedRecipe = recipeDefinitionSchema.safeParse(JSON.parse(recipePayload));
       if (!parsedRecipe.success) {
-        return NextResponse.json(parsedRecipe.error.flatten(), { status: 400 });
+        return NextResponse.json(
+          { error: "Invalid recipe", issues: schemaIssues(parsedRecipe.error, ["recipe"]) },
+          { status: 400 }
+        );
       }
 
-      recipe = parsedRecipe.data as RecipeDefinition;
+      recipe = parsedRecipe.data;
+      const recipeId = formData.get("recipeId");
+      const requestedId = typeof recipeId === "string" && recipeId ? recipeId : undefined;
+      const stored = await resolveStoredRecipe(loadPinnedRecipe, recipe, requestedId);
+      if (!stored && requestedId) {
+        return new NextResponse("Recipe version not found", { status: 404 });
+      }
+      if (stored && stored.changes.length > 0) {
+        return NextResponse.json(
+          { error: "Recipe differs from its stored version", changes: stored.changes },
+          { status: 409 }
+        );
+      }
+      if (stored) {
+        recipe = stored.recipe;
+        pinnedRecipeId = stored.recipeId;
+      }
+      const parametersPayload = formData.get("parameters");
+      const bound = await prepare(
+        recipe,
+        typeof parametersPayload === "string" && parametersPayload
+          ? (JSON.parse(parametersPayload) as Record<string, unknown>)
+          : undefined,
+        pinnedRecipeId
+      );
+      if (bound.response) {
+        return bound.response;
+      }
+      recipe = bound.recipe;
+      lookupTables = bound.lookupTables;
       const buffer = Buffer.from(await file.arrayBuffer());
       const table = parseTableFile(buffer, file.name);
       tableRows = table.rows;
@@ -174,7 +253,7 @@ export async function POST(request: Request) {
     const runInsertPayload: RunInsert = {
       id: runId,
       tenant_id: tenant.id,
-      recipe_id: preparedRecipe.id,
+      recipe_id: pinnedRecipeId ?? preparedRecipe.id,
       recipe_version: preparedRecipe.version,
       status: "previewing",
       rows_in: limitedRows.length,
@@ -185,9 +264,21 @@ export async function POST(request: Request) {
 
     await supabase.from("runs").insert(runInsertPayload);
 
-    const preview = previewRecipe(preparedRecipe, limitedRows, {
-      allowFuzzy: flags.fuzzyMatching
-    });
+    let preview: ReturnType<typeof previewRecipe>;
+    try {
+      preview = previewRecipe(preparedRecipe, limitedRows, {
+        allowFuzzy: flags.fuzzyMatching,
+        lookupTables,
+        // Board rows are traced to their monday item; uploads to their spreadsheet line (after the header).
+        sourceId: sourceBoard ? (row) => `item:${String(row.item_id)}` : (_row, index) => `row:${index + 2}`
+      });
+    } catch (error) {
+      // Step configs are checked once parameters are bound, so bound values can still be invalid.
+      if (!(error instanceof ValidationError)) throw error;
+      const failedUpdate: RunUpdate = { status: "failed", updated_at: new Date().toISOString() };
+      await supabase.from("runs").update(failedUpdate).eq("id", runId);
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+    }
 
     const dbPreview = preview as unknown as RunUpdate["preview"];
 
@@ -219,10 +310,12 @@ export async function POST(request: Request) {
       }));
     }
 
+    const inputFields = Array.from(new Set(limitedRows.flatMap((row) => Object.keys(row))));
     const responsePayload: Record<string, unknown> = {
       ...preview,
       runId,
-      preparedRecipe
+      preparedRecipe,
+      lint: lintRecipe(preparedRecipe, { inputFields }).issues
     };
 
     if (sourceBoard) {
@@ -241,8 +334,13 @@ export async function POST(request: Request) {
 
     return NextResponse.json(responsePayload);
   } catch (error) {
-    logger.warn("Preview failed", { error: (error as Error).message });
-    return new NextResponse("Unauthorized", { status: 401 });
+    if (error instanceof UnauthorizedError) {
+      logger.warn("Preview unauthorized", { error: error.message });
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+    const message = error instanceof Error ? error.message : String(error ?? "Unknown error");
+    logger.error("Preview failed", { error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
 
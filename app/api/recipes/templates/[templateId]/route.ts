@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError, ValidationError } from "@/lib/errors";
+import { createLogger } from "@/lib/logging";
+import { schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipe } from "@/lib/recipes";
+import { instantiateRecipeTemplate, RECIPE_TEMPLATES } from "@/lib/recipeTemplates";
+import { resolveSessionTenant } from "@/lib/tenants";
+
+type Params = {
+  params: {
+    templateId: string;
+  };
+};
+
+const instantiateTemplateSchema = z.object({
+  name: z.string().min(1).optional(),
+  parameters: z.record(z.unknown()).default({})
+});
+
+export async function POST(request: Request, { params }: Params) {
+  const logger = createLogger({ component: "recipes.templates" });
+  if (!RECIPE_TEMPLATES.some((template) => template.id === params.templateId)) {
+    return new NextResponse("Template not found", { status: 404 });
+  }
+  const body = await request.json().catch(() => ({}));
+  const parsed = instantiateTemplateSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
+  }
+
+  let recipe;
+  try {
+    recipe = instantiateRecipeTemplate(params.templateId, parsed.data.parameters, { name: parsed.data.name });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.details }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const supabase = getServiceSupabase();
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
+
+    const tenantId = session.tenant.id;
+    let id: string;
+    try {
+      ({ id } = await createRecipe(supabase, { tenantId, recipe, createdBy: session.userId }));
+    } catch (error) {
+      logger.error("Failed to instantiate template", {
+        tenantId,
+        templateId: params.templateId,
+        error: (error as Error).message
+      });
+      return new NextResponse("Unable to create recipe", { status: 500 });
+    }
+
+    logger.info("Recipe created from template", { tenantId, templateId: params.templateId, recipeId: id });
+    return NextResponse.json({ id, version: 1, recipe });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listRecipeTemplates } from "@/lib/recipeTemplates";
+
+export async function GET() {
+  return NextResponse.json({ templates: listRecipeTemplates() });
+}
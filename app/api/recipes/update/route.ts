@@ -1,15 +1,16 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getServiceSupabase } from "@/lib/db";
+import { UnauthorizedError } from "@/lib/errors";
 import { createLogger } from "@/lib/logging";
-import type { Database } from "@/types/supabase";
-
-type RecipeUpdate = Database["public"]["Tables"]["recipes"]["Update"];
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { createRecipeVersion, getRecipe } from "@/lib/recipes";
+import { resolveSessionTenant } from "@/lib/tenants";
 
+// The tenant always comes from the session token; a `tenantId` in the body is ignored.
 const updateRecipeSchema = z.object({
   id: z.string().uuid(),
-  tenantId: z.string().uuid(),
-  payload: z.any()
+  payload: recipeDefinitionSchema
 });
 
 export async function POST(request: Request) {
@@ -18,27 +19,46 @@ export async function POST(request: Request) {
   const parsed = updateRecipeSchema.safeParse(body);
 
   if (!parsed.success) {
-    return NextResponse.json(parsed.error.flatten(), { status: 400 });
+    return NextResponse.json({ error: "Invalid request", issues: schemaIssues(parsed.error) }, { status: 400 });
   }
 
   const supabase = getServiceSupabase();
-  const { id, tenantId, payload } = parsed.data;
-  const updatePayload: RecipeUpdate = {
-    json: payload,
-    updated_at: new Date().toISOString()
-  };
+  try {
+    const session = await resolveSessionTenant(request, supabase);
+    if (!session) {
+      return new NextResponse("Tenant not found", { status: 404 });
+    }
 
-  const { error } = await supabase
-    .from("recipes")
-    .update(updatePayload)
-    .eq("id", id)
-    .eq("tenant_id", tenantId);
+    const tenantId = session.tenant.id;
+    const { id, payload } = parsed.data;
+    const existing = await getRecipe(supabase, id, tenantId);
+    if (!existing) {
+      return new NextResponse("Recipe not found", { status: 404 });
+    }
+    if (existing.archived_at) {
+      return new NextResponse("Recipe is archived", { status: 409 });
+    }
 
-  if (error) {
-    logger.error("Failed to update recipe", { tenantId, recipeId: id, error: error.message });
-    return new NextResponse("Unable to update recipe", { status: 500 });
-  }
+    // Saves never overwrite: each one is recorded as a new immutable version.
+    let version: number;
+    try {
+      ({ version } = await createRecipeVersion(supabase, {
+        recipeId: id,
+        tenantId,
+        recipe: payload,
+        createdBy: session.userId
+      }));
+    } catch (error) {
+      logger.error("Failed to update recipe", { tenantId, recipeId: id, error: (error as Error).message });
+      return new NextResponse("Unable to update recipe", { status: 500 });
+    }
 
-  logger.info("Recipe updated", { tenantId, recipeId: id });
-  return NextResponse.json({ ok: true });
+    logger.info("Recipe updated", { tenantId, recipeId: id, version });
+    return NextResponse.json({ ok: true, version });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return new NextResponse(error.message, { status: 401 });
+    }
+    throw error;
+  }
 }
@@ -13,6 +13,8 @@ import type {
   WriteBackStep
 } from "@/lib/recipe-engine";
 import type { PlanFlags } from "@/lib/entitlements";
+import type { LintIssue } from "@/lib/recipe-engine/lint";
+import { STANDARDIZATION_RULES, type FormatOperation } from "@/lib/standardizationRules";
 
 import { UploadDropzone } from "@/components/UploadDropzone";
 import { DataGridPreview } from "@/components/DataGridPreview";
@@ -90,56 +92,20 @@ const BLANK_RECIPE: RecipeDefinition = {
   ]
 };
 
-type FormatOperation = FormatStep["config"]["operations"][number];
-type OperationConfig = FormatOperation["op"];
-
-type StandardizationRule = {
-  id: string;
-  label: string;
-  description: string;
-  build: (field: string) => FormatOperation;
-  matches: (field: string, op: OperationConfig) => boolean;
-};
-
 type StandardizationTarget = { field: string; label: string; };
 
-function normalizeKey(value: string | null | undefined): string {
-  return value ? value.toString().trim().toLowerCase().replace(/[^a-z0-9]/g, "") : "";
+function runToast(result: { rowsWritten: number; rejected: unknown[]; failed: boolean }) {
+  if (result.failed) {
+    return { message: `Run stopped after ${result.rowsWritten} rows: a step set to fail the run reported errors.`, variant: "error" as const };
+  }
+  const rejected = result.rejected.length ? ` ${result.rejected.length} rows quarantined.` : "";
+  return { message: `Run complete. ${result.rowsWritten} rows processed.${rejected}`, variant: "success" as const };
 }
 
-function deriveSplitNameFields(field: string): { first: string; last: string } {
-  const defaults = { first: "first_name", last: "last_name" };
-  if (!field) return defaults;
-  const withoutName = field.replace(/name$/i, "").replace(/[_\s]+$/g, "");
-  const withoutFull = withoutName.replace(/full$/i, "").replace(/[_\s]+$/g, "");
-  const base = withoutFull.length > 0 ? withoutFull : withoutName;
-  if (!base) return defaults;
-  const sanitized = base.endsWith("_") ? base.slice(0, -1) : base;
-  const normalizedBase = sanitized.toLowerCase() === "full" ? "" : sanitized;
-  const prefix = normalizedBase ? `${normalizedBase}_` : "";
-  return { first: `${prefix}first_name`, last: `${prefix}last_name` };
+function normalizeKey(value: string | null | undefined): string {
+  return value ? value.toString().trim().toLowerCase().replace(/[^a-z0-9]/g, "") : "";
 }
 
-/** Standardization rules (unchanged) */
-const STANDARDIZATION_RULES: StandardizationRule[] = [
-  { id: "trim_collapse_whitespace", label: "Trim & collapse whitespace", description: "Removes leading/trailing spaces and collapses internal whitespace.", build: (field) => ({ field, op: { kind: "trim_collapse_whitespace" } }), matches: (_f, op) => op.kind === "trim_collapse_whitespace" },
-  { id: "standardize_boolean", label: "Standardize booleans", description: "Converts common yes/no values into true/false.", build: (field) => ({ field, op: { kind: "boolean_standardize" } }), matches: (_f, op) => op.kind === "boolean_standardize" },
-  { id: "timezone_to_utc", label: "Normalize timezone", description: "Converts datetimes to UTC ISO strings.", build: (field) => ({ field, op: { kind: "timezone_to_utc" } }), matches: (_f, op) => op.kind === "timezone_to_utc" },
-  { id: "slugify", label: "Slugify text", description: "Generates URL-safe slugs (lowercase with dashes).", build: (field) => ({ field, op: { kind: "slugify", separator: "-" } }), matches: (_f, op) => op.kind === "slugify" && (op.separator ?? "-") === "-" },
-  { id: "round_numeric", label: "Round to currency", description: "Rounds numbers to two decimal places.", build: (field) => ({ field, op: { kind: "round_numeric", precision: 2 } }), matches: (_f, op) => op.kind === "round_numeric" && (op.precision ?? 2) === 2 },
-  { id: "normalize_percentage", label: "Normalize percentages", description: "Converts % values into decimal form (e.g., 45% → 0.45).", build: (field) => ({ field, op: { kind: "normalize_percentage" } }), matches: (_f, op) => op.kind === "normalize_percentage" },
-  { id: "remove_special_characters", label: "Remove special characters", description: "Strips zero-width and non-printable characters.", build: (field) => ({ field, op: { kind: "remove_special_characters" } }), matches: (_f, op) => op.kind === "remove_special_characters" },
-  { id: "split_full_name", label: "Split full name", description: "Splits a full name into first/last name fields.", build: (field) => { const { first, last } = deriveSplitNameFields(field); return { field, op: { kind: "split_name", firstNameField: first, lastNameField: last } }; }, matches: (field, op) => { if (op.kind !== "split_name") return false; const { first, last } = deriveSplitNameFields(field); const opFirst = op.firstNameField ?? first; const opLast = op.lastNameField ?? last; return opFirst === first && opLast === last; } },
-  { id: "normalize_address", label: "Normalize address", description: "Title-cases address parts and uppercases state codes.", build: (field) => ({ field, op: { kind: "normalize_address" } }), matches: (_f, op) => op.kind === "normalize_address" },
-  { id: "sanitize_html", label: "Sanitize HTML", description: "Removes unsupported HTML/markdown tags.", build: (field) => ({ field, op: { kind: "sanitize_html" } }), matches: (_f, op) => op.kind === "sanitize_html" },
-  { id: "title_case", label: "Title case", description: "Capitalize names.", build: (field) => ({ field, op: { kind: "title_case" } }), matches: (_f, op) => op.kind === "title_case" },
-  { id: "email_normalize", label: "Normalize email", description: "Lowercase and trim email addresses.", build: (field) => ({ field, op: { kind: "email_normalize" } }), matches: (_f, op) => op.kind === "email_normalize" },
-  { id: "phone_e164", label: "Format phone", description: "Convert phone numbers to E.164 (US default).", build: (field) => ({ field, op: { kind: "phone_e164", defaultCountry: "US" } }), matches: (_f, op) => op.kind === "phone_e164" },
-  { id: "date_parse", label: "Date to ISO", description: "Normalize dates to YYYY-MM-DD.", build: (field) => ({ field, op: { kind: "date_parse", outputFormat: "yyyy-MM-dd" } }), matches: (_f, op) => op.kind === "date_parse" },
-  { id: "iso_country", label: "Country to ISO", description: "Map country names to ISO codes.", build: (field) => ({ field, op: { kind: "iso_country" } }), matches: (_f, op) => op.kind === "iso_country" },
-  { id: "currency_code", label: "Currency code", description: "Standardize currency strings (e.g., usd -> USD).", build: (field) => ({ field, op: { kind: "currency_code" } }), matches: (_f, op) => op.kind === "currency_code" },
-  { id: "number_parse", label: "Parse number", description: "Parse numbers using the en-US locale.", build: (field) => ({ field, op: { kind: "number_parse", locale: "en-US" } }), matches: (_f, op) => op.kind === "number_parse" }
-];
 
 const STANDARDIZATION_RULES_MAP = new Map(STANDARDIZATION_RULES.map((r) => [r.id, r]));
 const STANDARDIZATION_RULE_INDEX = new Map(STANDARDIZATION_RULES.map((r, i) => [r.id, i]));
@@ -320,6 +286,7 @@ type PreviewResponse = RecipePreviewResult & {
   preparedRecipe?: RecipeDefinition;
   sourceBoard?: { boardId: string; boardName: string; };
   columns?: Array<{ id: string | null; title: string }>;
+  lint?: LintIssue[];
 };
 
 /** ---------------------------
@@ -946,8 +913,8 @@ export default function BoardViewClient() {
         body: JSON.stringify({ tenantId: context.tenantId, recipe: recipeForExecution, previewRows: rows, plan: context.plan })
       });
       if (!response.ok) throw new Error(await response.text());
-      const result = (await response.json()) as { rowsWritten: number };
-      setToast({ message: `Run complete. ${result.rowsWritten} rows processed.`, variant: "success" });
+      const result = (await response.json()) as { rowsWritten: number; rejected: unknown[]; failed: boolean };
+      setToast(runToast(result));
     } catch (err) {
       setToast({ message: (err as Error).message, variant: "error" });
     } finally {
@@ -1407,6 +1374,29 @@ export default function BoardViewClient() {
                   )}
                 </div>
 
+                {preview?.lint && preview.lint.length > 0 && (
+                  <ul className="space-y-1 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                    {preview.lint.map((issue, index) => (
+                      <li key={index}>
+                        <span className="font-semibold">{issue.severity === "error" ? "Error" : "Warning"}</span>{" "}
+                        <span className="font-mono">{issue.path}</span>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {preview?.removed && preview.removed.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {preview.removed.length} row{preview.removed.length === 1 ? "" : "s"} removed by filter steps
+                    {": "}
+                    {preview.removed
+                      .slice(0, 10)
+                      .map((entry) => entry.sourceId ?? `row ${entry.rowIndex + 1}`)
+                      .join(", ")}
+                    {preview.removed.length > 10 ? ", …" : ""}
+                  </p>
+                )}
+
                 {preview ? (
                   <DataGridPreview rows={preview.rows} diff={preview.diff} errors={preview.errors} />
                 ) : (
@@ -1740,8 +1730,8 @@ export default function BoardViewClient() {
                             body: JSON.stringify({ tenantId: context.tenantId, recipe: recipeForExecution, runId: preview.runId, previewRows: preview.rows, plan: context.plan })
                           });
                           if (!response.ok) throw new Error(await response.text());
-                          const result = (await response.json()) as { rowsWritten: number };
-                          setToast({ message: `Run complete. ${result.rowsWritten} rows processed.`, variant: "success" });
+                          const result = (await response.json()) as { rowsWritten: number; rejected: unknown[]; failed: boolean };
+                          setToast(runToast(result));
                         } catch (err) {
                           setToast({ message: (err as Error).message, variant: "error" });
                         } finally {
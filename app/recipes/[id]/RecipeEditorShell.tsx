@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useTransition } from "react";
+import { useMemo, useState, useTransition } from "react";
+import mondaySdk from "monday-sdk-js";
 import { RecipeEditor } from "@/components/RecipeEditor";
 import { Toast } from "@/components/Toast";
+import { Button } from "@/components/ui/button";
+import type { FixtureMismatch, FixtureRunSummary } from "@/lib/recipeFixtures";
 
 type RecipeRecord = {
   id: string;
@@ -15,11 +18,53 @@ type RecipeEditorShellProps = {
   recipe: RecipeRecord;
 };
 
+function mismatchLabel(mismatch: FixtureMismatch): string {
+  switch (mismatch.kind) {
+    case "row_count":
+      return `expected ${mismatch.expected} rows, got ${mismatch.actual}`;
+    case "cell":
+      return `row ${mismatch.rowIndex} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`;
+    case "missing_error":
+      return `missing error ${mismatch.code}`;
+    case "unexpected_error":
+      return `unexpected error ${mismatch.code} at row ${mismatch.rowIndex}`;
+    case "exception":
+      return mismatch.message;
+  }
+}
+
 export default function RecipeEditorShell({ recipe }: RecipeEditorShellProps) {
   const [toast, setToast] = useState<{ message: string; variant?: "default" | "success" | "error" } | null>(
     null
   );
+  const [failedFixtures, setFailedFixtures] = useState<{ value: unknown; summary: FixtureRunSummary } | null>(null);
   const [isPending, startTransition] = useTransition();
+  const mondayClient = useMemo(() => (typeof window === "undefined" ? null : mondaySdk()), []);
+
+  const authHeaders = async () => {
+    const session: { data?: string } | undefined = await mondayClient?.get("sessionToken");
+    if (!session?.data) {
+      throw new Error("Unable to retrieve monday session token.");
+    }
+    return { "Content-Type": "application/json", Authorization: `Bearer ${session.data}` };
+  };
+
+  const save = async (value: unknown) => {
+    const response = await fetch("/api/recipes/update", {
+      method: "POST",
+      headers: await authHeaders(),
+      body: JSON.stringify({
+        id: recipe.id,
+        payload: value
+      })
+    });
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    const { version } = (await response.json()) as { version: number };
+    setFailedFixtures(null);
+    setToast({ message: `Recipe saved as version ${version}`, variant: "success" });
+  };
 
   return (
     <>
@@ -28,21 +73,22 @@ export default function RecipeEditorShell({ recipe }: RecipeEditorShellProps) {
         onChange={(value) => {
           startTransition(async () => {
             try {
-              const response = await fetch("/api/recipes/update", {
+              // Check the draft against the recipe's fixtures before it becomes a new version.
+              const response = await fetch(`/api/recipes/${recipe.id}/fixtures/run`, {
                 method: "POST",
-                headers: {
-                  "Content-Type": "application/json"
-                },
-                body: JSON.stringify({
-                  id: recipe.id,
-                  tenantId: recipe.tenant_id,
-                  payload: value
-                })
+                headers: await authHeaders(),
+                body: JSON.stringify({ recipe: value })
               });
               if (!response.ok) {
                 throw new Error(await response.text());
               }
-              setToast({ message: "Recipe saved", variant: "success" });
+              const summary = (await response.json()) as FixtureRunSummary;
+              if (!summary.passed) {
+                setFailedFixtures({ value, summary });
+                setToast({ message: "Recipe fixtures failed; review the mismatches before saving", variant: "error" });
+                return;
+              }
+              await save(value);
             } catch (error) {
               setToast({ message: (error as Error).message, variant: "error" });
             }
@@ -50,6 +96,41 @@ export default function RecipeEditorShell({ recipe }: RecipeEditorShellProps) {
         }}
       />
       {isPending && <p className="mt-2 text-xs text-muted-foreground">Saving recipe...</p>}
+      {failedFixtures && (
+        <div className="mt-4 flex flex-col gap-2 rounded-md border border-destructive/40 p-3 text-xs">
+          {failedFixtures.summary.results
+            .filter((result) => !result.passed)
+            .map((result) => (
+              <div key={result.name}>
+                <p className="font-medium">{result.name}</p>
+                <ul className="list-disc pl-4 text-muted-foreground">
+                  {result.mismatches.map((mismatch, index) => (
+                    <li key={index}>{mismatchLabel(mismatch)}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setFailedFixtures(null)}>
+              Keep editing
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                startTransition(async () => {
+                  try {
+                    await save(failedFixtures.value);
+                  } catch (error) {
+                    setToast({ message: (error as Error).message, variant: "error" });
+                  }
+                });
+              }}
+            >
+              Save anyway
+            </Button>
+          </div>
+        </div>
+      )}
       <Toast message={toast?.message ?? null} variant={toast?.variant} />
     </>
   );
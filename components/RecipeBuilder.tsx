@@ -0,0 +1,673 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import type {
+  DedupeStep,
+  DeriveStep,
+  ErrorPolicy,
+  FilterStep,
+  FormatStep,
+  MapColumnsStep,
+  RecipeRow,
+  SortStep,
+  ValidateStep,
+  WriteBackStep
+} from "@/lib/recipe-engine";
+import {
+  BUILDER_STEP_TYPES,
+  FORMAT_OP_OPTIONS,
+  isFormEditable,
+  moveItem,
+  newBuilderStep,
+  previewDraft,
+  ruleForOperation,
+  sampleRowsForDraft,
+  setFormatOption,
+  type BuilderStepType,
+  type DraftStep,
+  type RecipeDraft
+} from "@/lib/recipeBuilder";
+import { STANDARDIZATION_RULES } from "@/lib/standardizationRules";
+import { DataGridPreview } from "./DataGridPreview";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+
+type RecipeBuilderProps = {
+  value: RecipeDraft;
+  onChange: (value: RecipeDraft) => void;
+  readOnly?: boolean;
+};
+
+type ValidateRule = ValidateStep["config"]["rules"][number];
+
+const ERROR_POLICIES: ErrorPolicy[] = ["warn", "drop_row", "quarantine", "fail_run"];
+const RULE_KINDS: Array<ValidateRule["kind"]> = ["required", "regex", "in_set", "unique"];
+
+function stepLabel(type: string): string {
+  return BUILDER_STEP_TYPES.find((entry) => entry.type === type)?.label ?? type;
+}
+
+export function RecipeBuilder({ value, onChange, readOnly = false }: RecipeBuilderProps) {
+  const [newStepType, setNewStepType] = useState<BuilderStepType>("format");
+  const [sampleText, setSampleText] = useState(() => JSON.stringify(sampleRowsForDraft(value), null, 2));
+
+  const setSteps = (steps: DraftStep[]) => onChange({ ...value, steps });
+  const updateStep = (index: number, step: DraftStep) =>
+    setSteps(value.steps.map((current, position) => (position === index ? step : current)));
+
+  const preview = useMemo(() => {
+    let rows: RecipeRow[];
+    try {
+      rows = JSON.parse(sampleText) as RecipeRow[];
+      if (!Array.isArray(rows)) throw new Error("Sample rows must be a JSON array of objects");
+    } catch (error) {
+      return { issues: [{ path: "sample", message: (error as Error).message }] };
+    }
+    return previewDraft(value, rows);
+  }, [value, sampleText]);
+
+  return (
+    <fieldset disabled={readOnly} className="flex flex-col gap-4">
+      {value.steps.map((step, index) => (
+        <div key={index} className="flex flex-col gap-3 rounded-md border p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              {index + 1}. {stepLabel(step.type)}
+            </span>
+            <div className="flex items-center gap-2">
+              <Select
+                className="h-9 w-36 text-xs"
+                aria-label="On error"
+                value={typeof step.onError === "string" ? step.onError : "warn"}
+                onChange={(event) => {
+                  const { onError: _onError, ...rest } = step;
+                  const policy = event.target.value as ErrorPolicy;
+                  updateStep(index, policy === "warn" ? rest : { ...rest, onError: policy });
+                }}
+              >
+                {ERROR_POLICIES.map((policy) => (
+                  <option key={policy} value={policy}>
+                    On error: {policy}
+                  </option>
+                ))}
+              </Select>
+              <Button variant="ghost" size="sm" onClick={() => setSteps(moveItem(value.steps, index, index - 1))}>
+                Up
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSteps(moveItem(value.steps, index, index + 1))}>
+                Down
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSteps(value.steps.filter((_step, position) => position !== index))}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+          {isFormEditable(step) ? (
+            <StepForm step={step} onChange={(next) => updateStep(index, next)} />
+          ) : (
+            <JsonStepEditor key={JSON.stringify(step)} step={step} onChange={(next) => updateStep(index, next)} />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Select
+          className="w-48"
+          aria-label="Step type"
+          value={newStepType}
+          onChange={(event) => setNewStepType(event.target.value as BuilderStepType)}
+        >
+          {BUILDER_STEP_TYPES.map((entry) => (
+            <option key={entry.type} value={entry.type}>
+              {entry.label}
+            </option>
+          ))}
+        </Select>
+        <Button variant="outline" onClick={() => setSteps([...value.steps, newBuilderStep(newStepType)])}>
+          Add step
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-2 rounded-md border border-dashed p-3">
+        <Label>Sample rows (JSON)</Label>
+        <Textarea
+          className="font-mono text-xs"
+          rows={4}
+          value={sampleText}
+          onChange={(event) => setSampleText(event.target.value)}
+        />
+        {"issues" in preview ? (
+          <ul className="flex flex-col gap-1 text-xs text-muted-foreground">
+            {preview.issues.map((issue, index) => (
+              <li key={index}>
+                <span className="font-mono">{issue.path}</span>: {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <>
+            <DataGridPreview rows={preview.result.rows} errors={preview.result.errors} limit={10} />
+            {preview.result.removed.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.result.removed.length} sample row{preview.result.removed.length === 1 ? "" : "s"} removed by filter
+                steps
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </fieldset>
+  );
+}
+
+function StepForm({ step, onChange }: { step: DraftStep; onChange: (step: DraftStep) => void }) {
+  const setConfig = (config: unknown) => onChange({ ...step, config });
+  switch (step.type) {
+    case "map_columns": {
+      const config = step.config as MapColumnsStep["config"];
+      return (
+        <div className="flex flex-col gap-2">
+          <PairsEditor
+            pairs={config.mapping}
+            keyLabel="Input column"
+            valueLabel="Field"
+            onChange={(mapping) => setConfig({ ...config, mapping })}
+          />
+          <label className="flex items-center gap-2 text-xs">
+            <Switch
+              checked={config.dropUnknown ?? false}
+              onChange={(event) => setConfig({ ...config, dropUnknown: event.target.checked })}
+            />
+            Drop columns that are not mapped
+          </label>
+        </div>
+      );
+    }
+    case "format":
+      return <FormatForm config={step.config as FormatStep["config"]} onChange={setConfig} />;
+    case "validate":
+      return <ValidateForm config={step.config as ValidateStep["config"]} onChange={setConfig} />;
+    case "derive": {
+      const config = step.config as DeriveStep["config"];
+      const setFields = (fields: DeriveStep["config"]["fields"]) => setConfig({ ...config, fields });
+      return (
+        <div className="flex flex-col gap-2">
+          {config.fields.map((derived, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                className="w-40"
+                placeholder="Field"
+                value={derived.field}
+                onChange={(event) =>
+                  setFields(config.fields.map((item, position) => (position === index ? { ...item, field: event.target.value } : item)))
+                }
+              />
+              <Input
+                className="font-mono"
+                placeholder='concat(first_name, " ", last_name)'
+                value={derived.expression}
+                onChange={(event) =>
+                  setFields(
+                    config.fields.map((item, position) => (position === index ? { ...item, expression: event.target.value } : item))
+                  )
+                }
+              />
+              <Button variant="ghost" size="sm" onClick={() => setFields(config.fields.filter((_item, position) => position !== index))}>
+                Remove
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="w-max" onClick={() => setFields([...config.fields, { field: "", expression: "" }])}>
+            Add field
+          </Button>
+        </div>
+      );
+    }
+    case "filter": {
+      const config = step.config as FilterStep["config"];
+      return (
+        <div className="flex flex-col gap-2">
+          <Select
+            className="w-56"
+            aria-label="Filter mode"
+            value={config.mode ?? "keep"}
+            onChange={(event) => setConfig({ ...config, mode: event.target.value as FilterStep["config"]["mode"] })}
+          >
+            <option value="keep">Keep rows matching</option>
+            <option value="drop">Drop rows matching</option>
+          </Select>
+          <JsonValueEditor
+            key={JSON.stringify(config.condition)}
+            value={config.condition}
+            onChange={(condition) => setConfig({ ...config, condition })}
+          />
+        </div>
+      );
+    }
+    case "sort": {
+      const config = step.config as SortStep["config"];
+      const setKeys = (keys: SortStep["config"]["keys"]) => setConfig({ ...config, keys });
+      const setKey = (index: number, key: SortStep["config"]["keys"][number]) =>
+        setKeys(config.keys.map((current, position) => (position === index ? key : current)));
+      return (
+        <div className="flex flex-col gap-2">
+          {config.keys.map((key, index) => (
+            <div key={index} className="flex flex-wrap gap-2">
+              <Input
+                className="w-40"
+                placeholder="Field"
+                value={key.field}
+                onChange={(event) => setKey(index, { ...key, field: event.target.value })}
+              />
+              <Select
+                className="w-32"
+                aria-label="Direction"
+                value={key.direction ?? "asc"}
+                onChange={(event) => setKey(index, { ...key, direction: event.target.value as "asc" | "desc" })}
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </Select>
+              <Select
+                className="w-36"
+                aria-label="Empty values"
+                value={key.nulls ?? "last"}
+                onChange={(event) => setKey(index, { ...key, nulls: event.target.value as "first" | "last" })}
+              >
+                <option value="last">Empty last</option>
+                <option value="first">Empty first</option>
+              </Select>
+              <Button variant="ghost" size="sm" onClick={() => setKeys(config.keys.filter((_key, position) => position !== index))}>
+                Remove
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setKeys([...config.keys, { field: "" }])}>
+              Add sort key
+            </Button>
+            <Input
+              className="w-32"
+              placeholder="Locale (en)"
+              value={config.locale ?? ""}
+              onChange={(event) => {
+                const { locale: _locale, ...rest } = config;
+                setConfig(event.target.value.trim() ? { ...rest, locale: event.target.value.trim() } : rest);
+              }}
+            />
+          </div>
+        </div>
+      );
+    }
+    case "dedupe": {
+      const config = step.config as DedupeStep["config"];
+      return (
+        <div className="flex flex-col gap-1">
+          <Label className="text-xs">Key fields</Label>
+          <ListInput key={config.keys.join(",")} values={config.keys} placeholder="email, company" onChange={(keys) => setConfig({ ...config, keys })} />
+        </div>
+      );
+    }
+    case "write_back": {
+      const config = step.config as WriteBackStep["config"];
+      const setText = (key: "boardId" | "keyColumn" | "itemNameField", text: string) => {
+        const { [key]: _previous, ...rest } = config;
+        setConfig(text.trim() ? { ...rest, [key]: text } : rest);
+      };
+      return (
+        <div className="flex flex-col gap-2">
+          <div className="grid gap-2 sm:grid-cols-4">
+            <Select
+              aria-label="Strategy"
+              value={config.strategy}
+              onChange={(event) => setConfig({ ...config, strategy: event.target.value as WriteBackStep["config"]["strategy"] })}
+            >
+              <option value="monday_upsert">monday upsert</option>
+              <option value="csv">CSV</option>
+            </Select>
+            <Input placeholder="Board id" value={config.boardId ?? ""} onChange={(event) => setText("boardId", event.target.value)} />
+            <Input placeholder="Key field" value={config.keyColumn ?? ""} onChange={(event) => setText("keyColumn", event.target.value)} />
+            <Input
+              placeholder="Item name field"
+              value={config.itemNameField ?? ""}
+              onChange={(event) => setText("itemNameField", event.target.value)}
+            />
+          </div>
+          <PairsEditor
+            pairs={config.columnMapping ?? {}}
+            keyLabel="Field"
+            valueLabel="monday column id"
+            onChange={(columnMapping) => setConfig({ ...config, columnMapping })}
+          />
+        </div>
+      );
+    }
+    default:
+      return <JsonStepEditor key={JSON.stringify(step)} step={step} onChange={onChange} />;
+  }
+}
+
+function FormatForm({
+  config,
+  onChange
+}: {
+  config: FormatStep["config"];
+  onChange: (config: FormatStep["config"]) => void;
+}) {
+  const setOperation = (index: number, operation: FormatStep["config"]["operations"][number]) =>
+    onChange({ operations: config.operations.map((current, position) => (position === index ? operation : current)) });
+
+  return (
+    <div className="flex flex-col gap-2">
+      {config.operations.map((operation, index) => {
+        const rule = ruleForOperation(operation.field, operation.op);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input
+              className="w-40"
+              placeholder="Field"
+              value={operation.field}
+              onChange={(event) => setOperation(index, { ...operation, field: event.target.value })}
+            />
+            <Select
+              className="w-56"
+              aria-label="Operation"
+              value={rule?.id ?? operation.op.kind}
+              onChange={(event) => {
+                const selected = STANDARDIZATION_RULES.find((candidate) => candidate.id === event.target.value);
+                if (selected) {
+                  setOperation(index, { ...selected.build(operation.field), ...(operation.when ? { when: operation.when } : {}) });
+                }
+              }}
+            >
+              {!rule && <option value={operation.op.kind}>{operation.op.kind}</option>}
+              {STANDARDIZATION_RULES.map((candidate) => (
+                <option key={candidate.id} value={candidate.id} title={candidate.description}>
+                  {candidate.label}
+                </option>
+              ))}
+            </Select>
+            {(FORMAT_OP_OPTIONS[operation.op.kind] ?? []).map((option) =>
+              option.input === "select" ? (
+                <Select
+                  key={option.key}
+                  className="w-36"
+                  aria-label={option.label}
+                  value={String((operation.op as Record<string, unknown>)[option.key] ?? "")}
+                  onChange={(event) =>
+                    setOperation(index, { ...operation, op: setFormatOption(operation.op, option, event.target.value) })
+                  }
+                >
+                  <option value="">{`${option.label}: ${option.placeholder ?? "default"}`}</option>
+                  {(option.choices ?? []).map((choice) => (
+                    <option key={choice} value={choice}>
+                      {choice}
+                    </option>
+                  ))}
+                </Select>
+              ) : (
+                <Input
+                  key={option.key}
+                  className="w-36"
+                  type={option.input}
+                  aria-label={option.label}
+                  placeholder={option.placeholder ?? option.label}
+                  value={String((operation.op as Record<string, unknown>)[option.key] ?? "")}
+                  onChange={(event) =>
+                    setOperation(index, { ...operation, op: setFormatOption(operation.op, option, event.target.value) })
+                  }
+                />
+              )
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ operations: config.operations.filter((_operation, position) => position !== index) })}
+            >
+              Remove
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-max"
+        onClick={() => onChange({ operations: [...config.operations, STANDARDIZATION_RULES[0].build("")] })}
+      >
+        Add operation
+      </Button>
+    </div>
+  );
+}
+
+function ValidateForm({
+  config,
+  onChange
+}: {
+  config: ValidateStep["config"];
+  onChange: (config: ValidateStep["config"]) => void;
+}) {
+  const setRule = (index: number, rule: ValidateRule) =>
+    onChange({ rules: config.rules.map((current, position) => (position === index ? rule : current)) });
+
+  return (
+    <div className="flex flex-col gap-2">
+      {config.rules.map((rule, index) => {
+        const when = rule.when ? { when: rule.when } : {};
+        const field = rule.kind === "unique" ? rule.composite[0] ?? "" : rule.field;
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              className="w-32"
+              aria-label="Rule"
+              value={rule.kind}
+              onChange={(event) => {
+                const kind = event.target.value as ValidateRule["kind"];
+                if (kind === "unique") setRule(index, { kind, composite: field ? [field] : [], ...when });
+                else if (kind === "regex") setRule(index, { kind, field, pattern: ".*", ...when });
+                else if (kind === "in_set") setRule(index, { kind, field, values: [], ...when });
+                else setRule(index, { kind, field, ...when });
+              }}
+            >
+              {RULE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </Select>
+            {rule.kind === "unique" ? (
+              <ListInput
+                key={rule.composite.join(",")}
+                values={rule.composite}
+                placeholder="Fields that must be unique together"
+                onChange={(composite) => setRule(index, { ...rule, composite })}
+              />
+            ) : (
+              <Input
+                className="w-40"
+                placeholder="Field"
+                value={rule.field}
+                onChange={(event) => setRule(index, { ...rule, field: event.target.value })}
+              />
+            )}
+            {rule.kind === "regex" && (
+              <>
+                <Input
+                  className="w-48 font-mono"
+                  placeholder="Pattern"
+                  value={rule.pattern}
+                  onChange={(event) => setRule(index, { ...rule, pattern: event.target.value })}
+                />
+                <Input
+                  className="w-48"
+                  placeholder="Message"
+                  value={rule.message ?? ""}
+                  onChange={(event) => {
+                    const { message: _message, ...rest } = rule;
+                    setRule(index, event.target.value ? { ...rest, message: event.target.value } : rest);
+                  }}
+                />
+              </>
+            )}
+            {rule.kind === "in_set" && (
+              <ListInput key={rule.values.join(",")} values={rule.values} placeholder="Allowed values" onChange={(values) => setRule(index, { ...rule, values })} />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ rules: config.rules.filter((_rule, position) => position !== index) })}
+            >
+              Remove
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-max"
+        onClick={() => onChange({ rules: [...config.rules, { kind: "required", field: "" }] })}
+      >
+        Add rule
+      </Button>
+    </div>
+  );
+}
+
+/** Edits a string-to-string map as rows; entries keep their order while keys are renamed. */
+function PairsEditor({
+  pairs,
+  keyLabel,
+  valueLabel,
+  onChange
+}: {
+  pairs: Record<string, string>;
+  keyLabel: string;
+  valueLabel: string;
+  onChange: (pairs: Record<string, string>) => void;
+}) {
+  const entries = Object.entries(pairs);
+  const setEntries = (next: Array<[string, string]>) => onChange(Object.fromEntries(next));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {entries.map(([key, target], index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            placeholder={keyLabel}
+            value={key}
+            onChange={(event) =>
+              setEntries(entries.map((entry, position) => (position === index ? [event.target.value, target] : entry)))
+            }
+          />
+          <Input
+            placeholder={valueLabel}
+            value={target}
+            onChange={(event) =>
+              setEntries(entries.map((entry, position) => (position === index ? [key, event.target.value] : entry)))
+            }
+          />
+          <Button variant="ghost" size="sm" onClick={() => setEntries(entries.filter((_entry, position) => position !== index))}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-max"
+        disabled={"" in pairs}
+        onClick={() => setEntries([...entries, ["", ""]])}
+      >
+        Add row
+      </Button>
+    </div>
+  );
+}
+
+/** Comma-separated list input that only splits on blur, so commas can be typed. Keyed by its values so it resets when they change. */
+function ListInput({
+  values,
+  placeholder,
+  onChange
+}: {
+  values: string[];
+  placeholder: string;
+  onChange: (values: string[]) => void;
+}) {
+  const [text, setText] = useState(values.join(", "));
+  return (
+    <Input
+      className="w-64"
+      placeholder={placeholder}
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={() =>
+        onChange(
+          text
+            .split(",")
+            .map((value) => value.trim())
+            .filter(Boolean)
+        )
+      }
+    />
+  );
+}
+
+/** Steps the builder has no form for (custom steps, includes, parameter references) are edited as JSON. */
+function JsonStepEditor({ step, onChange }: { step: DraftStep; onChange: (step: DraftStep) => void }) {
+  return (
+    <JsonValueEditor
+      value={step}
+      rows={6}
+      onChange={(value) => {
+        const parsed = value as DraftStep | null;
+        if (!parsed || typeof parsed.type !== "string") {
+          return 'A step needs a string "type"';
+        }
+        onChange(parsed);
+      }}
+    />
+  );
+}
+
+/** JSON textarea committed on blur; `onChange` may return a message to reject the value. */
+function JsonValueEditor<T>({
+  value,
+  rows = 3,
+  onChange
+}: {
+  value: T;
+  rows?: number;
+  onChange: (value: T) => string | void;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+  return (
+    <div className="flex flex-col gap-1">
+      <Textarea
+        className="font-mono text-xs"
+        rows={rows}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={() => {
+          try {
+            setError(onChange(JSON.parse(text) as T) ?? null);
+          } catch (parseError) {
+            setError((parseError as Error).message);
+          }
+        }}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,22 +1,15 @@
 'use client';
 
 import { useState } from "react";
-import { z } from "zod";
+import { lintRecipe, type LintIssue } from "@/lib/recipe-engine/lint";
+import { bindRecipeParameters, placeholderValues } from "@/lib/recipe-engine/parameters";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { parseRecipeDraft, type RecipeDraft } from "@/lib/recipeBuilder";
+import { RecipeBuilder } from "./RecipeBuilder";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { Badge } from "./ui/badge";
 
-const recipeSchema = z.object({
-  name: z.string().min(1),
-  version: z.number().int().nonnegative(),
-  steps: z.array(
-    z.object({
-      type: z.string(),
-      config: z.record(z.any())
-    })
-  )
-});
-
 type RecipeEditorProps = {
   initialValue: unknown;
   onChange: (value: unknown) => void;
@@ -25,21 +18,72 @@ type RecipeEditorProps = {
 
 export function RecipeEditor({ initialValue, onChange, readOnly = false }: RecipeEditorProps) {
   const [draft, setDraft] = useState(() => JSON.stringify(initialValue, null, 2));
+  // The builder edits a parsed copy of `draft`; both are kept in sync so either view can save.
+  const [builderDraft, setBuilderDraft] = useState<RecipeDraft | null>(() => {
+    const parsed = parseRecipeDraft(JSON.stringify(initialValue));
+    return "draft" in parsed ? parsed.draft : null;
+  });
+  const [view, setView] = useState<"builder" | "json">(() => (builderDraft ? "builder" : "json"));
   const [status, setStatus] = useState<"idle" | "valid" | "error">("idle");
   const [message, setMessage] = useState("");
+  const [lintIssues, setLintIssues] = useState<LintIssue[]>([]);
+
+  const editDraft = (text: string) => {
+    setDraft(text);
+    setStatus("idle");
+    setLintIssues([]);
+  };
 
   return (
     <div className="flex flex-col gap-3">
-      <Textarea
-        className="font-mono text-xs"
-        rows={12}
-        value={draft}
-        readOnly={readOnly}
-        onChange={(event) => {
-          setDraft(event.target.value);
-          setStatus("idle");
-        }}
-      />
+      <div className="flex gap-2">
+        <Button
+          variant={view === "builder" ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => {
+            const parsed = parseRecipeDraft(draft);
+            if ("error" in parsed) {
+              setStatus("error");
+              setMessage(`Fix the JSON before opening the builder: ${parsed.error}`);
+              return;
+            }
+            setBuilderDraft(parsed.draft);
+            setView("builder");
+          }}
+        >
+          Builder
+        </Button>
+        <Button variant={view === "json" ? "secondary" : "ghost"} size="sm" onClick={() => setView("json")}>
+          JSON
+        </Button>
+      </div>
+      {view === "builder" && builderDraft ? (
+        <RecipeBuilder
+          value={builderDraft}
+          readOnly={readOnly}
+          onChange={(next) => {
+            setBuilderDraft(next);
+            editDraft(JSON.stringify(next, null, 2));
+          }}
+        />
+      ) : (
+        <Textarea
+          className="font-mono text-xs"
+          rows={12}
+          value={draft}
+          readOnly={readOnly}
+          onChange={(event) => editDraft(event.target.value)}
+        />
+      )}
+      {lintIssues.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs">
+          {lintIssues.map((issue, index) => (
+            <li key={index} className={issue.severity === "error" ? "text-destructive" : "text-muted-foreground"}>
+              <span className="font-mono">{issue.path}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="flex items-center justify-between">
         <div>
           {status === "valid" && <Badge variant="secondary">Recipe valid</Badge>}
@@ -54,8 +98,10 @@ export function RecipeEditor({ initialValue, onChange, readOnly = false }: Recip
             <Button
               variant="outline"
               onClick={() => {
-                setDraft(JSON.stringify(initialValue, null, 2));
-                setStatus("idle");
+                const parsed = parseRecipeDraft(JSON.stringify(initialValue));
+                setBuilderDraft("draft" in parsed ? parsed.draft : null);
+                if (!("draft" in parsed)) setView("json");
+                editDraft(JSON.stringify(initialValue, null, 2));
               }}
             >
               Reset
@@ -64,8 +110,28 @@ export function RecipeEditor({ initialValue, onChange, readOnly = false }: Recip
               onClick={() => {
                 try {
                   const parsed = JSON.parse(draft);
-                  recipeSchema.parse(parsed);
-                  onChange(parsed);
+                  const result = recipeDefinitionSchema.safeParse(parsed);
+                  if (!result.success) {
+                    setStatus("error");
+                    setMessage(
+                      schemaIssues(result.error)
+                        .map((issue) => `${issue.path}: ${issue.message}`)
+                        .join("; ")
+                    );
+                    return;
+                  }
+                  // Parameters are bound per run, so lint with their defaults or typed placeholders.
+                  const { issues } = lintRecipe(
+                    bindRecipeParameters(result.data, placeholderValues(result.data.parameters))
+                  );
+                  setLintIssues(issues);
+                  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+                  if (errorCount > 0) {
+                    setStatus("error");
+                    setMessage(`${errorCount} lint error${errorCount === 1 ? "" : "s"}; fix them before saving`);
+                    return;
+                  }
+                  onChange(result.data);
                   setStatus("valid");
                   setMessage("Recipe saved");
                 } catch (error) {
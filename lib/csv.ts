@@ -1,3 +1,5 @@
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
 
@@ -41,6 +43,32 @@ export function parseTableFile(buffer: Buffer, fileName: string): ParsedTable {
   };
 }
 
+/**
+ * Yields the rows of an uploaded table one at a time. CSV input is parsed
+ * incrementally from the file stream; workbooks cannot be read that way and are
+ * parsed in one pass by `parseTableFile`.
+ */
+export async function* streamTableFile(file: Blob, fileName: string): AsyncGenerator<Record<string, unknown>, void, undefined> {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "xlsx" || extension === "xls") {
+    yield* parseTableFile(Buffer.from(await file.arrayBuffer()), fileName).rows;
+    return;
+  }
+
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false
+  });
+  const input = Readable.fromWeb(file.stream() as unknown as NodeReadableStream<Uint8Array>);
+  input.on("error", (error) => parser.destroy(error));
+  input.pipe(parser);
+
+  for await (const row of parser) {
+    yield row as Record<string, unknown>;
+  }
+}
+
 export function toCsv(rows: Record<string, unknown>[]): string {
   return Papa.unparse(rows);
 }
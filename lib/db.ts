@@ -13,6 +13,9 @@ const memoryStore: { [K in TableName]: MemoryRow<K>[] } = {
   entitlements: [],
   monday_oauth_tokens: [],
   recipes: [],
+  recipe_versions: [],
+  recipe_fixtures: [],
+  lookup_tables: [],
   runs: [],
   usage_monthly: [],
   audit: []
@@ -29,6 +32,10 @@ function createSelectBuilder<K extends TableName>(table: MemoryRow<K>[]) {
       filters.push((row) => (row as Record<string, unknown>)[field] === value);
       return this;
     },
+    is(field: string, value: null) {
+      filters.push((row) => ((row as Record<string, unknown>)[field] ?? null) === value);
+      return this;
+    },
     order(field: string, options: { ascending: boolean }) {
       workingSet = [...workingSet].sort((a, b) => {
         const av = (a as Record<string, unknown>)[field];
@@ -53,6 +60,16 @@ function createSelectBuilder<K extends TableName>(table: MemoryRow<K>[]) {
         throw new Error("Record not found");
       }
       return { data };
+    },
+    async then(
+      resolve: (value: { data: MemoryRow<K>[]; error: null }) => void,
+      reject: (reason?: unknown) => void
+    ) {
+      try {
+        resolve({ data: applyFilters(), error: null });
+      } catch (error) {
+        reject(error);
+      }
     }
   };
 }
@@ -95,6 +112,36 @@ function createUpdateBuilder<K extends TableName>(table: MemoryRow<K>[], values:
   };
 }
 
+function createDeleteBuilder<K extends TableName>(table: MemoryRow<K>[]) {
+  const filters: Array<(row: MemoryRow<K>) => boolean> = [];
+
+  const applyDelete = () => {
+    const deleted = table.filter((row) => filters.every((filter) => filter(row)));
+    deleted.forEach((row) => table.splice(table.indexOf(row), 1));
+    return deleted;
+  };
+
+  return {
+    eq(field: string, value: unknown) {
+      filters.push((row) => (row as Record<string, unknown>)[field] === value);
+      return this;
+    },
+    select() {
+      return this;
+    },
+    async then(
+      resolve: (value: { data: MemoryRow<K>[]; error: null }) => void,
+      reject: (reason?: unknown) => void
+    ) {
+      try {
+        resolve({ data: applyDelete(), error: null });
+      } catch (error) {
+        reject(error);
+      }
+    }
+  };
+}
+
 function createMemoryClient(): SupabaseClient<Database> {
   return {
     from(tableName: string) {
@@ -135,7 +182,8 @@ function createMemoryClient(): SupabaseClient<Database> {
           return { data: payload, error: null };
         },
         update: (values: Partial<MemoryUpdate<TableName>>) =>
-          createUpdateBuilder(table, values)
+          createUpdateBuilder(table, values),
+        delete: () => createDeleteBuilder(table)
       };
     },
     rpc(name: string, args: { tenant: string; month: string; rows: number; api?: number; schedules?: number }) {
@@ -232,18 +280,29 @@ function seedMemoryStore() {
     raw: { source: "memory" },
     updated_at: new Date().toISOString()
   });
+  const recipeJson = {
+    id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
+    name: "CRM Contacts",
+    version: 1,
+    steps: []
+  };
   memoryStore.recipes.push({
     id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
     tenant_id: tenantId,
     name: "CRM Contacts",
     version: 1,
-    json: {
-      id: "crm",
-      name: "CRM Contacts",
-      version: 1,
-      steps: []
-    },
+    json: recipeJson,
     created_at: new Date().toISOString(),
-    updated_at: null
+    updated_at: null,
+    archived_at: null
+  });
+  memoryStore.recipe_versions.push({
+    id: "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb",
+    recipe_id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
+    tenant_id: tenantId,
+    version: 1,
+    json: recipeJson,
+    created_by: null,
+    created_at: new Date().toISOString()
   });
 }
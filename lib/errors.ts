@@ -28,3 +28,13 @@ export class UsageLimitError extends Error {
     this.name = "UsageLimitError";
   }
 }
+
+export class ExpressionError extends Error {
+  public readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
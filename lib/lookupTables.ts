@@ -0,0 +1,133 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import { newId } from "./ids";
+import { formatIssuePath } from "./recipe-engine/schema";
+import type { LookupTable, RecipeDefinition } from "./recipe-engine";
+import type { Database, Json } from "@/types/supabase";
+
+export type LookupTableRecord = Database["public"]["Tables"]["lookup_tables"]["Row"];
+type LookupTableInsert = Database["public"]["Tables"]["lookup_tables"]["Insert"];
+type LookupTableUpdate = Database["public"]["Tables"]["lookup_tables"]["Update"];
+
+const LOOKUP_TABLE_COLUMNS = "id, tenant_id, name, entries, created_by, created_at, updated_at";
+
+export const lookupTableSchema: z.ZodType<LookupTable> = z.record(z.string());
+
+export type LookupTableReference = {
+  table: string;
+  /** JSON path of the operation's `table`, e.g. `steps[1].config.operations[0].op.table`. */
+  path: string;
+};
+
+/** Every `lookup` format operation in the recipe's own steps; include steps must be expanded first. */
+export function lookupTableReferences(recipe: RecipeDefinition): LookupTableReference[] {
+  return recipe.steps.flatMap((step, stepIndex) =>
+    step.type === "format"
+      ? step.config.operations.flatMap(({ op }, opIndex) =>
+          op.kind === "lookup"
+            ? [
+                {
+                  table: op.table,
+                  path: formatIssuePath(["steps", stepIndex, "config", "operations", opIndex, "op", "table"])
+                }
+              ]
+            : []
+        )
+      : []
+  );
+}
+
+export async function listLookupTables(
+  supabase: SupabaseClient<Database>,
+  tenantId: string
+): Promise<LookupTableRecord[]> {
+  const { data, error } = await supabase
+    .from("lookup_tables")
+    .select(LOOKUP_TABLE_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("name", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to list lookup tables: ${error.message}`);
+  }
+  return (data ?? []) as LookupTableRecord[];
+}
+
+/** The tenant's tables with the given names; names without a table are left out. */
+export async function getLookupTables(
+  supabase: SupabaseClient<Database>,
+  tenantId: string,
+  names: string[]
+): Promise<Record<string, LookupTable>> {
+  const wanted = new Set(names);
+  if (wanted.size === 0) {
+    return {};
+  }
+  const records = await listLookupTables(supabase, tenantId);
+  return Object.fromEntries(
+    records.filter((record) => wanted.has(record.name)).map((record) => [record.name, record.entries as LookupTable])
+  );
+}
+
+/**
+ * Loads every table the recipe's `lookup` operations reference. Throws
+ * `ValidationError` with the path of each operation whose table does not exist.
+ */
+export async function loadRecipeLookupTables(
+  supabase: SupabaseClient<Database>,
+  tenantId: string,
+  recipe: RecipeDefinition
+): Promise<Record<string, LookupTable>> {
+  const references = lookupTableReferences(recipe);
+  const tables = await getLookupTables(supabase, tenantId, references.map((reference) => reference.table));
+  const missing = references.filter((reference) => !Object.hasOwn(tables, reference.table));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      "Unknown lookup table",
+      missing.map((reference) => ({
+        path: reference.path,
+        message: `Lookup table "${reference.table}" does not exist`
+      }))
+    );
+  }
+  return tables;
+}
+
+/** Creates the tenant's table with that name, or replaces its entries. */
+export async function saveLookupTable(
+  supabase: SupabaseClient<Database>,
+  options: { tenantId: string; name: string; entries: LookupTable; createdBy?: string | null }
+): Promise<LookupTableRecord> {
+  const { data: existing } = await supabase
+    .from("lookup_tables")
+    .select(LOOKUP_TABLE_COLUMNS)
+    .eq("tenant_id", options.tenantId)
+    .eq("name", options.name)
+    .maybeSingle();
+  const current = existing as LookupTableRecord | null;
+  const now = new Date().toISOString();
+
+  if (current) {
+    const update: LookupTableUpdate = { entries: options.entries as Json, updated_at: now };
+    const { error } = await supabase.from("lookup_tables").update(update).eq("id", current.id);
+    if (error) {
+      throw new Error(`Failed to update lookup table: ${error.message}`);
+    }
+    return { ...current, ...update } as LookupTableRecord;
+  }
+
+  const record: LookupTableInsert = {
+    id: newId(),
+    tenant_id: options.tenantId,
+    name: options.name,
+    entries: options.entries as Json,
+    created_by: options.createdBy ?? null,
+    created_at: now,
+    updated_at: null
+  };
+  const { error } = await supabase.from("lookup_tables").insert(record);
+  if (error) {
+    throw new Error(`Failed to create lookup table: ${error.message}`);
+  }
+  return record as LookupTableRecord;
+}
@@ -0,0 +1,183 @@
+import { mapColumns } from "./steps/map_columns";
+import { detectsDateOrder, formatRows } from "./steps/format";
+import { validateRows } from "./steps/validate";
+import { deriveFields } from "./steps/derive";
+import { dedupeRows } from "./steps/dedupe";
+import { writeBackRows } from "./steps/write_back";
+import { filterRows } from "./steps/filter";
+import { sortRows } from "./steps/sort";
+import {
+  dedupeConfigSchema,
+  deriveConfigSchema,
+  filterConfigSchema,
+  formatConfigSchema,
+  includeConfigSchema,
+  mapColumnsConfigSchema,
+  sortConfigSchema,
+  validateConfigSchema,
+  writeBackConfigSchema
+} from "./schema";
+import { createStepRegistry, type StepDefinition } from "./registry";
+import { ValidationError } from "@/lib/errors";
+import type {
+  DedupeStep,
+  DeriveStep,
+  FilterStep,
+  FormatStep,
+  IncludeStep,
+  MapColumnsStep,
+  SortStep,
+  ValidateStep,
+  WriteBackStep
+} from "./index";
+
+const mapColumnsStep: StepDefinition<MapColumnsStep["config"]> = {
+  type: "map_columns",
+  configSchema: mapColumnsConfigSchema,
+  scope() {
+    return "row";
+  },
+  preview(rows, config) {
+    return { rows: mapColumns(rows, config), fieldSources: invertMapping(config.mapping) };
+  },
+  async execute(rows, config) {
+    return { rows: mapColumns(rows, config), fieldSources: invertMapping(config.mapping) };
+  }
+};
+
+const formatStep: StepDefinition<FormatStep["config"]> = {
+  type: "format",
+  configSchema: formatConfigSchema,
+  scope(config) {
+    // Day-first vs month-first dates are decided from the whole column.
+    return config.operations.some((operation) => detectsDateOrder(operation.op)) ? "table" : "row";
+  },
+  preview(rows, config, context) {
+    return formatRows(rows, config, context.options.lookupTables);
+  },
+  async execute(rows, config, context) {
+    const { rows: formatted, errors } = formatRows(rows, config, context.options.lookupTables);
+    return { rows: formatted, errors };
+  }
+};
+
+const validateStep: StepDefinition<ValidateStep["config"]> = {
+  type: "validate",
+  configSchema: validateConfigSchema,
+  scope(config) {
+    // Uniqueness is checked across the whole input.
+    return config.rules.some((rule) => rule.kind === "unique") ? "table" : "row";
+  },
+  preview(rows, config) {
+    return { rows, errors: validateRows(rows, config).errors };
+  },
+  async execute(rows, config) {
+    return { rows, errors: validateRows(rows, config).errors };
+  }
+};
+
+const deriveStep: StepDefinition<DeriveStep["config"]> = {
+  type: "derive",
+  configSchema: deriveConfigSchema,
+  scope() {
+    return "row";
+  },
+  preview(rows, config) {
+    return deriveFields(rows, config);
+  },
+  async execute(rows, config) {
+    const { rows: derived, errors } = deriveFields(rows, config);
+    return { rows: derived, errors };
+  }
+};
+
+const dedupeStep: StepDefinition<DedupeStep["config"]> = {
+  type: "dedupe",
+  configSchema: dedupeConfigSchema,
+  preview(rows, config, { options }) {
+    return dedupeRows(rows, config, options.allowFuzzy);
+  },
+  async execute(rows, config, { options }) {
+    const { rows: survivors, errors, origins } = dedupeRows(rows, config, options.allowFuzzy);
+    return { rows: survivors, errors, origins };
+  }
+};
+
+const writeBackStep: StepDefinition<WriteBackStep["config"]> = {
+  type: "write_back",
+  configSchema: writeBackConfigSchema,
+  // Streaming execution writes each chunk as it arrives.
+  scope() {
+    return "row";
+  },
+  preview(rows, _config, { logger }) {
+    // Skip real write-back in preview mode.
+    logger.debug("preview step skip write_back", { rows: rows.length });
+    return { rows };
+  },
+  async execute(rows, config, { logger, options }) {
+    logger.info("about to write_back", { rows: rows.length, stepConfig: config });
+    await writeBackRows(rows, config, options.writeBack);
+    logger.info("write_back completed", { rowsAfterWrite: rows.length });
+    return { rows, written: rows.length };
+  }
+};
+
+const filterStep: StepDefinition<FilterStep["config"]> = {
+  type: "filter",
+  configSchema: filterConfigSchema,
+  scope() {
+    return "row";
+  },
+  preview(rows, config) {
+    return filterRows(rows, config);
+  },
+  async execute(rows, config) {
+    return filterRows(rows, config);
+  }
+};
+
+const sortStep: StepDefinition<SortStep["config"]> = {
+  type: "sort",
+  configSchema: sortConfigSchema,
+  preview(rows, config) {
+    return sortRows(rows, config);
+  },
+  async execute(rows, config) {
+    return sortRows(rows, config);
+  }
+};
+
+// Include steps are inlined by `expandRecipeIncludes` (which can load stored recipes) before a run starts.
+const includeStep: StepDefinition<IncludeStep["config"]> = {
+  type: "include",
+  configSchema: includeConfigSchema,
+  preview(_rows, config) {
+    throw unexpandedInclude(config);
+  },
+  async execute(_rows, config) {
+    throw unexpandedInclude(config);
+  }
+};
+
+function unexpandedInclude(config: IncludeStep["config"]): ValidationError {
+  return new ValidationError(
+    `Include of recipe ${config.recipeId} version ${config.version} was not expanded; call expandRecipeIncludes first`
+  );
+}
+
+function invertMapping(mapping: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(mapping).map(([source, target]) => [target, source]));
+}
+
+export const defaultStepRegistry = createStepRegistry([
+  mapColumnsStep,
+  formatStep,
+  validateStep,
+  deriveStep,
+  dedupeStep,
+  writeBackStep,
+  filterStep,
+  sortStep,
+  includeStep
+]);
@@ -0,0 +1,185 @@
+import type { Condition, ConditionValue, RecipeRow } from "./index";
+import type { StepResult } from "./registry";
+
+/** Evaluates a declarative condition against a single row. */
+export function evaluateCondition(condition: Condition, row: RecipeRow): boolean {
+  if ("all" in condition) {
+    return condition.all.every((child) => evaluateCondition(child, row));
+  }
+  if ("any" in condition) {
+    return condition.any.some((child) => evaluateCondition(child, row));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, row);
+  }
+
+  const value = row[condition.field];
+  switch (condition.op) {
+    case "eq":
+      return valuesEqual(value, condition.value);
+    case "neq":
+      return !valuesEqual(value, condition.value);
+    case "in":
+      return condition.values.some((candidate) => valuesEqual(value, candidate));
+    case "not_in":
+      return !condition.values.some((candidate) => valuesEqual(value, candidate));
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (isEmpty(value)) return false;
+      const order = compareOrdered(value, condition.value);
+      if (order === null) return false;
+      if (condition.op === "gt") return order > 0;
+      if (condition.op === "gte") return order >= 0;
+      if (condition.op === "lt") return order < 0;
+      return order <= 0;
+    }
+    case "contains":
+      return !isEmpty(value) && normalize(value).includes(normalize(condition.value));
+    case "starts_with":
+      return !isEmpty(value) && normalize(value).startsWith(normalize(condition.value));
+    case "ends_with":
+      return !isEmpty(value) && normalize(value).endsWith(normalize(condition.value));
+    case "matches":
+      return !isEmpty(value) && conditionPattern(condition).test(String(value));
+    case "empty":
+      return isEmpty(value);
+    case "not_empty":
+      return !isEmpty(value);
+    default:
+      return false;
+  }
+}
+
+type MatchesCondition = Extract<Condition, { op: "matches" }>;
+
+const compiledPatterns = new WeakMap<MatchesCondition, RegExp>();
+
+/** Compiles a `matches` pattern once per condition rather than once per row. */
+function conditionPattern(condition: MatchesCondition): RegExp {
+  let pattern = compiledPatterns.get(condition);
+  if (!pattern) {
+    pattern = new RegExp(condition.pattern, condition.flags);
+    compiledPatterns.set(condition, pattern);
+  }
+  // "g" and "y" make test() resume from the previous row's match.
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+function valuesEqual(value: unknown, expected: ConditionValue): boolean {
+  if (expected === null) {
+    return isEmpty(value);
+  }
+  if (isEmpty(value)) {
+    return false;
+  }
+  if (typeof expected === "number") {
+    const numeric = toNumber(value);
+    return numeric !== null && numeric === expected;
+  }
+  if (typeof expected === "boolean") {
+    const flag = toBoolean(value);
+    return flag !== null && flag === expected;
+  }
+  return normalize(value) === normalize(expected);
+}
+
+function compareOrdered(value: unknown, expected: string | number): number | null {
+  if (typeof expected === "number") {
+    const numeric = toNumber(value);
+    return numeric === null ? null : numeric - expected;
+  }
+  const left = normalize(value);
+  const right = normalize(expected);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const normalized = normalize(value);
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return null;
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+export type RowSelection = {
+  rows: RecipeRow[];
+  /** Position of each selected row in the full row set. */
+  positions: number[];
+};
+
+export function selectRows(rows: RecipeRow[], condition: Condition): RowSelection {
+  const selection: RowSelection = { rows: [], positions: [] };
+  rows.forEach((row, rowIndex) => {
+    if (evaluateCondition(condition, row)) {
+      selection.rows.push(row);
+      selection.positions.push(rowIndex);
+    }
+  });
+  return selection;
+}
+
+/**
+ * Folds the result of a step that ran on a selection back into the full row
+ * set. Row indices in errors and diffs are translated to full-set positions.
+ * When the step kept one output row per input row the rows are replaced in
+ * place; otherwise the step's output is inserted where the first selected row
+ * was and unselected rows keep their relative order.
+ */
+export function mergeSelection(rows: RecipeRow[], selection: RowSelection, result: StepResult): StepResult {
+  const toFullIndex = (rowIndex: number) => (rowIndex >= 0 ? selection.positions[rowIndex] ?? rowIndex : rowIndex);
+  const errors = result.errors?.map((error) => ({ ...error, rowIndex: toFullIndex(error.rowIndex) }));
+  const diff = result.diff?.map((entry) => ({ ...entry, rowIndex: toFullIndex(entry.rowIndex) }));
+  const removed = result.removed?.map(toFullIndex);
+
+  const toFullOrigin = (origin: number) => (origin >= 0 ? selection.positions[origin] ?? -1 : -1);
+
+  if (result.rows.length === selection.positions.length) {
+    const merged = [...rows];
+    const origins = rows.map((_, index) => index);
+    selection.positions.forEach((position, index) => {
+      merged[position] = result.rows[index];
+      origins[position] = result.origins ? toFullOrigin(result.origins[index]) : position;
+    });
+    return { rows: merged, errors, diff, origins, removed, fieldSources: result.fieldSources, written: result.written };
+  }
+
+  const selected = new Set(selection.positions);
+  const insertAt = selection.positions[0] ?? rows.length;
+  const before = rows.slice(0, insertAt);
+  const after = rows.map((_, index) => index).filter((index) => index >= insertAt && !selected.has(index));
+  return {
+    rows: [...before, ...result.rows, ...after.map((index) => rows[index])],
+    errors,
+    diff,
+    origins: [
+      ...before.map((_, index) => index),
+      ...(result.origins ?? result.rows.map(() => -1)).map(toFullOrigin),
+      ...after
+    ],
+    removed,
+    fieldSources: result.fieldSources,
+    written: result.written
+  };
+}
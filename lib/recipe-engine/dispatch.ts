@@ -0,0 +1,144 @@
+import type { Condition, ErrorPolicy, IncludedFrom, RecipeError, RecipeRow, RejectedRow } from "./index";
+import { mergeSelection, selectRows } from "./conditions";
+import type { StepContext, StepDefinition, StepRegistry, StepResult, StepScope } from "./registry";
+import { conditionSchema, errorPolicySchema, schemaIssues } from "./schema";
+import { ValidationError } from "@/lib/errors";
+
+export type ResolvedStep = {
+  definition: StepDefinition;
+  config: unknown;
+  when?: Condition;
+  onError?: ErrorPolicy;
+  includedFrom?: IncludedFrom;
+};
+
+export type PolicyOutcome = {
+  rows: RecipeRow[];
+  /** Input position of each kept row (-1 when unknown). */
+  origins: number[];
+  rejected: RejectedRow[];
+  failed: boolean;
+};
+
+export function resolveStep(
+  registry: StepRegistry,
+  step: { type: string; config: unknown; when?: unknown; onError?: unknown; includedFrom?: IncludedFrom },
+  stepIndex: number
+): ResolvedStep {
+  const definition = registry.get(step.type);
+  if (!definition) {
+    throw new Error(`Unsupported recipe step: ${step.type}`);
+  }
+  const parsed = definition.configSchema.safeParse(step.config);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid config for step ${stepIndex} (${step.type})`,
+      schemaIssues(parsed.error, ["steps", stepIndex, "config"])
+    );
+  }
+  const resolved: ResolvedStep = { definition, config: parsed.data };
+  if (step.when !== undefined) {
+    const when = conditionSchema.safeParse(step.when);
+    if (!when.success) {
+      throw new ValidationError(
+        `Invalid condition for step ${stepIndex} (${step.type})`,
+        schemaIssues(when.error, ["steps", stepIndex, "when"])
+      );
+    }
+    resolved.when = when.data;
+  }
+  if (step.onError !== undefined) {
+    const onError = errorPolicySchema.safeParse(step.onError);
+    if (!onError.success) {
+      throw new ValidationError(
+        `Invalid onError policy for step ${stepIndex} (${step.type})`,
+        schemaIssues(onError.error, ["steps", stepIndex, "onError"])
+      );
+    }
+    resolved.onError = onError.data;
+  }
+  if (step.includedFrom) {
+    resolved.includedFrom = step.includedFrom;
+  }
+  return resolved;
+}
+
+export function stepScope({ definition, config }: ResolvedStep): StepScope {
+  return definition.scope?.(config) ?? "table";
+}
+
+export function previewStep(step: ResolvedStep, rows: RecipeRow[], context: StepContext): StepResult {
+  const { definition, config, when } = step;
+  if (!when) {
+    return definition.preview(rows, config, context);
+  }
+  const selection = selectRows(rows, when);
+  return mergeSelection(rows, selection, definition.preview(selection.rows, config, context));
+}
+
+export async function executeStep(step: ResolvedStep, rows: RecipeRow[], context: StepContext): Promise<StepResult> {
+  const { definition, config, when } = step;
+  if (!when) {
+    return definition.execute(rows, config, context);
+  }
+  const selection = selectRows(rows, when);
+  return mergeSelection(rows, selection, await definition.execute(selection.rows, config, context));
+}
+
+/**
+ * Input position of every output row: the step's own `origins`, or the
+ * identity when it kept one output row per input row. Rows that cannot be
+ * traced are -1.
+ */
+export function resolveOrigins(input: RecipeRow[], result: StepResult): number[] {
+  if (result.origins) {
+    return result.origins;
+  }
+  return result.rows.length === input.length ? result.rows.map((_, index) => index) : result.rows.map(() => -1);
+}
+
+/**
+ * Applies the step's `onError` policy to its result. Errors point at input
+ * rows, so output rows are traced back through their origins; offending input
+ * rows are quarantined even when the step no longer outputs them. Errors
+ * without a row (`rowIndex` -1) only count towards `fail_run`.
+ */
+export function applyErrorPolicy(
+  step: ResolvedStep,
+  input: RecipeRow[],
+  result: StepResult,
+  stepIndex: number
+): PolicyOutcome {
+  const policy = step.onError ?? "warn";
+  const errors = result.errors ?? [];
+  const origins = resolveOrigins(input, result);
+  if (policy === "warn" || errors.length === 0) {
+    return { rows: result.rows, origins, rejected: [], failed: false };
+  }
+  if (policy === "fail_run") {
+    return { rows: result.rows, origins, rejected: [], failed: true };
+  }
+
+  const errorsByRow = new Map<number, RecipeError[]>();
+  for (const error of errors) {
+    if (error.rowIndex < 0 || error.rowIndex >= input.length) continue;
+    const rowErrors = errorsByRow.get(error.rowIndex);
+    if (rowErrors) {
+      rowErrors.push(error);
+    } else {
+      errorsByRow.set(error.rowIndex, [error]);
+    }
+  }
+
+  const rejected =
+    policy === "quarantine"
+      ? Array.from(errorsByRow, ([rowIndex, rowErrors]) => ({ stepIndex, rowIndex, row: input[rowIndex], errors: rowErrors }))
+      : [];
+  const kept = result.rows.flatMap((_, index) => (errorsByRow.has(origins[index]) ? [] : [index]));
+  return {
+    rows: kept.map((index) => result.rows[index]),
+    origins: kept.map((index) => origins[index]),
+    rejected,
+    failed: false
+  };
+}
@@ -0,0 +1,654 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  format as formatDate
+} from "date-fns";
+import type { RecipeRow } from "./index";
+import { ExpressionError } from "@/lib/errors";
+
+/**
+ * A small, side-effect free expression language for computed fields. Source is
+ * tokenized and parsed into a tree that is interpreted directly; nothing is
+ * ever handed to `eval` or `Function`.
+ *
+ *   first + " " + last
+ *   round(price - cost, 2)
+ *   `Close Date` ?? created_at
+ *   amount > 1000 ? "enterprise" : "smb"
+ */
+export type ExpressionValue = string | number | boolean | null;
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||" | "??";
+
+export type Expression =
+  | { kind: "literal"; value: ExpressionValue }
+  | { kind: "field"; name: string }
+  | { kind: "unary"; operator: "-" | "!"; operand: Expression }
+  | { kind: "binary"; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: "conditional"; test: Expression; consequent: Expression; alternate: Expression }
+  | { kind: "call"; name: string; args: Expression[] };
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "field"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "end"; position: number };
+
+const OPERATORS = ["??", "==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", ","];
+
+// Lowest to highest precedence; each level is left-associative.
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ["??"],
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"]
+];
+
+type DateParts = { year: number; month: number; day: number };
+
+type FunctionDefinition = {
+  minArgs: number;
+  maxArgs: number;
+  apply: (args: ExpressionValue[]) => ExpressionValue;
+};
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  // Strings
+  upper: fn(1, 1, ([value]) => mapString(value, (text) => text.toUpperCase())),
+  lower: fn(1, 1, ([value]) => mapString(value, (text) => text.toLowerCase())),
+  trim: fn(1, 1, ([value]) => mapString(value, (text) => text.trim().replace(/\s+/g, " "))),
+  length: fn(1, 1, ([value]) => (value === null ? null : toText(value).length)),
+  substring: fn(2, 3, ([value, start, length]) =>
+    mapString(value, (text) => {
+      const from = requireNumber(start, "substring");
+      return length === undefined || length === null
+        ? text.substring(from)
+        : text.substring(from, from + requireNumber(length, "substring"));
+    })
+  ),
+  left: fn(2, 2, ([value, count]) => mapString(value, (text) => text.slice(0, requireNumber(count, "left")))),
+  right: fn(2, 2, ([value, count]) =>
+    mapString(value, (text) => {
+      const size = requireNumber(count, "right");
+      return size <= 0 ? "" : text.slice(-size);
+    })
+  ),
+  replace: fn(3, 3, ([value, search, replacement]) =>
+    mapString(value, (text) => text.split(toText(search)).join(toText(replacement)))
+  ),
+  split_part: fn(3, 3, ([value, separator, index]) => {
+    if (value === null) return null;
+    const parts = toText(value).split(toText(separator));
+    return parts[requireNumber(index, "split_part") - 1] ?? null;
+  }),
+  contains: fn(2, 2, ([value, search]) => (value === null ? null : toText(value).includes(toText(search)))),
+  starts_with: fn(2, 2, ([value, search]) => (value === null ? null : toText(value).startsWith(toText(search)))),
+  ends_with: fn(2, 2, ([value, search]) => (value === null ? null : toText(value).endsWith(toText(search)))),
+  concat: fn(1, Infinity, (args) => args.map((arg) => (arg === null ? "" : toText(arg))).join("")),
+  join: fn(2, Infinity, ([separator, ...values]) =>
+    values
+      .filter((value) => !isBlank(value))
+      .map(toText)
+      .join(toText(separator))
+  ),
+  // Null handling and conversion
+  coalesce: fn(1, Infinity, (args) => args.find((arg) => !isBlank(arg)) ?? null),
+  is_empty: fn(1, 1, ([value]) => isBlank(value)),
+  string: fn(1, 1, ([value]) => (value === null ? null : toText(value))),
+  number: fn(1, 1, ([value]) => (isBlank(value) ? null : toNumber(value))),
+  // Numbers
+  round: fn(1, 2, ([value, digits]) =>
+    mapNumber(value, "round", (number) => {
+      const factor = 10 ** (digits === undefined || digits === null ? 0 : requireNumber(digits, "round"));
+      return Math.round((number + Number.EPSILON) * factor) / factor;
+    })
+  ),
+  floor: fn(1, 1, ([value]) => mapNumber(value, "floor", Math.floor)),
+  ceil: fn(1, 1, ([value]) => mapNumber(value, "ceil", Math.ceil)),
+  abs: fn(1, 1, ([value]) => mapNumber(value, "abs", Math.abs)),
+  min: fn(1, Infinity, (args) => aggregate(args, "min", Math.min)),
+  max: fn(1, Infinity, (args) => aggregate(args, "max", Math.max)),
+  // Dates are exchanged as ISO calendar dates (YYYY-MM-DD).
+  date: fn(1, 1, ([value]) => mapDate(value, "date", toIsoDate)),
+  year: fn(1, 1, ([value]) => mapDate(value, "year", (parts) => parts.year)),
+  month: fn(1, 1, ([value]) => mapDate(value, "month", (parts) => parts.month)),
+  day: fn(1, 1, ([value]) => mapDate(value, "day", (parts) => parts.day)),
+  quarter: fn(1, 1, ([value]) => mapDate(value, "quarter", (parts) => Math.ceil(parts.month / 3))),
+  fiscal_quarter: fn(2, 2, ([value, startMonth]) =>
+    mapDate(value, "fiscal_quarter", (parts) => Math.floor(fiscalOffset(parts, startMonth) / 3) + 1)
+  ),
+  fiscal_year: fn(2, 2, ([value, startMonth]) =>
+    mapDate(value, "fiscal_year", (parts) => {
+      const start = requireMonth(startMonth);
+      // Fiscal years are named after the calendar year in which they end.
+      return start === 1 || parts.month < start ? parts.year : parts.year + 1;
+    })
+  ),
+  date_add: fn(3, 3, ([value, amount, unit]) =>
+    mapDate(value, "date_add", (parts) => {
+      const count = requireNumber(amount, "date_add");
+      const base = toLocalDate(parts);
+      switch (toText(unit).toLowerCase()) {
+        case "day":
+        case "days":
+          return toIsoDate(fromLocalDate(addDays(base, count)));
+        case "month":
+        case "months":
+          return toIsoDate(fromLocalDate(addMonths(base, count)));
+        case "year":
+        case "years":
+          return toIsoDate(fromLocalDate(addYears(base, count)));
+        default:
+          throw new ExpressionError(`date_add: unknown unit "${toText(unit)}"`);
+      }
+    })
+  ),
+  date_diff: fn(3, 3, ([start, end, unit]) => {
+    if (isBlank(start) || isBlank(end)) return null;
+    const from = toLocalDate(requireDate(start, "date_diff"));
+    const to = toLocalDate(requireDate(end, "date_diff"));
+    switch (toText(unit).toLowerCase()) {
+      case "day":
+      case "days":
+        return differenceInCalendarDays(to, from);
+      case "month":
+      case "months":
+        return differenceInCalendarMonths(to, from);
+      case "year":
+      case "years":
+        return differenceInCalendarYears(to, from);
+      default:
+        throw new ExpressionError(`date_diff: unknown unit "${toText(unit)}"`);
+    }
+  }),
+  format_date: fn(2, 2, ([value, pattern]) =>
+    mapDate(value, "format_date", (parts) => {
+      try {
+        return formatDate(toLocalDate(parts), toText(pattern));
+      } catch (error) {
+        throw new ExpressionError(`format_date: ${(error as Error).message}`);
+      }
+    })
+  )
+};
+
+/** Parses expression source, throwing `ExpressionError` with the offending position. */
+export function parseExpression(source: string): Expression {
+  const parser = new Parser(tokenize(source));
+  return parser.parseProgram();
+}
+
+/**
+ * Rewrites the field references in expression source, leaving literals,
+ * function names and formatting untouched. Used to remap included recipes.
+ */
+export function renameExpressionFields(source: string, rename: (name: string) => string): string {
+  parseExpression(source);
+  const tokens = tokenize(source);
+  let renamed = "";
+  let copied = 0;
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    const isCall = next?.type === "operator" && next.value === "(";
+    const isField =
+      token.type === "field" ||
+      (token.type === "identifier" && !isCall && !["true", "false", "null"].includes(token.value));
+    if (!isField) {
+      return;
+    }
+    const end = token.type === "field" ? fieldReferenceEnd(source, token.position) : token.position + token.value.length;
+    const name = rename(token.value);
+    renamed += source.slice(copied, token.position);
+    renamed += /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/[`\\]/g, "\\$&")}\``;
+    copied = end;
+  });
+  return renamed + source.slice(copied);
+}
+
+/** Position just past the closing backtick of the field reference starting at `start`. */
+function fieldReferenceEnd(source: string, start: number): number {
+  let position = start + 1;
+  while (source[position] !== "`") {
+    position += source[position] === "\\" ? 2 : 1;
+  }
+  return position + 1;
+}
+
+export function evaluateExpression(expression: Expression, row: RecipeRow): ExpressionValue {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "field":
+      // Own properties only, so names like "constructor" never reach the prototype.
+      return Object.hasOwn(row, expression.name) ? fromRowValue(row[expression.name]) : null;
+    case "unary": {
+      const operand = evaluateExpression(expression.operand, row);
+      if (expression.operator === "!") {
+        return !isTruthy(operand);
+      }
+      return operand === null ? null : -requireNumber(operand, "-");
+    }
+    case "conditional":
+      return isTruthy(evaluateExpression(expression.test, row))
+        ? evaluateExpression(expression.consequent, row)
+        : evaluateExpression(expression.alternate, row);
+    case "call": {
+      const args = expression.args.map((arg) => evaluateExpression(arg, row));
+      return FUNCTIONS[expression.name].apply(args);
+    }
+    case "binary":
+      return evaluateBinary(expression, row);
+    default:
+      return null;
+  }
+}
+
+function evaluateBinary(expression: Extract<Expression, { kind: "binary" }>, row: RecipeRow): ExpressionValue {
+  const { operator } = expression;
+  const left = evaluateExpression(expression.left, row);
+
+  // Short-circuiting operators only evaluate the right side when needed.
+  if (operator === "&&") {
+    return isTruthy(left) && isTruthy(evaluateExpression(expression.right, row));
+  }
+  if (operator === "||") {
+    return isTruthy(left) || isTruthy(evaluateExpression(expression.right, row));
+  }
+  if (operator === "??") {
+    return isBlank(left) ? evaluateExpression(expression.right, row) : left;
+  }
+
+  const right = evaluateExpression(expression.right, row);
+  switch (operator) {
+    case "+": {
+      if (left === null && right === null) return null;
+      const leftNumber = left === null ? null : toNumber(left);
+      const rightNumber = right === null ? null : toNumber(right);
+      if (leftNumber !== null && rightNumber !== null) {
+        return leftNumber + rightNumber;
+      }
+      // A number plus null stays null; anything involving text concatenates.
+      if (typeof left !== "string" && typeof right !== "string") return null;
+      return (left === null ? "" : toText(left)) + (right === null ? "" : toText(right));
+    }
+    case "-":
+    case "*":
+    case "/":
+    case "%": {
+      if (left === null || right === null) return null;
+      const a = requireNumber(left, operator);
+      const b = requireNumber(right, operator);
+      if ((operator === "/" || operator === "%") && b === 0) {
+        throw new ExpressionError("Division by zero");
+      }
+      if (operator === "-") return a - b;
+      if (operator === "*") return a * b;
+      if (operator === "/") return a / b;
+      return a % b;
+    }
+    case "==":
+      return valuesEqual(left, right);
+    case "!=":
+      return !valuesEqual(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (left === null || right === null) return null;
+      const order = compareValues(left, right);
+      if (operator === "<") return order < 0;
+      if (operator === "<=") return order <= 0;
+      if (operator === ">") return order > 0;
+      return order >= 0;
+    }
+    default:
+      return null;
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[position + 1] ?? ""))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(position))!;
+      tokens.push({ type: "number", value: Number(match[0]), position: start });
+      position += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      let value = "";
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === "\\" && position + 1 < source.length) {
+          const escaped = source[position + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          position += 2;
+          continue;
+        }
+        value += source[position];
+        position++;
+      }
+      if (position >= source.length) {
+        throw new ExpressionError(char === "`" ? "Unterminated field reference" : "Unterminated string", start);
+      }
+      position++;
+      // Backticks quote field names that are not plain identifiers.
+      tokens.push({ type: char === "`" ? "field" : "string", value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position))!;
+      tokens.push({ type: "identifier", value: match[0], position: start });
+      position += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, position));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, start);
+    }
+    tokens.push({ type: "operator", value: operator, position: start });
+    position += operator.length;
+  }
+
+  tokens.push({ type: "end", position });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): Expression {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+    }
+    return expression;
+  }
+
+  private parseConditional(): Expression {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator("?")) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expectOperator(":");
+    const alternate = this.parseConditional();
+    return { kind: "conditional", test, consequent, alternate };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = BINARY_LEVELS[level].find((candidate) => token.type === "operator" && token.value === candidate);
+      if (!operator) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: "binary", operator, left, right };
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.matchOperator("!")) {
+      return { kind: "unary", operator: "!", operand: this.parseUnary() };
+    }
+    if (this.matchOperator("-")) {
+      return { kind: "unary", operator: "-", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "field":
+        return { kind: "field", name: token.value };
+      case "identifier": {
+        if (token.value === "true" || token.value === "false") {
+          return { kind: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") {
+          return { kind: "literal", value: null };
+        }
+        if (!this.matchOperator("(")) {
+          return { kind: "field", name: token.value };
+        }
+        return this.parseCall(token.value, token.position);
+      }
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.parseConditional();
+          this.expectOperator(")");
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+      default:
+        throw new ExpressionError("Unexpected end of expression", token.position);
+    }
+  }
+
+  private parseCall(name: string, position: number): Expression {
+    const definition = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!definition) {
+      throw new ExpressionError(`Unknown function "${name}"`, position);
+    }
+    const args: Expression[] = [];
+    if (!this.matchOperator(")")) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(","));
+      this.expectOperator(")");
+    }
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected =
+        definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : definition.maxArgs === Infinity
+            ? `at least ${definition.minArgs}`
+            : `${definition.minArgs}-${definition.maxArgs}`;
+      throw new ExpressionError(`${name} expects ${expected} argument(s), got ${args.length}`, position);
+    }
+    return { kind: "call", name, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "end") {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string) {
+    if (!this.matchOperator(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected "${value}" but found ${describe(token)}`, token.position);
+    }
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === "end" ? "end of expression" : `"${token.value}"`;
+}
+
+function fn(
+  minArgs: number,
+  maxArgs: number,
+  apply: (args: ExpressionValue[]) => ExpressionValue
+): FunctionDefinition {
+  return { minArgs, maxArgs, apply };
+}
+
+function fromRowValue(value: unknown): ExpressionValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  return String(value);
+}
+
+function isBlank(value: ExpressionValue | undefined): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function isTruthy(value: ExpressionValue): boolean {
+  if (typeof value === "string") return value.trim() !== "";
+  return Boolean(value);
+}
+
+function toText(value: ExpressionValue | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function toNumber(value: ExpressionValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function requireNumber(value: ExpressionValue | undefined, context: string): number {
+  const number = value === undefined ? null : toNumber(value);
+  if (number === null) {
+    throw new ExpressionError(`${context}: expected a number but got ${JSON.stringify(value ?? null)}`);
+  }
+  return number;
+}
+
+function valuesEqual(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (left === null || right === null) {
+    return isBlank(left) && isBlank(right);
+  }
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber === rightNumber;
+  }
+  return toText(left) === toText(right);
+}
+
+function compareValues(left: ExpressionValue, right: ExpressionValue): number {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber - rightNumber;
+  }
+  const a = toText(left);
+  const b = toText(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function mapString(value: ExpressionValue, transform: (text: string) => ExpressionValue): ExpressionValue {
+  return value === null ? null : transform(toText(value));
+}
+
+function mapNumber(value: ExpressionValue, context: string, transform: (number: number) => number): ExpressionValue {
+  return isBlank(value) ? null : transform(requireNumber(value, context));
+}
+
+function aggregate(args: ExpressionValue[], context: string, reduce: (...values: number[]) => number): ExpressionValue {
+  const numbers = args.filter((arg) => !isBlank(arg)).map((arg) => requireNumber(arg, context));
+  return numbers.length ? reduce(...numbers) : null;
+}
+
+function mapDate(
+  value: ExpressionValue,
+  context: string,
+  transform: (parts: DateParts) => ExpressionValue
+): ExpressionValue {
+  return isBlank(value) ? null : transform(requireDate(value, context));
+}
+
+function requireDate(value: ExpressionValue, context: string): DateParts {
+  const text = toText(value).trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:$|[T\s])/.exec(text);
+  if (iso) {
+    const parts = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    if (isValidDate(parts)) {
+      return parts;
+    }
+  } else {
+    const parsed = Date.parse(text);
+    if (!Number.isNaN(parsed)) {
+      const date = new Date(parsed);
+      return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+    }
+  }
+  throw new ExpressionError(`${context}: "${text}" is not a valid date`);
+}
+
+function isValidDate({ year, month, day }: DateParts): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function requireMonth(value: ExpressionValue): number {
+  const month = requireNumber(value, "fiscal start month");
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new ExpressionError(`Fiscal start month must be between 1 and 12, got ${month}`);
+  }
+  return month;
+}
+
+function fiscalOffset(parts: DateParts, startMonth: ExpressionValue): number {
+  return (parts.month - requireMonth(startMonth) + 12) % 12;
+}
+
+function toLocalDate({ year, month, day }: DateParts): Date {
+  return new Date(year, month - 1, day);
+}
+
+function fromLocalDate(date: Date): DateParts {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+function toIsoDate({ year, month, day }: DateParts): string {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
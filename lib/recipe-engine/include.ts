@@ -0,0 +1,282 @@
+import { ValidationError } from "@/lib/errors";
+import { renameExpressionFields } from "./expression";
+import {
+  isParameterRef,
+  placeholderValues,
+  resolveParameterValues,
+  substituteParameters,
+  type RecipeParameterValue
+} from "./parameters";
+import { formatIssuePath } from "./schema";
+import { resolveCurrencyField, resolveNameField } from "./steps/format";
+import type { Condition, FormatStep, IncludeStep, RecipeDefinition, RecipeStep, StepModifiers } from "./index";
+
+/** Loads a stored recipe at a pinned version; null when it does not exist. */
+export type RecipeLoader = (recipeId: string, version: number) => Promise<RecipeDefinition | null>;
+
+export type ExpandOptions = {
+  /** Stored id of the recipe being expanded, when it differs from `recipe.id`. */
+  recipeId?: string;
+};
+
+/**
+ * Replaces every `include` step with the steps of the recipe it references,
+ * recursively. Inlined steps are tagged with `includedFrom`, have their fields
+ * prefixed when the include sets `prefix`, and inherit the include's `when`
+ * and `onError`. Values an include passes as `{ "$param": name }` stay
+ * references to the including recipe's parameters, so expansion works before
+ * or after binding. Throws `ValidationError` for missing recipes, invalid
+ * include parameters and include cycles.
+ */
+export async function expandRecipeIncludes(
+  recipe: RecipeDefinition,
+  load: RecipeLoader,
+  options: ExpandOptions = {}
+): Promise<RecipeDefinition> {
+  if (!recipe.steps.some((step) => step.type === "include")) {
+    return recipe;
+  }
+  const root = includeKey(options.recipeId ?? recipe.id, recipe.version);
+  const steps: RecipeStep[] = [];
+  for (const [stepIndex, step] of recipe.steps.entries()) {
+    if (step.type !== "include") {
+      steps.push(step);
+      continue;
+    }
+    steps.push(...(await inlineInclude(step, load, [root], formatIssuePath(["steps", stepIndex, "config"]))));
+  }
+  return { ...recipe, steps };
+}
+
+async function inlineInclude(
+  step: IncludeStep & StepModifiers,
+  load: RecipeLoader,
+  trail: string[],
+  path: string
+): Promise<RecipeStep[]> {
+  const { recipeId, version, prefix } = step.config;
+  const key = includeKey(recipeId, version);
+  if (trail.includes(key)) {
+    throw new ValidationError("Recipe include cycle", [
+      { path: `${path}.recipeId`, message: `Include cycle: ${[...trail, key].join(" -> ")}` }
+    ]);
+  }
+  const included = await load(recipeId, version);
+  if (!included) {
+    throw new ValidationError("Included recipe not found", [
+      { path: `${path}.recipeId`, message: `Recipe ${recipeId} has no version ${version}` }
+    ]);
+  }
+
+  const boundSteps = bindIncludedParameters(included, step.config.parameters ?? {}, path);
+  const inlined: RecipeStep[] = [];
+  for (const [stepIndex, inner] of boundSteps.entries()) {
+    if (inner.type === "include") {
+      inlined.push(...(await inlineInclude(inner, load, [...trail, key], path)));
+    } else {
+      inlined.push({ ...inner, includedFrom: { recipeId, version, stepIndex } });
+    }
+  }
+
+  return inlined.map((inner) => {
+    const renamed = prefix ? renameStepFields(inner, (field) => `${prefix}${field}`) : inner;
+    const when = combineConditions(step.when, renamed.when);
+    const onError = renamed.onError ?? step.onError;
+    return { ...renamed, ...(when ? { when } : {}), ...(onError ? { onError } : {}) };
+  });
+}
+
+/**
+ * Binds the included recipe's parameters to the values the include passes.
+ * Forwarded `$param` references are type-checked against placeholders and
+ * left in place for the including recipe to bind.
+ */
+function bindIncludedParameters(
+  included: RecipeDefinition,
+  values: Record<string, unknown>,
+  path: string
+): RecipeStep[] {
+  const placeholders = placeholderValues(included.parameters);
+  const forwarded = Object.fromEntries(Object.entries(values).filter(([, value]) => isParameterRef(value)));
+  let resolved: Record<string, RecipeParameterValue>;
+  try {
+    resolved = resolveParameterValues(included.parameters, {
+      ...values,
+      ...Object.fromEntries(Object.keys(forwarded).map((name) => [name, placeholders[name]]))
+    });
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    const issues = error.details as Array<{ path: string; message: string }>;
+    throw new ValidationError(
+      error.message,
+      issues.map((issue) => ({ ...issue, path: `${path}.${issue.path}` }))
+    );
+  }
+  return substituteParameters(included.steps, {
+    ...resolved,
+    ...(forwarded as Record<string, RecipeParameterValue>)
+  }) as RecipeStep[];
+}
+
+function includeKey(recipeId: string, version: number): string {
+  return `${recipeId}@${version}`;
+}
+
+function combineConditions(outer: Condition | undefined, inner: Condition | undefined): Condition | undefined {
+  if (outer && inner) {
+    return { all: [outer, inner] };
+  }
+  return outer ?? inner;
+}
+
+/**
+ * Applies `rename` to every field a built-in step reads or writes, including
+ * its conditions and derive expressions. Custom steps cannot be remapped.
+ */
+export function renameStepFields<T extends RecipeStep>(step: T, rename: (field: string) => string): T {
+  const when = step.when ? renameConditionFields(step.when, rename) : undefined;
+  const renamed = { ...step, ...(when ? { when } : {}) } as RecipeStep;
+  switch (renamed.type) {
+    case "map_columns":
+      renamed.config = {
+        ...renamed.config,
+        mapping: Object.fromEntries(
+          Object.entries(renamed.config.mapping).map(([source, target]) => [rename(source), rename(target)])
+        )
+      };
+      break;
+    case "format":
+      renamed.config = {
+        operations: renamed.config.operations.map((operation) => {
+          return {
+            ...operation,
+            field: rename(operation.field),
+            op: renameOperationFields(operation.field, operation.op, rename),
+            ...(operation.when ? { when: renameConditionFields(operation.when, rename) } : {})
+          };
+        })
+      };
+      break;
+    case "validate":
+      renamed.config = {
+        rules: renamed.config.rules.map((rule) => {
+          const when = rule.when ? { when: renameConditionFields(rule.when, rename) } : {};
+          return rule.kind === "unique"
+            ? { ...rule, composite: rule.composite.map(rename), ...when }
+            : { ...rule, field: rename(rule.field), ...when };
+        })
+      };
+      break;
+    case "derive":
+      renamed.config = {
+        fields: renamed.config.fields.map((derived) => ({
+          ...derived,
+          field: rename(derived.field),
+          expression: renameExpressionFields(derived.expression, rename),
+          ...(derived.when ? { when: renameConditionFields(derived.when, rename) } : {})
+        }))
+      };
+      break;
+    case "dedupe": {
+      const { keys, fuzzy, survivorship } = renamed.config;
+      const renameRule = <R extends NonNullable<typeof survivorship>["default"]>(rule: R): R => {
+        if (rule?.strategy === "most_recent") return { ...rule, timestampField: rename(rule.timestampField) };
+        if (rule?.strategy === "preferred_source") return { ...rule, sourceField: rename(rule.sourceField) };
+        return rule;
+      };
+      renamed.config = {
+        ...renamed.config,
+        keys: keys.map(rename),
+        ...(fuzzy
+          ? {
+              fuzzy: {
+                ...fuzzy,
+                ...(fuzzy.comparators
+                  ? { comparators: fuzzy.comparators.map((comparator) => ({ ...comparator, field: rename(comparator.field) })) }
+                  : {})
+              }
+            }
+          : {}),
+        ...(survivorship
+          ? {
+              survivorship: {
+                ...(survivorship.default ? { default: renameRule(survivorship.default) } : {}),
+                ...(survivorship.fields
+                  ? {
+                      fields: Object.fromEntries(
+                        Object.entries(survivorship.fields).map(([field, rule]) => [rename(field), renameRule(rule)])
+                      )
+                    }
+                  : {})
+              }
+            }
+          : {})
+      };
+      break;
+    }
+    case "write_back": {
+      const { keyColumn, itemNameField, columnMapping } = renamed.config;
+      renamed.config = {
+        ...renamed.config,
+        ...(keyColumn ? { keyColumn: rename(keyColumn) } : {}),
+        ...(itemNameField ? { itemNameField: rename(itemNameField) } : {}),
+        ...(columnMapping
+          ? {
+              columnMapping: Object.fromEntries(
+                Object.entries(columnMapping).map(([field, columnId]) => [rename(field), columnId])
+              )
+            }
+          : {})
+      };
+      break;
+    }
+    case "filter":
+      renamed.config = { ...renamed.config, condition: renameConditionFields(renamed.config.condition, rename) };
+      break;
+    case "sort":
+      renamed.config = { ...renamed.config, keys: renamed.config.keys.map((key) => ({ ...key, field: rename(key.field) })) };
+      break;
+    case "include":
+      throw new ValidationError("Include steps must be expanded before their fields are renamed");
+    default:
+      throw new ValidationError(`Cannot remap the fields of custom step "${(renamed as { type: string }).type}"`);
+  }
+  return renamed as T;
+}
+
+type FormatOperation = FormatStep["config"]["operations"][number]["op"];
+
+function renameOperationFields(field: string, op: FormatOperation, rename: (field: string) => string): FormatOperation {
+  switch (op.kind) {
+    case "iso_state":
+      return op.countryField ? { ...op, countryField: rename(op.countryField) } : op;
+    case "timezone_to_utc":
+      return op.sourceTimezoneField ? { ...op, sourceTimezoneField: rename(op.sourceTimezoneField) } : op;
+    case "round_to_currency":
+      return op.currencyField ? { ...op, currencyField: rename(op.currencyField) } : op;
+    // Output fields are pinned explicitly: names derived from the prefixed field would not match the prefixed originals.
+    case "money_parse":
+      return { ...op, currencyField: rename(resolveCurrencyField(field, op.currencyField)) };
+    case "split_name":
+      return {
+        ...op,
+        firstNameField: rename(resolveNameField(field, op.firstNameField, "first") ?? "first_name"),
+        lastNameField: rename(resolveNameField(field, op.lastNameField, "last") ?? "last_name")
+      };
+    default:
+      return op;
+  }
+}
+
+export function renameConditionFields(condition: Condition, rename: (field: string) => string): Condition {
+  if ("all" in condition) {
+    return { all: condition.all.map((inner) => renameConditionFields(inner, rename)) };
+  }
+  if ("any" in condition) {
+    return { any: condition.any.map((inner) => renameConditionFields(inner, rename)) };
+  }
+  if ("not" in condition) {
+    return { not: renameConditionFields(condition.not, rename) };
+  }
+  return { ...condition, field: rename(condition.field) };
+}
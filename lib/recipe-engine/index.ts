@@ -1,16 +1,36 @@
-import { mapColumns } from "./steps/map_columns";
-import { formatRows } from "./steps/format";
-import { validateRows } from "./steps/validate";
-import { writeBackRows } from "./steps/write_back";
+import { defaultStepRegistry } from "./builtins";
+import { applyErrorPolicy, executeStep, previewStep, resolveStep } from "./dispatch";
+import { startLineage, traceRemoved, traceStep } from "./lineage";
+import { bindRecipeParameters, type RecipeParameter } from "./parameters";
+import type { StepRegistry } from "./registry";
 import { createLogger } from "@/lib/logging";
 
+export {
+  createStepRegistry,
+  extendStepRegistry,
+  type StepContext,
+  type StepDefinition,
+  type StepRegistry,
+  type StepResult,
+  type StepScope
+} from "./registry";
+export { defaultStepRegistry } from "./builtins";
+export { bindRecipeParameters, type ParameterRef, type RecipeParameter, type RecipeParameterType } from "./parameters";
+export { executeRecipeStream, type StreamOptions } from "./stream";
+export { expandRecipeIncludes, type RecipeLoader } from "./include";
+
 export type RecipeRow = Record<string, unknown>;
 
+/** Maps input values to their standardized replacement. */
+export type LookupTable = Record<string, string>;
+
 export type RecipeError = {
   rowIndex: number;
   field?: string;
   code: string;
   message: string;
+  /** Stable identifier of the source row (file row number or monday item id). */
+  sourceId?: string;
 };
 
 export type DiffEntry = {
@@ -18,8 +38,36 @@ export type DiffEntry = {
   field: string;
   before: unknown;
   after: unknown;
+  /** Stable identifier of the source row (file row number or monday item id). */
+  sourceId?: string;
+  /** Index of the recipe step that produced the change. */
+  stepIndex?: number;
+  /** Operation kind that produced the change, e.g. `title_case`, `derive` or `dedupe_merge`. */
+  operation?: string;
+  /** Input column the field was mapped from; the field itself when it was never renamed. */
+  sourceField?: string;
+  /** Included recipe step that produced the change, when it came from an `include` step. */
+  includedFrom?: IncludedFrom;
 };
 
+export type ConditionValue = string | number | boolean | null;
+
+/**
+ * Declarative row predicate. Leaf conditions test a single field; `all`, `any`
+ * and `not` combine them. String comparisons ignore case and surrounding
+ * whitespace.
+ */
+export type Condition =
+  | { field: string; op: "eq" | "neq"; value: ConditionValue }
+  | { field: string; op: "in" | "not_in"; values: ConditionValue[] }
+  | { field: string; op: "gt" | "gte" | "lt" | "lte"; value: string | number }
+  | { field: string; op: "contains" | "starts_with" | "ends_with"; value: string }
+  | { field: string; op: "matches"; pattern: string; flags?: string }
+  | { field: string; op: "empty" | "not_empty" }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
 export type MapColumnsStep = {
   type: "map_columns";
   config: {
@@ -37,17 +85,39 @@ export type FormatStep = {
         | { kind: "title_case" }
         | { kind: "email_normalize" }
         | { kind: "phone_e164"; defaultCountry?: string }
-        | { kind: "date_parse"; inputFormat?: string; outputFormat?: string }
-        | { kind: "iso_country" }
-        | { kind: "iso_state"; countryField?: string }
-        | { kind: "currency_code" }
+        | {
+            kind: "date_parse";
+            inputFormat?: string;
+            inputFormats?: string[];
+            order?: "auto" | "day_first" | "month_first";
+            outputFormat?: string;
+          }
+        | { kind: "iso_country"; output?: "alpha2" | "alpha3" | "name" }
+        | {
+            /**
+             * Only the 19 countries in `reference/subdivisions.ts` have bundled
+             * subdivisions; states of any other country are reported as
+             * `unsupported_subdivision_country`.
+             */
+            kind: "iso_state";
+            /** Field holding the row's country; rows without a value are treated as US. */
+            countryField?: string;
+          }
+        | { kind: "currency_code"; locale?: string }
+        | { kind: "money_parse"; currencyField?: string; defaultCurrency?: string; locale?: string }
         | { kind: "number_parse"; locale?: string }
         | { kind: "trim_collapse_whitespace" }
         | { kind: "boolean_standardize" }
-        | { kind: "timezone_to_utc" }
+        | {
+            kind: "timezone_to_utc";
+            sourceTimezone?: string;
+            sourceTimezoneField?: string;
+            targetTimezone?: string;
+            output?: "iso" | "date" | "monday";
+          }
         | { kind: "slugify"; separator?: string }
         | { kind: "round_numeric"; precision?: number }
-  | { kind: "round_to_currency" }
+        | { kind: "round_to_currency"; currency?: string; currencyField?: string }
         | { kind: "normalize_percentage" }
         | { kind: "remove_special_characters" }
         | {
@@ -56,7 +126,9 @@ export type FormatStep = {
             lastNameField?: string;
           }
         | { kind: "normalize_address" }
-        | { kind: "sanitize_html" };
+        | { kind: "sanitize_html" }
+        | { kind: "lookup"; table: string };
+      when?: Condition;
     }>;
   };
 };
@@ -65,30 +137,89 @@ export type ValidateStep = {
   type: "validate";
   config: {
     rules: Array<
-      | {
-          kind: "required";
-          field: string;
-        }
-      | {
-          kind: "regex";
-          field: string;
-          pattern: string;
-          message?: string;
-        }
-      | {
-          kind: "in_set";
-          field: string;
-          values: string[];
-        }
-      | {
-          kind: "unique";
-          composite: string[];
-        }
+      (
+        | {
+            kind: "required";
+            field: string;
+          }
+        | {
+            kind: "regex";
+            field: string;
+            pattern: string;
+            message?: string;
+          }
+        | {
+            kind: "in_set";
+            field: string;
+            values: string[];
+          }
+        | {
+            kind: "unique";
+            composite: string[];
+          }
+      ) & { when?: Condition }
     >;
   };
 };
 
-// dedupe step removed
+export type DeriveStep = {
+  type: "derive";
+  config: {
+    /** Evaluated in order, so later expressions can read fields derived earlier. */
+    fields: Array<{
+      field: string;
+      expression: string;
+      when?: Condition;
+    }>;
+  };
+};
+
+export type SurvivorshipRule =
+  | { strategy: "first_non_empty" }
+  | { strategy: "most_recent"; timestampField: string }
+  | { strategy: "longest" }
+  | { strategy: "preferred_source"; sourceField: string; sources: string[] };
+
+export type BlockingConfig =
+  | { strategy: "none" }
+  | { strategy: "sorted_neighbourhood"; window?: number }
+  | { strategy: "phonetic"; maxBlockSize?: number }
+  | { strategy: "ngram"; size?: number; maxBlockSize?: number };
+
+export type MatchAlgorithm =
+  | "jaro_winkler"
+  | "levenshtein"
+  | "damerau_levenshtein"
+  | "token_set"
+  | "soundex"
+  | "double_metaphone"
+  | "exact";
+
+export type FieldComparator = {
+  field: string;
+  algorithm: MatchAlgorithm;
+  /** Relative weight in the combined score; defaults to 1. */
+  weight?: number;
+};
+
+export type DedupeStep = {
+  type: "dedupe";
+  config: {
+    keys: string[];
+    fuzzy?: {
+      enabled: boolean;
+      threshold: number;
+      /** Candidate generation for large inputs; every pair is compared when omitted. */
+      blocking?: BlockingConfig;
+      /** Per-field scoring; when omitted the keys are compared as one string with Jaro-Winkler. */
+      comparators?: FieldComparator[];
+    };
+    survivorship?: {
+      default?: SurvivorshipRule;
+      fields?: Record<string, SurvivorshipRule>;
+    };
+  };
+};
 
 export type WriteBackStep = {
   type: "write_back";
@@ -102,30 +233,146 @@ export type WriteBackStep = {
   };
 };
 
-export type RecipeStep = MapColumnsStep | FormatStep | ValidateStep | WriteBackStep;
+/** Keeps (`keep`, the default) or removes (`drop`) the rows matching `condition`. */
+export type FilterStep = {
+  type: "filter";
+  config: {
+    condition: Condition;
+    mode?: "keep" | "drop";
+  };
+};
+
+export type SortKey = {
+  field: string;
+  direction?: "asc" | "desc";
+  /** Where empty values go, whatever the direction; defaults to `last`. */
+  nulls?: "first" | "last";
+  /** `auto` (default) compares numerically when both values are numbers and collates text otherwise. */
+  compare?: "auto" | "text" | "number";
+};
+
+/** Stable multi-key sort; text is collated for `locale` (default `en`), ignoring case and accents. */
+export type SortStep = {
+  type: "sort";
+  config: {
+    keys: SortKey[];
+    locale?: string;
+  };
+};
+
+/**
+ * Inlines the steps of another stored recipe, pinned to a version. With a
+ * `prefix`, every field the included steps read or write is prefixed, so a
+ * shared block can clean `billing_email` as well as `email`. Expanded by
+ * `expandRecipeIncludes` before the recipe runs.
+ */
+export type IncludeStep = {
+  type: "include";
+  config: {
+    recipeId: string;
+    version: number;
+    prefix?: string;
+    /** Values for the included recipe's parameters. */
+    parameters?: Record<string, unknown>;
+  };
+};
+
+/** Where an inlined step came from: its recipe, pinned version and position there. */
+export type IncludedFrom = {
+  recipeId: string;
+  version: number;
+  stepIndex: number;
+};
+
+/**
+ * What happens to rows a step reports errors for:
+ * - `warn` (default): record the errors and keep going with every row.
+ * - `drop_row`: remove the offending rows from the rest of the run.
+ * - `quarantine`: remove them and return them in `rejected` with their errors.
+ * - `fail_run`: stop the run after this step; later steps (write-back included) do not run.
+ */
+export type ErrorPolicy = "warn" | "drop_row" | "quarantine" | "fail_run";
+
+/** Options every step accepts alongside its type-specific config. */
+export type StepModifiers = {
+  /** Only rows matching the condition are passed to the step; the rest pass through untouched. */
+  when?: Condition;
+  onError?: ErrorPolicy;
+  /** Set on steps inlined by `expandRecipeIncludes`; used to attribute diffs. */
+  includedFrom?: IncludedFrom;
+};
+
+export type RecipeStep = (
+  | MapColumnsStep
+  | FormatStep
+  | ValidateStep
+  | DeriveStep
+  | DedupeStep
+  | WriteBackStep
+  | FilterStep
+  | SortStep
+  | IncludeStep
+) &
+  StepModifiers;
 
 export type RecipeDefinition = {
   id: string;
   name: string;
   version: number;
+  /** Shape of the recipe JSON; older recipes are upgraded by `migrateRecipe`. */
+  schemaVersion?: number;
+  /** Values step configs reference with `{ "$param": name }`, supplied per run. */
+  parameters?: RecipeParameter[];
   steps: RecipeStep[];
 };
 
+export type RejectedRow = {
+  stepIndex: number;
+  sourceId?: string;
+  /** Position of the row in the input of the step that rejected it. */
+  rowIndex: number;
+  row: RecipeRow;
+  errors: RecipeError[];
+};
+
+/** A row a step removed on purpose, such as a `filter` step; unlike rejected rows it carries no errors. */
+export type RemovedRow = {
+  stepIndex: number;
+  sourceId?: string;
+  /** Position of the row in the input of the step that removed it. */
+  rowIndex: number;
+  row: RecipeRow;
+};
+
 export type RecipePreviewResult = {
   rows: RecipeRow[];
   errors: RecipeError[];
   diff: DiffEntry[];
+  rejected: RejectedRow[];
+  removed: RemovedRow[];
+  /** True when a `fail_run` step reported errors and the run stopped there. */
+  failed: boolean;
 };
 
 export type RecipeExecuteResult = {
   rowsProcessed: number;
   rowsWritten: number;
   errors: RecipeError[];
+  rejected: RejectedRow[];
+  failed: boolean;
 };
 
 export type EngineOptions = {
   allowFuzzy: boolean;
   writeBack?: (rows: RecipeRow[], config: WriteBackStep["config"]) => Promise<void>;
+  /** Step implementations to dispatch to; defaults to the built-in steps. */
+  registry?: StepRegistry;
+  /** Stable identifier for each input row; defaults to `row:<1-based position>`. */
+  sourceId?: (row: RecipeRow, index: number) => string;
+  /** Values for the recipe's declared parameters; missing ones fall back to their defaults. */
+  parameters?: Record<string, unknown>;
+  /** Tables `lookup` format operations map values through, keyed by table name. */
+  lookupTables?: Record<string, LookupTable>;
 };
 
 export function previewRecipe(
@@ -134,43 +381,43 @@ export function previewRecipe(
   options: EngineOptions
 ): RecipePreviewResult {
   const logger = createLogger({ component: "recipe-engine" });
+  const registry = options.registry ?? defaultStepRegistry;
+  const steps = bindRecipeParameters(recipe, options.parameters).steps.map((step, stepIndex) =>
+    resolveStep(registry, step, stepIndex)
+  );
   let currentRows = [...rows];
+  let lineage = startLineage(rows, options);
   const errors: RecipeError[] = [];
   const diff: DiffEntry[] = [];
+  const rejected: RejectedRow[] = [];
+  const removed: RemovedRow[] = [];
+  let failed = false;
 
-  for (const step of recipe.steps) {
-    logger.debug("preview step start", { step: step.type, rowsBefore: currentRows.length });
-    switch (step.type) {
-      case "map_columns":
-        currentRows = mapColumns(currentRows, step.config);
-        logger.debug("preview step done", { step: step.type, rowsAfter: currentRows.length });
-        break;
-      case "format": {
-        const { rows: formatted, diff: stepDiff } = formatRows(currentRows, step.config);
-        currentRows = formatted;
-        diff.push(...stepDiff);
-        logger.debug("preview step done", { step: step.type, rowsAfter: currentRows.length });
-        break;
-      }
-      case "validate": {
-        const validation = validateRows(currentRows, step.config);
-        errors.push(...validation.errors);
-        break;
-      }
-      
-      case "write_back":
-        // Skip real write-back in preview mode.
-        logger.debug("preview step skip write_back", { rows: currentRows.length });
-        break;
-      default:
-        throw new Error(`Unsupported recipe step: ${(step as { type: string }).type}`);
+  for (const [stepIndex, step] of steps.entries()) {
+    logger.debug("preview step start", { step: step.definition.type, rowsBefore: currentRows.length });
+    const result = previewStep(step, currentRows, { stepIndex, options, logger });
+    const outcome = applyErrorPolicy(step, currentRows, result, stepIndex);
+    const traced = traceStep(lineage, stepIndex, step, result, outcome);
+    removed.push(...traceRemoved(lineage, stepIndex, currentRows, result));
+    currentRows = outcome.rows;
+    lineage = traced.lineage;
+    errors.push(...traced.errors);
+    diff.push(...traced.diff);
+    rejected.push(...traced.rejected);
+    logger.debug("preview step done", { step: step.definition.type, rowsAfter: currentRows.length });
+    if (outcome.failed) {
+      failed = true;
+      break;
     }
   }
 
   return {
     rows: currentRows,
     errors,
-    diff
+    diff,
+    rejected,
+    removed,
+    failed
   };
 }
 
@@ -180,41 +427,41 @@ export async function executeRecipe(
   options: EngineOptions
 ): Promise<RecipeExecuteResult> {
   const logger = createLogger({ component: "recipe-engine" });
+  const registry = options.registry ?? defaultStepRegistry;
+  const steps = bindRecipeParameters(recipe, options.parameters).steps.map((step, stepIndex) =>
+    resolveStep(registry, step, stepIndex)
+  );
   let currentRows = [...rows];
+  let lineage = startLineage(rows, options);
   const errors: RecipeError[] = [];
+  const rejected: RejectedRow[] = [];
+  let written = 0;
+  let failed = false;
 
-  for (const step of recipe.steps) {
-    logger.debug("execute step start", { step: step.type, rowsBefore: currentRows.length });
-    switch (step.type) {
-      case "map_columns":
-        currentRows = mapColumns(currentRows, step.config);
-        logger.debug("execute step done", { step: step.type, rowsAfter: currentRows.length });
-        break;
-      case "format": {
-        const { rows: formatted } = formatRows(currentRows, step.config);
-        currentRows = formatted;
-        logger.debug("execute step done", { step: step.type, rowsAfter: currentRows.length });
-        break;
-      }
-      case "validate": {
-        const validation = validateRows(currentRows, step.config);
-        errors.push(...validation.errors);
-        break;
-      }
-      
-      case "write_back":
-        logger.info("about to write_back", { rows: currentRows.length, stepConfig: step.config });
-        await writeBackRows(currentRows, step.config, options.writeBack);
-        logger.info("write_back completed", { rowsAfterWrite: currentRows.length });
-        break;
-      default:
-        throw new Error(`Unsupported recipe step: ${(step as { type: string }).type}`);
+  for (const [stepIndex, step] of steps.entries()) {
+    logger.debug("execute step start", { step: step.definition.type, rowsBefore: currentRows.length });
+    const result = await executeStep(step, currentRows, { stepIndex, options, logger });
+    const outcome = applyErrorPolicy(step, currentRows, result, stepIndex);
+    const traced = traceStep(lineage, stepIndex, step, result, outcome);
+    currentRows = outcome.rows;
+    lineage = traced.lineage;
+    errors.push(...traced.errors);
+    rejected.push(...traced.rejected);
+    written += result.written ?? 0;
+    logger.debug("execute step done", { step: step.definition.type, rowsAfter: currentRows.length });
+    if (outcome.failed) {
+      logger.warn("run failed by step error policy", { step: step.definition.type, stepIndex });
+      failed = true;
+      break;
     }
   }
 
   return {
     rowsProcessed: rows.length,
-    rowsWritten: currentRows.length,
-    errors
+    // Only rows handed to write-back count, and none once a step fails the run.
+    rowsWritten: failed ? 0 : written,
+    errors,
+    rejected,
+    failed
   };
 }
@@ -0,0 +1,85 @@
+import type { DiffEntry, EngineOptions, RecipeError, RecipeRow, RejectedRow, RemovedRow } from "./index";
+import type { PolicyOutcome, ResolvedStep } from "./dispatch";
+import type { StepResult } from "./registry";
+
+/** Where the rows currently flowing through a run came from. */
+export type Lineage = {
+  /** Source identifier of each current row; undefined once a step lost track of it. */
+  sourceIds: Array<string | undefined>;
+  /** Current field name -> input column it was mapped from. */
+  fieldSources: Map<string, string>;
+};
+
+export type TracedStep = {
+  errors: RecipeError[];
+  diff: DiffEntry[];
+  rejected: RejectedRow[];
+  lineage: Lineage;
+};
+
+/** `offset` is the position of `rows[0]` in the whole input (non-zero for stream chunks). */
+export function startLineage(rows: RecipeRow[], options: EngineOptions, offset = 0): Lineage {
+  const sourceId = options.sourceId ?? ((_row: RecipeRow, index: number) => `row:${index + 1}`);
+  return {
+    sourceIds: rows.map((row, index) => sourceId(row, offset + index)),
+    fieldSources: new Map()
+  };
+}
+
+/**
+ * Stamps a step's errors, diff entries and rejected rows with the source row
+ * they belong to, then advances the lineage past the step.
+ */
+export function traceStep(
+  lineage: Lineage,
+  stepIndex: number,
+  step: Pick<ResolvedStep, "definition" | "includedFrom">,
+  result: StepResult,
+  outcome: PolicyOutcome
+): TracedStep {
+  const sourceIdAt = (rowIndex: number) => (rowIndex >= 0 ? lineage.sourceIds[rowIndex] : undefined);
+  const traceError = (error: RecipeError): RecipeError => ({ ...error, sourceId: sourceIdAt(error.rowIndex) });
+
+  const diff = (result.diff ?? []).map((entry) => ({
+    ...entry,
+    sourceId: sourceIdAt(entry.rowIndex),
+    stepIndex,
+    operation: entry.operation ?? step.definition.type,
+    sourceField: lineage.fieldSources.get(entry.field) ?? entry.field,
+    ...(step.includedFrom ? { includedFrom: step.includedFrom } : {})
+  }));
+
+  let fieldSources = lineage.fieldSources;
+  if (result.fieldSources) {
+    fieldSources = new Map(fieldSources);
+    for (const [output, input] of Object.entries(result.fieldSources)) {
+      fieldSources.set(output, lineage.fieldSources.get(input) ?? input);
+    }
+  }
+
+  return {
+    errors: (result.errors ?? []).map(traceError),
+    diff,
+    rejected: outcome.rejected.map((entry) => ({
+      ...entry,
+      sourceId: sourceIdAt(entry.rowIndex),
+      errors: entry.errors.map(traceError)
+    })),
+    lineage: { sourceIds: outcome.origins.map(sourceIdAt), fieldSources }
+  };
+}
+
+/** The rows a step reported as removed, with their source ids; `lineage` is the step's input lineage. */
+export function traceRemoved(
+  lineage: Lineage,
+  stepIndex: number,
+  input: RecipeRow[],
+  result: StepResult
+): RemovedRow[] {
+  return (result.removed ?? []).map((rowIndex) => ({
+    stepIndex,
+    sourceId: lineage.sourceIds[rowIndex],
+    rowIndex,
+    row: input[rowIndex]
+  }));
+}
@@ -0,0 +1,389 @@
+import { parseExpression, type Expression } from "./expression";
+import { formatIssuePath } from "./schema";
+import { resolveCurrencyField, resolveNameField } from "./steps/format";
+import type { Condition, RecipeDefinition, RecipeStep } from "./index";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintIssue = {
+  severity: LintSeverity;
+  code:
+    | "unknown_field"
+    | "renamed_field"
+    | "missing_key_column"
+    | "invalid_regex"
+    | "catastrophic_regex"
+    | "field_collision"
+    | "invalid_expression";
+  message: string;
+  stepIndex: number;
+  /** Index of the format operation, validate rule or derived field inside the step. */
+  opIndex?: number;
+  /** JSON path of the offending config, e.g. `steps[2].config.operations[0].field`. */
+  path: string;
+  field?: string;
+};
+
+export type LintResult = {
+  issues: LintIssue[];
+  /** Fields every row is known to have after each step; null while input columns still pass through unseen. */
+  availableFields: Array<string[] | null>;
+};
+
+export type LintOptions = {
+  /** Columns of the input rows, when known (e.g. in a preview). */
+  inputFields?: string[];
+};
+
+/**
+ * What the linter knows about the row shape at some point in the recipe:
+ * `known` fields are present (possibly null) on every row, `open` means other
+ * input columns may pass through too, and `gone` maps fields that a step
+ * renamed or dropped to a description of that step.
+ */
+type FieldState = {
+  known: Set<string>;
+  open: boolean;
+  /** Why the set is closed: a `dropUnknown` mapping is an error to read past, missing input columns a warning. */
+  closedBy: "input" | "map_columns" | null;
+  gone: Map<string, string>;
+  /** True once a non-empty `map_columns` has fixed the field names later steps should use. */
+  mapped: boolean;
+};
+
+/**
+ * Walks the steps of a recipe, tracking which fields are available after each
+ * one, and reports references to fields that cannot exist, risky regular
+ * expressions and outputs that overwrite existing fields. Steps that are not
+ * built in are treated as opaque: they may add any field.
+ */
+export function lintRecipe(recipe: RecipeDefinition, options: LintOptions = {}): LintResult {
+  const state: FieldState = {
+    known: new Set(options.inputFields ?? []),
+    open: options.inputFields === undefined,
+    closedBy: options.inputFields === undefined ? null : "input",
+    gone: new Map(),
+    mapped: false
+  };
+  const issues: LintIssue[] = [];
+  const availableFields: Array<string[] | null> = [];
+
+  recipe.steps.forEach((step, stepIndex) => {
+    const at = (path: Array<string | number>, opIndex?: number) => ({
+      stepIndex,
+      opIndex,
+      path: formatIssuePath(["steps", stepIndex, ...path])
+    });
+    const read = (field: string, path: Array<string | number>, opIndex?: number) => {
+      const issue = checkField(state, field);
+      if (issue) {
+        issues.push({ ...issue, ...at(path, opIndex), field });
+      }
+    };
+
+    if (step.when) {
+      lintCondition(step.when, ["when"], read, (issue) => issues.push({ ...issue, ...at(["when"]) }));
+    }
+    lintStep(step, state, read, (issue, path, opIndex) => issues.push({ ...issue, ...at(path, opIndex) }));
+    availableFields.push(state.open ? null : [...state.known].sort());
+  });
+
+  return { issues, availableFields };
+}
+
+type ReadField = (field: string, path: Array<string | number>, opIndex?: number) => void;
+type Report = (
+  issue: Pick<LintIssue, "severity" | "code" | "message" | "field">,
+  path: Array<string | number>,
+  opIndex?: number
+) => void;
+
+function lintStep(step: RecipeStep, state: FieldState, read: ReadField, report: Report) {
+  switch (step.type) {
+    case "map_columns": {
+      const { mapping, dropUnknown = false } = step.config;
+      const targets = new Set(Object.values(mapping));
+      for (const source of Object.keys(mapping)) {
+        if (!targets.has(source)) {
+          state.known.delete(source);
+          state.gone.set(source, `renamed to "${mapping[source]}"`);
+        }
+      }
+      if (dropUnknown) {
+        for (const field of state.known) {
+          if (!targets.has(field)) {
+            state.gone.set(field, "dropped by map_columns with dropUnknown");
+          }
+        }
+        state.known = new Set(targets);
+        state.open = false;
+        state.closedBy = "map_columns";
+      }
+      for (const target of targets) {
+        state.known.add(target);
+        state.gone.delete(target);
+      }
+      state.mapped ||= targets.size > 0;
+      return;
+    }
+    case "format":
+      step.config.operations.forEach((operation, opIndex) => {
+        const path = ["config", "operations", opIndex];
+        read(operation.field, [...path, "field"], opIndex);
+        if (operation.when) {
+          lintCondition(operation.when, [...path, "when"], read, (issue) => report(issue, [...path, "when"], opIndex));
+        }
+        const { op } = operation;
+        if (op.kind === "iso_state" && op.countryField) {
+          read(op.countryField, [...path, "op", "countryField"], opIndex);
+        }
+        if (op.kind === "timezone_to_utc" && op.sourceTimezoneField) {
+          read(op.sourceTimezoneField, [...path, "op", "sourceTimezoneField"], opIndex);
+        }
+        if (op.kind === "round_to_currency" && op.currencyField) {
+          read(op.currencyField, [...path, "op", "currencyField"], opIndex);
+        }
+        if (op.kind === "money_parse") {
+          addField(state, resolveCurrencyField(operation.field, op.currencyField));
+        }
+        if (op.kind === "split_name") {
+          const outputs = [
+            resolveNameField(operation.field, op.firstNameField, "first"),
+            resolveNameField(operation.field, op.lastNameField, "last")
+          ];
+          for (const output of outputs) {
+            if (!output) continue;
+            if (output === operation.field || state.known.has(output)) {
+              report(
+                {
+                  severity: "warning",
+                  code: "field_collision",
+                  message: `split_name writes "${output}", which already exists and will be overwritten`,
+                  field: output
+                },
+                [...path, "op"],
+                opIndex
+              );
+            }
+            addField(state, output);
+          }
+        }
+      });
+      return;
+    case "validate":
+      step.config.rules.forEach((rule, opIndex) => {
+        const path = ["config", "rules", opIndex];
+        if (rule.when) {
+          lintCondition(rule.when, [...path, "when"], read, (issue) => report(issue, [...path, "when"], opIndex));
+        }
+        if (rule.kind === "unique") {
+          rule.composite.forEach((field, index) => read(field, [...path, "composite", index], opIndex));
+          return;
+        }
+        read(rule.field, [...path, "field"], opIndex);
+        if (rule.kind === "regex") {
+          const issue = lintPattern(rule.pattern);
+          if (issue) report(issue, [...path, "pattern"], opIndex);
+        }
+      });
+      return;
+    case "derive":
+      step.config.fields.forEach((derived, opIndex) => {
+        const path = ["config", "fields", opIndex];
+        if (derived.when) {
+          lintCondition(derived.when, [...path, "when"], read, (issue) => report(issue, [...path, "when"], opIndex));
+        }
+        let expression: Expression;
+        try {
+          expression = parseExpression(derived.expression);
+        } catch (error) {
+          report(
+            { severity: "error", code: "invalid_expression", message: (error as Error).message },
+            [...path, "expression"],
+            opIndex
+          );
+          return;
+        }
+        for (const field of expressionFields(expression)) {
+          read(field, [...path, "expression"], opIndex);
+        }
+        addField(state, derived.field);
+      });
+      return;
+    case "dedupe": {
+      const { keys, fuzzy, survivorship } = step.config;
+      keys.forEach((field, index) => read(field, ["config", "keys", index]));
+      fuzzy?.comparators?.forEach((comparator, index) =>
+        read(comparator.field, ["config", "fuzzy", "comparators", index, "field"])
+      );
+      const rules = [
+        ["default", survivorship?.default] as const,
+        ...Object.entries(survivorship?.fields ?? {}).map(([field, rule]) => [field, rule] as const)
+      ];
+      for (const [name, rule] of rules) {
+        const path = name === "default" ? ["config", "survivorship", "default"] : ["config", "survivorship", "fields", name];
+        if (name !== "default") read(name, path);
+        if (rule?.strategy === "most_recent") read(rule.timestampField, [...path, "timestampField"]);
+        if (rule?.strategy === "preferred_source") read(rule.sourceField, [...path, "sourceField"]);
+      }
+      return;
+    }
+    case "write_back": {
+      const { keyColumn, itemNameField, columnMapping } = step.config;
+      if (keyColumn && !state.known.has(keyColumn) && (state.mapped || !state.open)) {
+        report(
+          {
+            severity: "error",
+            code: "missing_key_column",
+            message: `Key column "${keyColumn}" is not produced by the mapping or any earlier step`,
+            field: keyColumn
+          },
+          ["config", "keyColumn"]
+        );
+      } else if (keyColumn) {
+        read(keyColumn, ["config", "keyColumn"]);
+      }
+      if (itemNameField) read(itemNameField, ["config", "itemNameField"]);
+      for (const field of Object.keys(columnMapping ?? {})) {
+        read(field, ["config", "columnMapping", field]);
+      }
+      return;
+    }
+    case "filter":
+      lintCondition(step.config.condition, ["config", "condition"], read, (issue) =>
+        report(issue, ["config", "condition"])
+      );
+      return;
+    case "sort":
+      step.config.keys.forEach((key, index) => read(key.field, ["config", "keys", index, "field"]));
+      return;
+    default:
+      // Custom steps can reshape rows arbitrarily.
+      state.open = true;
+      state.closedBy = null;
+  }
+}
+
+function addField(state: FieldState, field: string) {
+  state.known.add(field);
+  state.gone.delete(field);
+}
+
+function checkField(state: FieldState, field: string): Pick<LintIssue, "severity" | "code" | "message"> | null {
+  if (state.known.has(field)) {
+    return null;
+  }
+  const gone = state.gone.get(field);
+  if (gone) {
+    return { severity: "error", code: "renamed_field", message: `Field "${field}" was ${gone} in an earlier step` };
+  }
+  if (!state.open) {
+    return state.closedBy === "map_columns"
+      ? {
+          severity: "error",
+          code: "unknown_field",
+          message: `Field "${field}" is not available: map_columns with dropUnknown keeps only mapped fields`
+        }
+      : { severity: "warning", code: "unknown_field", message: `Field "${field}" is not in the input or any earlier step` };
+  }
+  if (state.mapped) {
+    return {
+      severity: "warning",
+      code: "unknown_field",
+      message: `Field "${field}" is not produced by the mapping or any earlier step`
+    };
+  }
+  return null;
+}
+
+function lintCondition(
+  condition: Condition,
+  path: Array<string | number>,
+  read: ReadField,
+  report: (issue: Pick<LintIssue, "severity" | "code" | "message">) => void
+) {
+  if ("all" in condition) {
+    condition.all.forEach((inner, index) => lintCondition(inner, [...path, "all", index], read, report));
+  } else if ("any" in condition) {
+    condition.any.forEach((inner, index) => lintCondition(inner, [...path, "any", index], read, report));
+  } else if ("not" in condition) {
+    lintCondition(condition.not, [...path, "not"], read, report);
+  } else {
+    read(condition.field, [...path, "field"]);
+    if (condition.op === "matches") {
+      const issue = lintPattern(condition.pattern);
+      if (issue) report(issue);
+    }
+  }
+}
+
+function expressionFields(expression: Expression): string[] {
+  switch (expression.kind) {
+    case "literal":
+      return [];
+    case "field":
+      return [expression.name];
+    case "unary":
+      return expressionFields(expression.operand);
+    case "binary":
+      return [...expressionFields(expression.left), ...expressionFields(expression.right)];
+    case "conditional":
+      return [
+        ...expressionFields(expression.test),
+        ...expressionFields(expression.consequent),
+        ...expressionFields(expression.alternate)
+      ];
+    case "call":
+      return expression.args.flatMap(expressionFields);
+  }
+}
+
+function lintPattern(pattern: string): Pick<LintIssue, "severity" | "code" | "message"> | null {
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return { severity: "error", code: "invalid_regex", message: (error as Error).message };
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return {
+      severity: "warning",
+      code: "catastrophic_regex",
+      message: "Nested unbounded quantifiers such as (a+)+ can backtrack catastrophically on long values"
+    };
+  }
+  return null;
+}
+
+/**
+ * Heuristic for exponential backtracking: a group containing an unbounded
+ * quantifier (`*`, `+`, `{n,}`) that is itself repeated without bound.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  const unboundedAt = (index: number) =>
+    pattern[index] === "*" || pattern[index] === "+" || /^\{\d+,\}/.test(pattern.slice(index));
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "\\") {
+      index += 1;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      const repeatsInside = groups.pop() ?? false;
+      if (repeatsInside && unboundedAt(index + 1)) {
+        return true;
+      }
+      if (repeatsInside && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (groups.length > 0 && unboundedAt(index)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,132 @@
+import type { BlockingConfig } from "../index";
+import { soundex } from "./phonetic";
+
+export type BlockingIndex = {
+  /** Indices of the other records that share at least one block with `recordIndex`. */
+  candidates(recordIndex: number): number[];
+};
+
+/**
+ * Blocking can miss matches that share no block, so it is opt-in: without a
+ * `blocking` config fuzzy dedupe compares every pair of records.
+ */
+export const DEFAULT_BLOCKING: BlockingConfig = { strategy: "none" };
+
+/**
+ * Builds a candidate-generation index over normalized record keys so fuzzy
+ * matching only compares records that plausibly refer to the same entity.
+ * Empty keys never produce candidates.
+ */
+export function buildBlockingIndex(keys: string[], config: BlockingConfig = DEFAULT_BLOCKING): BlockingIndex {
+  switch (config.strategy) {
+    case "none":
+      return {
+        candidates(recordIndex) {
+          if (!keys[recordIndex]) return [];
+          return keys.flatMap((key, index) => (index !== recordIndex && key ? [index] : []));
+        }
+      };
+    case "sorted_neighbourhood":
+      return sortedNeighbourhoodIndex(keys, Math.max(1, config.window ?? 10));
+    case "phonetic":
+      return bucketIndex(keys, (key) => key.split(" ").map(soundex).filter(Boolean), config.maxBlockSize);
+    case "ngram":
+    default: {
+      const size = Math.max(1, config.size ?? 3);
+      return bucketIndex(keys, (key) => ngrams(key, size), config.maxBlockSize);
+    }
+  }
+}
+
+function sortedNeighbourhoodIndex(keys: string[], window: number): BlockingIndex {
+  const order = sortByKey(keys, keys.flatMap((key, index) => (key ? [index] : [])));
+  const positions = new Map(order.map((index, position) => [index, position]));
+
+  return {
+    candidates(recordIndex) {
+      return neighbours(order, positions.get(recordIndex), window);
+    }
+  };
+}
+
+/** Window used inside blocks larger than `maxBlockSize`. */
+const OVERSIZED_BLOCK_WINDOW = 10;
+
+function bucketIndex(
+  keys: string[],
+  blockKeys: (key: string) => string[],
+  maxBlockSize = Number.POSITIVE_INFINITY
+): BlockingIndex {
+  const buckets = new Map<string, number[]>();
+  const recordBlocks = keys.map((key, index) => {
+    if (!key) return [];
+    const blocks = Array.from(new Set(blockKeys(key)));
+    for (const block of blocks) {
+      const bucket = buckets.get(block);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(block, [index]);
+      }
+    }
+    return blocks;
+  });
+  // Oversized buckets come from stop-word-like blocks ("inc", "the") and would
+  // degrade back to pairwise comparison, so they fall back to a sorted
+  // neighbourhood over their own keys instead of being dropped.
+  const oversized = new Map<string, Map<number, number>>();
+  for (const [block, bucket] of buckets) {
+    if (bucket.length > maxBlockSize) {
+      const order = sortByKey(keys, bucket);
+      buckets.set(block, order);
+      oversized.set(block, new Map(order.map((index, position) => [index, position])));
+    }
+  }
+
+  return {
+    candidates(recordIndex) {
+      const result = new Set<number>();
+      for (const block of recordBlocks[recordIndex] ?? []) {
+        const bucket = buckets.get(block)!;
+        const positions = oversized.get(block);
+        const members = positions ? neighbours(bucket, positions.get(recordIndex), OVERSIZED_BLOCK_WINDOW) : bucket;
+        members.forEach((index) => {
+          if (index !== recordIndex) result.add(index);
+        });
+      }
+      return Array.from(result);
+    }
+  };
+}
+
+function sortByKey(keys: string[], indices: number[]): number[] {
+  return [...indices].sort((a, b) => (keys[a] < keys[b] ? -1 : keys[a] > keys[b] ? 1 : a - b));
+}
+
+/** Records within `window` places of `position` in `order`, excluding the record itself. */
+function neighbours(order: number[], position: number | undefined, window: number): number[] {
+  if (position === undefined) return [];
+  const start = Math.max(0, position - window);
+  const end = Math.min(order.length, position + window + 1);
+  const result: number[] = [];
+  for (let i = start; i < end; i++) {
+    if (i !== position) {
+      result.push(order[i]);
+    }
+  }
+  return result;
+}
+
+function ngrams(key: string, size: number): string[] {
+  const grams: string[] = [];
+  for (const token of key.split(" ")) {
+    if (token.length <= size) {
+      grams.push(token);
+      continue;
+    }
+    for (let i = 0; i + size <= token.length; i++) {
+      grams.push(token.slice(i, i + size));
+    }
+  }
+  return grams;
+}
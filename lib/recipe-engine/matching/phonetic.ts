@@ -0,0 +1,517 @@
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6"
+};
+
+/**
+ * American Soundex: first letter plus three digits, e.g. "Robert" -> "R163".
+ * Returns an empty string when the input has no latin letters.
+ */
+export function soundex(value: string): string {
+  const letters = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+  if (!letters) {
+    return "";
+  }
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? "";
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const char = letters[i];
+    const digit = SOUNDEX_CODES[char];
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+    // "h" and "w" do not separate letters with the same code; vowels do.
+    if (char !== "h" && char !== "w") {
+      previous = digit ?? "";
+    }
+  }
+  return code.padEnd(4, "0");
+}
+
+const VOWELS = /[AEIOUY]/;
+const SLAVO_GERMANIC = /W|K|CZ|WITZ/;
+const GERMANIC = /^(VAN |VON |SCH)/;
+
+/**
+ * Double Metaphone (Lawrence Philips). Returns the primary and alternate
+ * encodings, each truncated to four characters, e.g. "Schmidt" -> ["XMT", "SMT"].
+ */
+export function doubleMetaphone(input: string): [string, string] {
+  const word = input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, "")
+    .trim();
+  if (!word) {
+    return ["", ""];
+  }
+
+  const length = word.length;
+  const last = length - 1;
+  // Padding keeps look-ahead slices in bounds.
+  const value = `${word}     `;
+  const at = (position: number) => (position >= 0 ? value.charAt(position) : "");
+  const slice = (start: number, count: number) => (start >= 0 ? value.slice(start, start + count) : "");
+  const stringAt = (start: number, count: number, ...options: string[]) => options.includes(slice(start, count));
+  const isVowel = (position: number) => VOWELS.test(at(position));
+  const slavoGermanic = SLAVO_GERMANIC.test(word);
+  const germanic = GERMANIC.test(value);
+
+  let primary = "";
+  let secondary = "";
+  const add = (main: string, alternate = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  let index = 0;
+  if (stringAt(0, 2, "GN", "KN", "PN", "WR", "PS")) {
+    index = 1;
+  }
+  if (at(0) === "X") {
+    add("S");
+    index = 1;
+  }
+
+  while (index < length && (primary.length < 4 || secondary.length < 4)) {
+    const char = at(index);
+    const next = at(index + 1);
+
+    switch (char) {
+      case "A":
+      case "E":
+      case "I":
+      case "O":
+      case "U":
+      case "Y":
+        if (index === 0) add("A");
+        index += 1;
+        break;
+      case "B":
+        add("P");
+        index += next === "B" ? 2 : 1;
+        break;
+      case "C":
+        if (
+          index > 1 &&
+          !isVowel(index - 2) &&
+          stringAt(index - 1, 3, "ACH") &&
+          at(index + 2) !== "I" &&
+          (at(index + 2) !== "E" || stringAt(index - 2, 6, "BACHER", "MACHER"))
+        ) {
+          add("K");
+          index += 2;
+          break;
+        }
+        if (index === 0 && stringAt(index, 6, "CAESAR")) {
+          add("S");
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 4, "CHIA")) {
+          add("K");
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, "CH")) {
+          if (index > 0 && stringAt(index, 4, "CHAE")) {
+            add("K", "X");
+          } else if (
+            index === 0 &&
+            (stringAt(index + 1, 5, "HARAC", "HARIS") || stringAt(index + 1, 3, "HOR", "HYM", "HIA", "HEM")) &&
+            !stringAt(0, 5, "CHORE")
+          ) {
+            add("K");
+          } else if (
+            germanic ||
+            stringAt(index - 2, 6, "ORCHES", "ARCHIT", "ORCHID") ||
+            stringAt(index + 2, 1, "T", "S") ||
+            ((index === 0 || stringAt(index - 1, 1, "A", "O", "U", "E")) &&
+              stringAt(index + 2, 1, "L", "R", "N", "M", "B", "H", "F", "V", "W", " "))
+          ) {
+            add("K");
+          } else if (index > 0) {
+            add(stringAt(0, 2, "MC") ? "K" : "X", "K");
+          } else {
+            add("X");
+          }
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, "CZ") && !stringAt(index - 2, 4, "WICZ")) {
+          add("S", "X");
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 3, "CIA")) {
+          add("X");
+          index += 3;
+          break;
+        }
+        if (stringAt(index, 2, "CC") && !(index === 1 && at(0) === "M")) {
+          if (stringAt(index + 2, 1, "I", "E", "H") && !stringAt(index + 2, 2, "HU")) {
+            if ((index === 1 && at(0) === "A") || stringAt(index - 1, 5, "UCCEE", "UCCES")) {
+              add("KS");
+            } else {
+              add("X");
+            }
+            index += 3;
+          } else {
+            add("K");
+            index += 2;
+          }
+          break;
+        }
+        if (stringAt(index, 2, "CK", "CG", "CQ")) {
+          add("K");
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 2, "CI", "CE", "CY")) {
+          if (stringAt(index, 3, "CIO", "CIE", "CIA")) {
+            add("S", "X");
+          } else {
+            add("S");
+          }
+          index += 2;
+          break;
+        }
+        add("K");
+        if (stringAt(index + 1, 2, " C", " Q", " G")) {
+          index += 3;
+        } else if (stringAt(index + 1, 1, "C", "K", "Q") && !stringAt(index + 1, 2, "CE", "CI")) {
+          index += 2;
+        } else {
+          index += 1;
+        }
+        break;
+      case "D":
+        if (stringAt(index, 2, "DG")) {
+          if (stringAt(index + 2, 1, "I", "E", "Y")) {
+            add("J");
+            index += 3;
+          } else {
+            add("TK");
+            index += 2;
+          }
+          break;
+        }
+        add("T");
+        index += stringAt(index, 2, "DT", "DD") ? 2 : 1;
+        break;
+      case "F":
+        add("F");
+        index += next === "F" ? 2 : 1;
+        break;
+      case "G":
+        if (next === "H") {
+          if (index > 0 && !isVowel(index - 1)) {
+            add("K");
+            index += 2;
+            break;
+          }
+          if (index === 0) {
+            add(at(index + 2) === "I" ? "J" : "K");
+            index += 2;
+            break;
+          }
+          if (
+            (index > 1 && stringAt(index - 2, 1, "B", "H", "D")) ||
+            (index > 2 && stringAt(index - 3, 1, "B", "H", "D")) ||
+            (index > 3 && stringAt(index - 4, 1, "B", "H"))
+          ) {
+            index += 2;
+            break;
+          }
+          if (index > 2 && at(index - 1) === "U" && stringAt(index - 3, 1, "C", "G", "L", "R", "T")) {
+            add("F");
+          } else if (index > 0 && at(index - 1) !== "I") {
+            add("K");
+          }
+          index += 2;
+          break;
+        }
+        if (next === "N") {
+          if (index === 1 && isVowel(0) && !slavoGermanic) {
+            add("KN", "N");
+          } else if (!stringAt(index + 2, 2, "EY") && !slavoGermanic) {
+            add("N", "KN");
+          } else {
+            add("KN");
+          }
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 2, "LI") && !slavoGermanic) {
+          add("KL", "L");
+          index += 2;
+          break;
+        }
+        if (
+          index === 0 &&
+          (next === "Y" || stringAt(index + 1, 2, "ES", "EP", "EB", "EL", "EY", "IB", "IL", "IN", "IE", "EI", "ER"))
+        ) {
+          add("K", "J");
+          index += 2;
+          break;
+        }
+        if (
+          (stringAt(index + 1, 2, "ER") || next === "Y") &&
+          !stringAt(0, 6, "DANGER", "RANGER", "MANGER") &&
+          !stringAt(index - 1, 1, "E", "I") &&
+          !stringAt(index - 1, 3, "RGY", "OGY")
+        ) {
+          add("K", "J");
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 1, "E", "I", "Y") || stringAt(index - 1, 4, "AGGI", "OGGI")) {
+          if (germanic || stringAt(index + 1, 2, "ET")) {
+            add("K");
+          } else if (stringAt(index + 1, 4, "IER ")) {
+            add("J");
+          } else {
+            add("J", "K");
+          }
+          index += 2;
+          break;
+        }
+        add("K");
+        index += next === "G" ? 2 : 1;
+        break;
+      case "H":
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add("H");
+          index += 2;
+        } else {
+          index += 1;
+        }
+        break;
+      case "J":
+        if (stringAt(index, 4, "JOSE") || stringAt(0, 4, "SAN ")) {
+          if ((index === 0 && at(index + 4) === " ") || stringAt(0, 4, "SAN ")) {
+            add("H");
+          } else {
+            add("J", "H");
+          }
+          index += 1;
+          break;
+        }
+        if (index === 0) {
+          add("J", "A");
+        } else if (isVowel(index - 1) && !slavoGermanic && (next === "A" || next === "O")) {
+          add("J", "H");
+        } else if (index === last) {
+          add("J", "");
+        } else if (
+          !stringAt(index + 1, 1, "L", "T", "K", "S", "N", "M", "B", "Z") &&
+          !stringAt(index - 1, 1, "S", "K", "L")
+        ) {
+          add("J");
+        }
+        index += next === "J" ? 2 : 1;
+        break;
+      case "K":
+        add("K");
+        index += next === "K" ? 2 : 1;
+        break;
+      case "L":
+        if (next === "L") {
+          if (
+            (index === length - 3 && stringAt(index - 1, 4, "ILLO", "ILLA", "ALLE")) ||
+            ((stringAt(last - 1, 2, "AS", "OS") || stringAt(last, 1, "A", "O")) && stringAt(index - 1, 4, "ALLE"))
+          ) {
+            add("L", "");
+          } else {
+            add("L");
+          }
+          index += 2;
+          break;
+        }
+        add("L");
+        index += 1;
+        break;
+      case "M":
+        add("M");
+        if (
+          (stringAt(index - 1, 3, "UMB") && (index + 1 === last || stringAt(index + 2, 2, "ER"))) ||
+          next === "M"
+        ) {
+          index += 2;
+        } else {
+          index += 1;
+        }
+        break;
+      case "N":
+        add("N");
+        index += next === "N" ? 2 : 1;
+        break;
+      case "P":
+        if (next === "H") {
+          add("F");
+          index += 2;
+          break;
+        }
+        add("P");
+        index += next === "P" || next === "B" ? 2 : 1;
+        break;
+      case "Q":
+        add("K");
+        index += next === "Q" ? 2 : 1;
+        break;
+      case "R":
+        if (index === last && !slavoGermanic && stringAt(index - 2, 2, "IE") && !stringAt(index - 4, 2, "ME", "MA")) {
+          add("", "R");
+        } else {
+          add("R");
+        }
+        index += next === "R" ? 2 : 1;
+        break;
+      case "S":
+        if (stringAt(index - 1, 3, "ISL", "YSL")) {
+          index += 1;
+          break;
+        }
+        if (index === 0 && stringAt(index, 5, "SUGAR")) {
+          add("X", "S");
+          index += 1;
+          break;
+        }
+        if (stringAt(index, 2, "SH")) {
+          add(stringAt(index + 1, 4, "HEIM", "HOEK", "HOLM", "HOLZ") ? "S" : "X");
+          index += 2;
+          break;
+        }
+        if (stringAt(index, 3, "SIO", "SIA") || stringAt(index, 4, "SIAN")) {
+          add("S", slavoGermanic ? "S" : "X");
+          index += 3;
+          break;
+        }
+        if ((index === 0 && stringAt(index + 1, 1, "M", "N", "L", "W")) || next === "Z") {
+          add("S", "X");
+          index += next === "Z" ? 2 : 1;
+          break;
+        }
+        if (stringAt(index, 2, "SC")) {
+          if (at(index + 2) === "H") {
+            if (stringAt(index + 3, 2, "OO", "ER", "EN", "UY", "ED", "EM")) {
+              if (stringAt(index + 3, 2, "ER", "EN")) {
+                add("X", "SK");
+              } else {
+                add("SK");
+              }
+            } else if (index === 0 && !isVowel(3) && at(3) !== "W") {
+              add("X", "S");
+            } else {
+              add("X");
+            }
+          } else if (stringAt(index + 2, 1, "I", "E", "Y")) {
+            add("S");
+          } else {
+            add("SK");
+          }
+          index += 3;
+          break;
+        }
+        if (index === last && stringAt(index - 2, 2, "AI", "OI")) {
+          add("", "S");
+        } else {
+          add("S");
+        }
+        index += next === "S" || next === "Z" ? 2 : 1;
+        break;
+      case "T":
+        if (stringAt(index, 4, "TION") || stringAt(index, 3, "TIA", "TCH")) {
+          add("X");
+          index += 3;
+          break;
+        }
+        if (stringAt(index, 2, "TH") || stringAt(index, 3, "TTH")) {
+          if (stringAt(index + 2, 2, "OM", "AM") || germanic) {
+            add("T");
+          } else {
+            add("0", "T");
+          }
+          index += 2;
+          break;
+        }
+        add("T");
+        index += next === "T" || next === "D" ? 2 : 1;
+        break;
+      case "V":
+        add("F");
+        index += next === "V" ? 2 : 1;
+        break;
+      case "W":
+        if (stringAt(index, 2, "WR")) {
+          add("R");
+          index += 2;
+          break;
+        }
+        if (index === 0 && (isVowel(index + 1) || stringAt(index, 2, "WH"))) {
+          add("A", isVowel(index + 1) ? "F" : "A");
+        }
+        if (
+          (index === last && isVowel(index - 1)) ||
+          stringAt(index - 1, 5, "EWSKI", "EWSKY", "OWSKI", "OWSKY") ||
+          stringAt(0, 3, "SCH")
+        ) {
+          add("", "F");
+          index += 1;
+          break;
+        }
+        if (stringAt(index, 4, "WICZ", "WITZ")) {
+          add("TS", "FX");
+          index += 4;
+          break;
+        }
+        index += 1;
+        break;
+      case "X":
+        if (!(index === last && (stringAt(index - 3, 3, "IAU", "EAU") || stringAt(index - 2, 2, "AU", "OU")))) {
+          add("KS");
+        }
+        index += next === "C" || next === "X" ? 2 : 1;
+        break;
+      case "Z":
+        if (next === "H") {
+          add("J");
+          index += 2;
+          break;
+        }
+        if (stringAt(index + 1, 2, "ZO", "ZI", "ZA") || (slavoGermanic && index > 0 && at(index - 1) !== "T")) {
+          add("S", "TS");
+        } else {
+          add("S");
+        }
+        index += next === "Z" ? 2 : 1;
+        break;
+      default:
+        index += 1;
+    }
+  }
+
+  return [primary.slice(0, 4), secondary.slice(0, 4)];
+}
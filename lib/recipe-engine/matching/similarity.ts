@@ -0,0 +1,235 @@
+import type { FieldComparator, MatchAlgorithm, RecipeRow } from "../index";
+import { doubleMetaphone, soundex } from "./phonetic";
+
+// Legal-form and common business abbreviations are folded to one spelling so
+// token comparisons treat "Corp" and "Corporation" as the same word.
+const TOKEN_CANONICAL: Record<string, string> = {
+  co: "company",
+  corp: "corporation",
+  inc: "incorporated",
+  intl: "international",
+  ltd: "limited",
+  llc: "llc",
+  mfg: "manufacturing",
+  svc: "services",
+  svcs: "services",
+  bros: "brothers",
+  assoc: "associates"
+};
+
+export function normalizeValue(input: unknown): string {
+  return String(input ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  const base = jaro(a, b);
+  let prefix = 0;
+  const maxPrefix = 4;
+  while (prefix < maxPrefix && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  const scaling = 0.1;
+  return base + prefix * scaling * (1 - base);
+}
+
+function jaro(a: string, b: string): number {
+  if (a === b) return 1;
+  const len1 = a.length;
+  const len2 = b.length;
+  if (len1 === 0 || len2 === 0) return 0;
+  const matchDistance = Math.floor(Math.max(len1, len2) / 2) - 1;
+
+  const s1Matches = new Array(len1).fill(false);
+  const s2Matches = new Array(len2).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < len1; i++) {
+    const start = Math.max(0, i - matchDistance);
+    const end = Math.min(i + matchDistance + 1, len2);
+    for (let j = start; j < end; j++) {
+      if (s2Matches[j]) continue;
+      if (a[i] !== b[j]) continue;
+      s1Matches[i] = true;
+      s2Matches[j] = true;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  const s1 = [];
+  const s2 = [];
+  for (let i = 0; i < len1; i++) {
+    if (s1Matches[i]) {
+      s1.push(a[i]);
+    }
+  }
+  for (let i = 0; i < len2; i++) {
+    if (s2Matches[i]) {
+      s2.push(b[i]);
+    }
+  }
+
+  let transpositions = 0;
+  for (let i = 0; i < s1.length; i++) {
+    if (s1[i] !== s2[i]) {
+      transpositions++;
+    }
+  }
+  transpositions /= 2;
+
+  return (matches / len1 + matches / len2 + (matches - transpositions) / matches) / 3;
+}
+
+/**
+ * Edit distance. With `transpositions` enabled this is the optimal string
+ * alignment variant of Damerau-Levenshtein (adjacent swaps cost 1).
+ */
+export function editDistance(a: string, b: string, transpositions = false): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (transpositions && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function editSimilarity(a: string, b: string, transpositions: boolean): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b, transpositions) / longest;
+}
+
+function tokens(value: string): string[] {
+  return value
+    .split(" ")
+    .filter(Boolean)
+    .map((token) => TOKEN_CANONICAL[token] ?? token);
+}
+
+/**
+ * Token-set ratio: compares the shared tokens against each side's leftovers so
+ * word order and extra words matter less than the words both values share.
+ */
+export function tokenSetRatio(a: string, b: string): number {
+  const left = new Set(tokens(a));
+  const right = new Set(tokens(b));
+  if (!left.size && !right.size) return 1;
+  if (!left.size || !right.size) return 0;
+
+  const shared = Array.from(left).filter((token) => right.has(token)).sort();
+  const onlyLeft = Array.from(left).filter((token) => !right.has(token)).sort();
+  const onlyRight = Array.from(right).filter((token) => !left.has(token)).sort();
+
+  const base = shared.join(" ");
+  const combinedLeft = [base, ...onlyLeft].filter(Boolean).join(" ");
+  const combinedRight = [base, ...onlyRight].filter(Boolean).join(" ");
+
+  const ratios = [indelRatio(combinedLeft, combinedRight)];
+  if (base) {
+    ratios.push(indelRatio(base, combinedLeft), indelRatio(base, combinedRight));
+  }
+  return Math.max(...ratios);
+}
+
+function indelRatio(a: string, b: string): number {
+  const total = a.length + b.length;
+  if (total === 0) return 1;
+  return (2 * longestCommonSubsequence(a, b)) / total;
+}
+
+function longestCommonSubsequence(a: string, b: string): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [0];
+    for (let j = 1; j <= b.length; j++) {
+      current.push(a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function phoneticSimilarity(a: string, b: string, encode: (token: string) => string[]): number {
+  const left = tokens(a).map((token) => encode(token).filter(Boolean));
+  const right = tokens(b).map((token) => encode(token).filter(Boolean));
+  if (!left.length || !right.length) {
+    return left.length === right.length ? 1 : 0;
+  }
+  const unmatched = [...right];
+  let matched = 0;
+  for (const codes of left) {
+    const position = unmatched.findIndex((candidate) => candidate.some((code) => codes.includes(code)));
+    if (position >= 0) {
+      matched++;
+      unmatched.splice(position, 1);
+    }
+  }
+  return matched / Math.max(left.length, right.length);
+}
+
+/** Scores two normalized values between 0 (different) and 1 (identical). */
+export function compareValues(a: string, b: string, algorithm: MatchAlgorithm): number {
+  switch (algorithm) {
+    case "exact":
+      return a === b ? 1 : 0;
+    case "levenshtein":
+      return editSimilarity(a, b, false);
+    case "damerau_levenshtein":
+      return editSimilarity(a, b, true);
+    case "token_set":
+      return tokenSetRatio(a, b);
+    case "soundex":
+      return phoneticSimilarity(a, b, (token) => [soundex(token)]);
+    case "double_metaphone":
+      return phoneticSimilarity(a, b, (token) => doubleMetaphone(token));
+    case "jaro_winkler":
+    default:
+      return jaroWinkler(a, b);
+  }
+}
+
+function normalizeForComparator(value: unknown, algorithm: MatchAlgorithm): string {
+  // Exact comparisons (emails, ids) only fold case and surrounding whitespace;
+  // punctuation such as "@" and "." is significant there.
+  return algorithm === "exact" ? String(value ?? "").trim().toLowerCase() : normalizeValue(value);
+}
+
+/**
+ * Weighted match score across per-field comparators. Fields that are empty on
+ * both records carry no evidence and are left out of the weighting; returns
+ * null when no comparator had anything to compare.
+ */
+export function scoreRecords(a: RecipeRow, b: RecipeRow, comparators: FieldComparator[]): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const comparator of comparators) {
+    const weight = comparator.weight ?? 1;
+    if (weight <= 0) continue;
+    const left = normalizeForComparator(a[comparator.field], comparator.algorithm);
+    const right = normalizeForComparator(b[comparator.field], comparator.algorithm);
+    if (!left && !right) continue;
+    const score = left && right ? compareValues(left, right, comparator.algorithm) : 0;
+    weighted += score * weight;
+    totalWeight += weight;
+  }
+  return totalWeight === 0 ? null : weighted / totalWeight;
+}
@@ -0,0 +1,41 @@
+/**
+ * Upgrades stored recipe JSON when step configs change shape. Each migration
+ * lifts a recipe from `from` to `from + 1`; recipes without a `schemaVersion`
+ * are treated as version 1.
+ */
+export type RecipeMigration = {
+  from: number;
+  description: string;
+  migrate: (recipe: Record<string, unknown>) => Record<string, unknown>;
+};
+
+export const recipeMigrations: RecipeMigration[] = [
+  {
+    from: 1,
+    description: "stamp recipes saved before schema versions were tracked; version 1 configs are unchanged",
+    migrate: (recipe) => recipe
+  }
+];
+
+export function latestSchemaVersion(migrations: RecipeMigration[] = recipeMigrations): number {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.from + 1), 1);
+}
+
+/** Non-objects are returned untouched so schema validation can report them. */
+export function migrateRecipe(input: unknown, migrations: RecipeMigration[] = recipeMigrations): unknown {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return input;
+  }
+  let recipe = input as Record<string, unknown>;
+  let schemaVersion = typeof recipe.schemaVersion === "number" ? recipe.schemaVersion : 1;
+  const latest = latestSchemaVersion(migrations);
+  while (schemaVersion < latest) {
+    const migration = migrations.find((candidate) => candidate.from === schemaVersion);
+    if (!migration) {
+      throw new Error(`No recipe migration from schema version ${schemaVersion}`);
+    }
+    recipe = migration.migrate(recipe);
+    schemaVersion += 1;
+  }
+  return recipe.schemaVersion === schemaVersion ? recipe : { ...recipe, schemaVersion };
+}
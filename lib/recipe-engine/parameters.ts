@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import type { RecipeDefinition } from "./index";
+
+export type RecipeParameterType = "string" | "number" | "boolean" | "string_list";
+
+export type RecipeParameterValue = string | number | boolean | string[];
+
+/**
+ * A typed input declared on a recipe. Step configs reference it with
+ * `{ "$param": "<name>" }` in place of any value; parameters without a
+ * `default` must be supplied when the recipe runs.
+ */
+export type RecipeParameter = {
+  name: string;
+  type: RecipeParameterType;
+  description?: string;
+  default?: RecipeParameterValue;
+};
+
+export type ParameterRef = { $param: string };
+
+const valueSchemas: Record<RecipeParameterType, z.ZodType<RecipeParameterValue>> = {
+  string: z.string(),
+  number: z.number(),
+  boolean: z.boolean(),
+  string_list: z.array(z.string())
+};
+
+/** Stand-ins used to shape-check step configs that reference parameters without defaults. */
+const PLACEHOLDERS: Record<RecipeParameterType, RecipeParameterValue> = {
+  string: "value",
+  number: 1,
+  boolean: false,
+  string_list: []
+};
+
+export const recipeParameterSchema: z.ZodType<RecipeParameter> = z
+  .object({
+    name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Parameter names must be identifiers"),
+    type: z.enum(["string", "number", "boolean", "string_list"]),
+    description: z.string().optional(),
+    default: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional()
+  })
+  .superRefine((parameter, ctx) => {
+    if (parameter.default !== undefined && !valueSchemas[parameter.type].safeParse(parameter.default).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["default"],
+        message: `Default does not match parameter type ${parameter.type}`
+      });
+    }
+  });
+
+export function isParameterRef(value: unknown): value is ParameterRef {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value as object).length === 1 &&
+    typeof (value as ParameterRef).$param === "string"
+  );
+}
+
+/** Every parameter reference inside `value`, with its path relative to `value`. */
+export function collectParameterRefs(
+  value: unknown,
+  path: Array<string | number> = []
+): Array<{ name: string; path: Array<string | number> }> {
+  if (isParameterRef(value)) {
+    return [{ name: value.$param, path }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectParameterRefs(item, [...path, index]));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, item]) => collectParameterRefs(item, [...path, key]));
+  }
+  return [];
+}
+
+/** Replaces every parameter reference in `value` with its bound value. */
+export function substituteParameters(value: unknown, values: Record<string, RecipeParameterValue>): unknown {
+  if (isParameterRef(value)) {
+    return values[value.$param];
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteParameters(item, values));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParameters(item, values)])
+    );
+  }
+  return value;
+}
+
+/** Defaults, or a placeholder of the declared type, for validating a recipe before values are known. */
+export function placeholderValues(parameters: RecipeParameter[] = []): Record<string, RecipeParameterValue> {
+  return Object.fromEntries(
+    parameters.map((parameter) => [parameter.name, parameter.default ?? PLACEHOLDERS[parameter.type]])
+  );
+}
+
+/**
+ * Checks supplied values against the declared parameters and fills in
+ * defaults. Throws `ValidationError` with `parameters.<name>` issues for
+ * unknown names, wrong types and missing required values.
+ */
+export function resolveParameterValues(
+  parameters: RecipeParameter[] = [],
+  values: Record<string, unknown> = {}
+): Record<string, RecipeParameterValue> {
+  const issues: Array<{ path: string; message: string }> = [];
+  const resolved: Record<string, RecipeParameterValue> = {};
+  for (const name of Object.keys(values)) {
+    if (!parameters.some((parameter) => parameter.name === name)) {
+      issues.push({ path: `parameters.${name}`, message: "Unknown parameter" });
+    }
+  }
+  for (const parameter of parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value === undefined) {
+      issues.push({ path: `parameters.${parameter.name}`, message: "Required" });
+      continue;
+    }
+    const parsed = valueSchemas[parameter.type].safeParse(value);
+    if (!parsed.success) {
+      issues.push({ path: `parameters.${parameter.name}`, message: `Expected a ${parameter.type} value` });
+      continue;
+    }
+    resolved[parameter.name] = parsed.data;
+  }
+  if (issues.length > 0) {
+    throw new ValidationError("Invalid recipe parameters", issues);
+  }
+  return resolved;
+}
+
+/**
+ * Returns the recipe with every parameter reference replaced by its value.
+ * The bound recipe declares no parameters, so binding it again is a no-op.
+ */
+export function bindRecipeParameters(
+  recipe: RecipeDefinition,
+  values: Record<string, unknown> = {}
+): RecipeDefinition {
+  if (!recipe.parameters?.length && Object.keys(values).length === 0) {
+    return recipe;
+  }
+  const resolved = resolveParameterValues(recipe.parameters, values);
+  const { parameters: _parameters, ...rest } = recipe;
+  return { ...rest, steps: substituteParameters(recipe.steps, resolved) as RecipeDefinition["steps"] };
+}
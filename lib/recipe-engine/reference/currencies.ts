@@ -0,0 +1,355 @@
+import { referenceKey } from "./countries";
+
+/** An active ISO 4217 currency with the symbols and names it is written as. */
+export type Currency = {
+  code: string;
+  /** Three-digit numeric code, zero-padded. */
+  numeric: string;
+  name: string;
+  /** Digits after the decimal separator (0 for JPY, 3 for KWD). */
+  minorUnits: number;
+  /** ISO 3166-1 alpha-2 codes of the countries and territories using the currency. */
+  countries: string[];
+  symbols?: string[];
+  /** Other English names, generic names ("dollar") and retired codes. */
+  aliases?: string[];
+};
+
+export const CURRENCIES: Currency[] = [
+  { code: "AED", numeric: "784", name: "UAE Dirham", minorUnits: 2, countries: ["AE"], symbols: ["د.إ"], aliases: ["Emirati Dirham", "Dirham"] },
+  { code: "AFN", numeric: "971", name: "Afghani", minorUnits: 2, countries: ["AF"], symbols: ["؋"] },
+  { code: "ALL", numeric: "008", name: "Lek", minorUnits: 2, countries: ["AL"] },
+  { code: "AMD", numeric: "051", name: "Armenian Dram", minorUnits: 2, countries: ["AM"], symbols: ["֏"], aliases: ["Dram"] },
+  { code: "AOA", numeric: "973", name: "Kwanza", minorUnits: 2, countries: ["AO"], symbols: ["Kz"] },
+  { code: "ARS", numeric: "032", name: "Argentine Peso", minorUnits: 2, countries: ["AR"], symbols: ["$", "AR$"], aliases: ["Peso"] },
+  {
+    code: "AUD",
+    numeric: "036",
+    name: "Australian Dollar",
+    minorUnits: 2,
+    countries: ["AU", "CX", "CC", "HM", "KI", "NR", "NF", "TV"],
+    symbols: ["$", "A$", "AU$"],
+    aliases: ["Dollar"]
+  },
+  { code: "AWG", numeric: "533", name: "Aruban Florin", minorUnits: 2, countries: ["AW"], symbols: ["ƒ"] },
+  { code: "AZN", numeric: "944", name: "Azerbaijan Manat", minorUnits: 2, countries: ["AZ"], symbols: ["₼"], aliases: ["Manat"] },
+  { code: "BAM", numeric: "977", name: "Convertible Mark", minorUnits: 2, countries: ["BA"], symbols: ["KM"] },
+  { code: "BBD", numeric: "052", name: "Barbados Dollar", minorUnits: 2, countries: ["BB"], symbols: ["Bds$"] },
+  { code: "BDT", numeric: "050", name: "Taka", minorUnits: 2, countries: ["BD"], symbols: ["৳"] },
+  { code: "BHD", numeric: "048", name: "Bahraini Dinar", minorUnits: 3, countries: ["BH"], symbols: ["BD"] },
+  { code: "BIF", numeric: "108", name: "Burundi Franc", minorUnits: 0, countries: ["BI"], symbols: ["FBu"] },
+  { code: "BMD", numeric: "060", name: "Bermudian Dollar", minorUnits: 2, countries: ["BM"] },
+  { code: "BND", numeric: "096", name: "Brunei Dollar", minorUnits: 2, countries: ["BN"], symbols: ["B$"] },
+  { code: "BOB", numeric: "068", name: "Boliviano", minorUnits: 2, countries: ["BO"], symbols: ["Bs"] },
+  { code: "BRL", numeric: "986", name: "Brazilian Real", minorUnits: 2, countries: ["BR"], symbols: ["R$"], aliases: ["Real", "Reais"] },
+  { code: "BSD", numeric: "044", name: "Bahamian Dollar", minorUnits: 2, countries: ["BS"] },
+  { code: "BTN", numeric: "064", name: "Ngultrum", minorUnits: 2, countries: ["BT"], symbols: ["Nu."] },
+  { code: "BWP", numeric: "072", name: "Pula", minorUnits: 2, countries: ["BW"] },
+  { code: "BYN", numeric: "933", name: "Belarusian Ruble", minorUnits: 2, countries: ["BY"], symbols: ["Br"], aliases: ["BYR"] },
+  { code: "BZD", numeric: "084", name: "Belize Dollar", minorUnits: 2, countries: ["BZ"], symbols: ["BZ$"] },
+  {
+    code: "CAD",
+    numeric: "124",
+    name: "Canadian Dollar",
+    minorUnits: 2,
+    countries: ["CA"],
+    symbols: ["$", "C$", "CA$", "CAN$"],
+    aliases: ["Dollar"]
+  },
+  { code: "CDF", numeric: "976", name: "Congolese Franc", minorUnits: 2, countries: ["CD"], symbols: ["FC"] },
+  {
+    code: "CHF",
+    numeric: "756",
+    name: "Swiss Franc",
+    minorUnits: 2,
+    countries: ["CH", "LI"],
+    symbols: ["Fr.", "SFr."],
+    aliases: ["Franc", "Franken"]
+  },
+  { code: "CLP", numeric: "152", name: "Chilean Peso", minorUnits: 0, countries: ["CL"], symbols: ["$", "CLP$"], aliases: ["Peso"] },
+  {
+    code: "CNY",
+    numeric: "156",
+    name: "Yuan Renminbi",
+    minorUnits: 2,
+    countries: ["CN"],
+    symbols: ["¥", "CN¥", "元"],
+    aliases: ["Yuan", "Renminbi", "RMB", "Chinese Yuan"]
+  },
+  { code: "COP", numeric: "170", name: "Colombian Peso", minorUnits: 2, countries: ["CO"], symbols: ["$", "COL$"], aliases: ["Peso"] },
+  { code: "CRC", numeric: "188", name: "Costa Rican Colon", minorUnits: 2, countries: ["CR"], symbols: ["₡"] },
+  { code: "CUP", numeric: "192", name: "Cuban Peso", minorUnits: 2, countries: ["CU"] },
+  { code: "CVE", numeric: "132", name: "Cabo Verde Escudo", minorUnits: 2, countries: ["CV"], aliases: ["Cape Verde Escudo"] },
+  { code: "CZK", numeric: "203", name: "Czech Koruna", minorUnits: 2, countries: ["CZ"], symbols: ["Kč"], aliases: ["Koruna"] },
+  { code: "DJF", numeric: "262", name: "Djibouti Franc", minorUnits: 0, countries: ["DJ"], symbols: ["Fdj"] },
+  {
+    code: "DKK",
+    numeric: "208",
+    name: "Danish Krone",
+    minorUnits: 2,
+    countries: ["DK", "FO", "GL"],
+    symbols: ["kr", "kr.", "Dkr"],
+    aliases: ["Krone", "Kroner"]
+  },
+  { code: "DOP", numeric: "214", name: "Dominican Peso", minorUnits: 2, countries: ["DO"], symbols: ["RD$"] },
+  { code: "DZD", numeric: "012", name: "Algerian Dinar", minorUnits: 2, countries: ["DZ"], symbols: ["DA"] },
+  { code: "EGP", numeric: "818", name: "Egyptian Pound", minorUnits: 2, countries: ["EG"], symbols: ["E£", "LE"] },
+  { code: "ERN", numeric: "232", name: "Nakfa", minorUnits: 2, countries: ["ER"], symbols: ["Nfk"] },
+  { code: "ETB", numeric: "230", name: "Ethiopian Birr", minorUnits: 2, countries: ["ET"], symbols: ["Br"], aliases: ["Birr"] },
+  {
+    code: "EUR",
+    numeric: "978",
+    name: "Euro",
+    minorUnits: 2,
+    countries: [
+      "AD", "AT", "AX", "BE", "BG", "BL", "CY", "DE", "EE", "ES", "FI", "FR", "GF", "GP", "GR", "HR", "IE", "IT", "LT",
+      "LU", "LV", "MC", "ME", "MF", "MQ", "MT", "NL", "PM", "PT", "RE", "SI", "SK", "SM", "TF", "VA", "YT"
+    ],
+    symbols: ["€"],
+    aliases: ["Euros"]
+  },
+  { code: "FJD", numeric: "242", name: "Fiji Dollar", minorUnits: 2, countries: ["FJ"], symbols: ["FJ$"] },
+  { code: "FKP", numeric: "238", name: "Falkland Islands Pound", minorUnits: 2, countries: ["FK"] },
+  {
+    code: "GBP",
+    numeric: "826",
+    name: "Pound Sterling",
+    minorUnits: 2,
+    countries: ["GB", "GG", "IM", "JE"],
+    symbols: ["£"],
+    aliases: ["British Pound", "Pound", "Sterling", "Quid"]
+  },
+  { code: "GEL", numeric: "981", name: "Lari", minorUnits: 2, countries: ["GE"], symbols: ["₾"] },
+  { code: "GHS", numeric: "936", name: "Ghana Cedi", minorUnits: 2, countries: ["GH"], symbols: ["₵", "GH₵"], aliases: ["Cedi"] },
+  { code: "GIP", numeric: "292", name: "Gibraltar Pound", minorUnits: 2, countries: ["GI"] },
+  { code: "GMD", numeric: "270", name: "Dalasi", minorUnits: 2, countries: ["GM"] },
+  { code: "GNF", numeric: "324", name: "Guinean Franc", minorUnits: 0, countries: ["GN"], symbols: ["FG"] },
+  { code: "GTQ", numeric: "320", name: "Quetzal", minorUnits: 2, countries: ["GT"] },
+  { code: "GYD", numeric: "328", name: "Guyana Dollar", minorUnits: 2, countries: ["GY"], symbols: ["G$"] },
+  { code: "HKD", numeric: "344", name: "Hong Kong Dollar", minorUnits: 2, countries: ["HK"], symbols: ["HK$"] },
+  { code: "HNL", numeric: "340", name: "Lempira", minorUnits: 2, countries: ["HN"] },
+  { code: "HTG", numeric: "332", name: "Gourde", minorUnits: 2, countries: ["HT"] },
+  { code: "HUF", numeric: "348", name: "Forint", minorUnits: 2, countries: ["HU"], symbols: ["Ft"] },
+  { code: "IDR", numeric: "360", name: "Rupiah", minorUnits: 2, countries: ["ID"], symbols: ["Rp"] },
+  { code: "ILS", numeric: "376", name: "New Israeli Sheqel", minorUnits: 2, countries: ["IL", "PS"], symbols: ["₪"], aliases: ["Shekel", "NIS"] },
+  { code: "INR", numeric: "356", name: "Indian Rupee", minorUnits: 2, countries: ["IN", "BT"], symbols: ["₹", "Rs", "Rs."], aliases: ["Rupee"] },
+  { code: "IQD", numeric: "368", name: "Iraqi Dinar", minorUnits: 3, countries: ["IQ"] },
+  { code: "IRR", numeric: "364", name: "Iranian Rial", minorUnits: 2, countries: ["IR"], symbols: ["﷼"] },
+  { code: "ISK", numeric: "352", name: "Iceland Krona", minorUnits: 0, countries: ["IS"], symbols: ["kr"], aliases: ["Króna"] },
+  { code: "JMD", numeric: "388", name: "Jamaican Dollar", minorUnits: 2, countries: ["JM"], symbols: ["J$"] },
+  { code: "JOD", numeric: "400", name: "Jordanian Dinar", minorUnits: 3, countries: ["JO"], symbols: ["JD"] },
+  { code: "JPY", numeric: "392", name: "Yen", minorUnits: 0, countries: ["JP"], symbols: ["¥", "JP¥", "円"], aliases: ["Japanese Yen"] },
+  { code: "KES", numeric: "404", name: "Kenyan Shilling", minorUnits: 2, countries: ["KE"], symbols: ["KSh"] },
+  { code: "KGS", numeric: "417", name: "Som", minorUnits: 2, countries: ["KG"] },
+  { code: "KHR", numeric: "116", name: "Riel", minorUnits: 2, countries: ["KH"], symbols: ["៛"] },
+  { code: "KMF", numeric: "174", name: "Comorian Franc", minorUnits: 0, countries: ["KM"], symbols: ["CF"] },
+  { code: "KPW", numeric: "408", name: "North Korean Won", minorUnits: 2, countries: ["KP"] },
+  { code: "KRW", numeric: "410", name: "Won", minorUnits: 0, countries: ["KR"], symbols: ["₩"], aliases: ["South Korean Won", "Korean Won"] },
+  { code: "KWD", numeric: "414", name: "Kuwaiti Dinar", minorUnits: 3, countries: ["KW"], symbols: ["KD"] },
+  { code: "KYD", numeric: "136", name: "Cayman Islands Dollar", minorUnits: 2, countries: ["KY"], symbols: ["CI$"] },
+  { code: "KZT", numeric: "398", name: "Tenge", minorUnits: 2, countries: ["KZ"], symbols: ["₸"] },
+  { code: "LAK", numeric: "418", name: "Lao Kip", minorUnits: 2, countries: ["LA"], symbols: ["₭"], aliases: ["Kip"] },
+  { code: "LBP", numeric: "422", name: "Lebanese Pound", minorUnits: 2, countries: ["LB"], symbols: ["LL"] },
+  { code: "LKR", numeric: "144", name: "Sri Lanka Rupee", minorUnits: 2, countries: ["LK"], symbols: ["Rs", "Rs."], aliases: ["Rupee"] },
+  { code: "LRD", numeric: "430", name: "Liberian Dollar", minorUnits: 2, countries: ["LR"], symbols: ["L$"] },
+  { code: "LSL", numeric: "426", name: "Loti", minorUnits: 2, countries: ["LS"] },
+  { code: "LYD", numeric: "434", name: "Libyan Dinar", minorUnits: 3, countries: ["LY"], symbols: ["LD"] },
+  { code: "MAD", numeric: "504", name: "Moroccan Dirham", minorUnits: 2, countries: ["MA", "EH"], aliases: ["Dirham"] },
+  { code: "MDL", numeric: "498", name: "Moldovan Leu", minorUnits: 2, countries: ["MD"] },
+  { code: "MGA", numeric: "969", name: "Malagasy Ariary", minorUnits: 2, countries: ["MG"], symbols: ["Ar"], aliases: ["Ariary"] },
+  { code: "MKD", numeric: "807", name: "Denar", minorUnits: 2, countries: ["MK"], symbols: ["ден"] },
+  { code: "MMK", numeric: "104", name: "Kyat", minorUnits: 2, countries: ["MM"], symbols: ["Ks"] },
+  { code: "MNT", numeric: "496", name: "Tugrik", minorUnits: 2, countries: ["MN"], symbols: ["₮"] },
+  { code: "MOP", numeric: "446", name: "Pataca", minorUnits: 2, countries: ["MO"], symbols: ["MOP$"] },
+  { code: "MRU", numeric: "929", name: "Ouguiya", minorUnits: 2, countries: ["MR"], symbols: ["UM"], aliases: ["MRO"] },
+  { code: "MUR", numeric: "480", name: "Mauritius Rupee", minorUnits: 2, countries: ["MU"], aliases: ["Rupee"] },
+  { code: "MVR", numeric: "462", name: "Rufiyaa", minorUnits: 2, countries: ["MV"], symbols: ["Rf"] },
+  { code: "MWK", numeric: "454", name: "Malawi Kwacha", minorUnits: 2, countries: ["MW"], symbols: ["MK"], aliases: ["Kwacha"] },
+  { code: "MXN", numeric: "484", name: "Mexican Peso", minorUnits: 2, countries: ["MX"], symbols: ["$", "MX$", "Mex$"], aliases: ["Peso"] },
+  { code: "MYR", numeric: "458", name: "Malaysian Ringgit", minorUnits: 2, countries: ["MY"], symbols: ["RM"], aliases: ["Ringgit"] },
+  { code: "MZN", numeric: "943", name: "Mozambique Metical", minorUnits: 2, countries: ["MZ"], symbols: ["MT"], aliases: ["Metical"] },
+  { code: "NAD", numeric: "516", name: "Namibia Dollar", minorUnits: 2, countries: ["NA"], symbols: ["N$"] },
+  { code: "NGN", numeric: "566", name: "Naira", minorUnits: 2, countries: ["NG"], symbols: ["₦"] },
+  { code: "NIO", numeric: "558", name: "Cordoba Oro", minorUnits: 2, countries: ["NI"], aliases: ["Córdoba"] },
+  {
+    code: "NOK",
+    numeric: "578",
+    name: "Norwegian Krone",
+    minorUnits: 2,
+    countries: ["NO", "SJ", "BV"],
+    symbols: ["kr", "Nkr"],
+    aliases: ["Krone", "Kroner"]
+  },
+  { code: "NPR", numeric: "524", name: "Nepalese Rupee", minorUnits: 2, countries: ["NP"], symbols: ["Rs", "Rs."], aliases: ["Rupee"] },
+  {
+    code: "NZD",
+    numeric: "554",
+    name: "New Zealand Dollar",
+    minorUnits: 2,
+    countries: ["NZ", "CK", "NU", "PN", "TK"],
+    symbols: ["$", "NZ$"],
+    aliases: ["Dollar"]
+  },
+  { code: "OMR", numeric: "512", name: "Rial Omani", minorUnits: 3, countries: ["OM"], aliases: ["Omani Rial"] },
+  { code: "PAB", numeric: "590", name: "Balboa", minorUnits: 2, countries: ["PA"], symbols: ["B/."] },
+  { code: "PEN", numeric: "604", name: "Sol", minorUnits: 2, countries: ["PE"], symbols: ["S/", "S/."], aliases: ["Peruvian Sol", "Nuevo Sol"] },
+  { code: "PGK", numeric: "598", name: "Kina", minorUnits: 2, countries: ["PG"] },
+  { code: "PHP", numeric: "608", name: "Philippine Peso", minorUnits: 2, countries: ["PH"], symbols: ["₱"], aliases: ["Peso"] },
+  { code: "PKR", numeric: "586", name: "Pakistan Rupee", minorUnits: 2, countries: ["PK"], symbols: ["Rs", "Rs."], aliases: ["Rupee"] },
+  { code: "PLN", numeric: "985", name: "Zloty", minorUnits: 2, countries: ["PL"], symbols: ["zł"], aliases: ["Złoty", "Polish Zloty"] },
+  { code: "PYG", numeric: "600", name: "Guarani", minorUnits: 0, countries: ["PY"], symbols: ["₲"] },
+  { code: "QAR", numeric: "634", name: "Qatari Rial", minorUnits: 2, countries: ["QA"], symbols: ["QR"] },
+  { code: "RON", numeric: "946", name: "Romanian Leu", minorUnits: 2, countries: ["RO"], symbols: ["lei"], aliases: ["Leu"] },
+  { code: "RSD", numeric: "941", name: "Serbian Dinar", minorUnits: 2, countries: ["RS"], symbols: ["din."] },
+  { code: "RUB", numeric: "643", name: "Russian Ruble", minorUnits: 2, countries: ["RU"], symbols: ["₽", "руб."], aliases: ["Ruble", "Rouble"] },
+  { code: "RWF", numeric: "646", name: "Rwanda Franc", minorUnits: 0, countries: ["RW"], symbols: ["FRw"] },
+  { code: "SAR", numeric: "682", name: "Saudi Riyal", minorUnits: 2, countries: ["SA"], symbols: ["SR"], aliases: ["Riyal"] },
+  { code: "SBD", numeric: "090", name: "Solomon Islands Dollar", minorUnits: 2, countries: ["SB"], symbols: ["SI$"] },
+  { code: "SCR", numeric: "690", name: "Seychelles Rupee", minorUnits: 2, countries: ["SC"] },
+  { code: "SDG", numeric: "938", name: "Sudanese Pound", minorUnits: 2, countries: ["SD"] },
+  {
+    code: "SEK",
+    numeric: "752",
+    name: "Swedish Krona",
+    minorUnits: 2,
+    countries: ["SE"],
+    symbols: ["kr", "Skr"],
+    aliases: ["Krona", "Kronor"]
+  },
+  { code: "SGD", numeric: "702", name: "Singapore Dollar", minorUnits: 2, countries: ["SG"], symbols: ["S$"] },
+  { code: "SHP", numeric: "654", name: "Saint Helena Pound", minorUnits: 2, countries: ["SH"] },
+  { code: "SLE", numeric: "925", name: "Leone", minorUnits: 2, countries: ["SL"], aliases: ["SLL"] },
+  { code: "SOS", numeric: "706", name: "Somali Shilling", minorUnits: 2, countries: ["SO"], symbols: ["Sh.So."] },
+  { code: "SRD", numeric: "968", name: "Surinam Dollar", minorUnits: 2, countries: ["SR"] },
+  { code: "SSP", numeric: "728", name: "South Sudanese Pound", minorUnits: 2, countries: ["SS"] },
+  { code: "STN", numeric: "930", name: "Dobra", minorUnits: 2, countries: ["ST"], symbols: ["Db"], aliases: ["STD"] },
+  { code: "SVC", numeric: "222", name: "El Salvador Colon", minorUnits: 2, countries: ["SV"] },
+  { code: "SYP", numeric: "760", name: "Syrian Pound", minorUnits: 2, countries: ["SY"] },
+  { code: "SZL", numeric: "748", name: "Lilangeni", minorUnits: 2, countries: ["SZ"] },
+  { code: "THB", numeric: "764", name: "Baht", minorUnits: 2, countries: ["TH"], symbols: ["฿"], aliases: ["Thai Baht"] },
+  { code: "TJS", numeric: "972", name: "Somoni", minorUnits: 2, countries: ["TJ"] },
+  { code: "TMT", numeric: "934", name: "Turkmenistan New Manat", minorUnits: 2, countries: ["TM"] },
+  { code: "TND", numeric: "788", name: "Tunisian Dinar", minorUnits: 3, countries: ["TN"], symbols: ["DT"] },
+  { code: "TOP", numeric: "776", name: "Pa'anga", minorUnits: 2, countries: ["TO"], symbols: ["T$"] },
+  { code: "TRY", numeric: "949", name: "Turkish Lira", minorUnits: 2, countries: ["TR"], symbols: ["₺", "TL"], aliases: ["Lira"] },
+  { code: "TTD", numeric: "780", name: "Trinidad and Tobago Dollar", minorUnits: 2, countries: ["TT"], symbols: ["TT$"] },
+  { code: "TWD", numeric: "901", name: "New Taiwan Dollar", minorUnits: 2, countries: ["TW"], symbols: ["NT$"] },
+  { code: "TZS", numeric: "834", name: "Tanzanian Shilling", minorUnits: 2, countries: ["TZ"], symbols: ["TSh"] },
+  { code: "UAH", numeric: "980", name: "Hryvnia", minorUnits: 2, countries: ["UA"], symbols: ["₴"], aliases: ["Hryvnya"] },
+  { code: "UGX", numeric: "800", name: "Uganda Shilling", minorUnits: 0, countries: ["UG"], symbols: ["USh"] },
+  {
+    code: "USD",
+    numeric: "840",
+    name: "US Dollar",
+    minorUnits: 2,
+    countries: [
+      "US", "AS", "BQ", "EC", "FM", "GU", "IO", "MH", "MP", "PA", "PR", "PW", "SV", "TC", "TL", "UM", "VG", "VI"
+    ],
+    symbols: ["$", "US$", "U$S"],
+    aliases: ["United States Dollar", "American Dollar", "Dollar", "Bucks"]
+  },
+  { code: "UYU", numeric: "858", name: "Peso Uruguayo", minorUnits: 2, countries: ["UY"], symbols: ["$U"], aliases: ["Uruguayan Peso"] },
+  { code: "UZS", numeric: "860", name: "Uzbekistan Sum", minorUnits: 2, countries: ["UZ"] },
+  { code: "VES", numeric: "928", name: "Bolívar Soberano", minorUnits: 2, countries: ["VE"], symbols: ["Bs.S"], aliases: ["Bolívar", "VEF"] },
+  { code: "VND", numeric: "704", name: "Dong", minorUnits: 0, countries: ["VN"], symbols: ["₫"], aliases: ["Vietnamese Dong"] },
+  { code: "VUV", numeric: "548", name: "Vatu", minorUnits: 0, countries: ["VU"], symbols: ["VT"] },
+  { code: "WST", numeric: "882", name: "Tala", minorUnits: 2, countries: ["WS"], symbols: ["WS$"] },
+  {
+    code: "XAF",
+    numeric: "950",
+    name: "CFA Franc BEAC",
+    minorUnits: 0,
+    countries: ["CF", "CG", "CM", "GA", "GQ", "TD"],
+    symbols: ["FCFA"],
+    aliases: ["Franc"]
+  },
+  {
+    code: "XCD",
+    numeric: "951",
+    name: "East Caribbean Dollar",
+    minorUnits: 2,
+    countries: ["AG", "AI", "DM", "GD", "KN", "LC", "MS", "VC"],
+    symbols: ["EC$"]
+  },
+  {
+    code: "XCG",
+    numeric: "532",
+    name: "Caribbean Guilder",
+    minorUnits: 2,
+    countries: ["CW", "SX"],
+    aliases: ["Netherlands Antillean Guilder", "ANG"]
+  },
+  {
+    code: "XOF",
+    numeric: "952",
+    name: "CFA Franc BCEAO",
+    minorUnits: 0,
+    countries: ["BF", "BJ", "CI", "GW", "ML", "NE", "SN", "TG"],
+    symbols: ["CFA"],
+    aliases: ["Franc"]
+  },
+  { code: "XPF", numeric: "953", name: "CFP Franc", minorUnits: 0, countries: ["NC", "PF", "WF"], symbols: ["₣"] },
+  { code: "YER", numeric: "886", name: "Yemeni Rial", minorUnits: 2, countries: ["YE"] },
+  { code: "ZAR", numeric: "710", name: "Rand", minorUnits: 2, countries: ["ZA", "LS", "NA"], symbols: ["R"], aliases: ["South African Rand"] },
+  { code: "ZMW", numeric: "967", name: "Zambian Kwacha", minorUnits: 2, countries: ["ZM"], symbols: ["ZK"], aliases: ["Kwacha"] },
+  { code: "ZWG", numeric: "924", name: "Zimbabwe Gold", minorUnits: 2, countries: ["ZW"], aliases: ["ZiG"] }
+];
+
+/** A resolved currency, or the currencies an ambiguous symbol or name could mean. */
+export type CurrencyMatch = { currency: Currency } | { candidates: Currency[] };
+
+const CURRENCY_BY_CODE = new Map<string, Currency>();
+for (const currency of CURRENCIES) {
+  CURRENCY_BY_CODE.set(currency.code, currency);
+  CURRENCY_BY_CODE.set(currency.numeric, currency);
+}
+const CURRENCY_INDEX = new Map<string, Currency[]>();
+for (const currency of CURRENCIES) {
+  const spellings = [currency.name, ...(currency.symbols ?? []), ...(currency.aliases ?? [])];
+  // Symbols such as "$" and "£" fold to nothing, so they are indexed as written.
+  for (const key of new Set(spellings.flatMap((spelling) => [spelling.toLowerCase(), referenceKey(spelling)]))) {
+    if (!key) continue;
+    const existing = CURRENCY_INDEX.get(key);
+    if (existing) {
+      existing.push(currency);
+    } else {
+      CURRENCY_INDEX.set(key, [currency]);
+    }
+  }
+}
+
+/**
+ * Resolves an ISO 4217 code, symbol or name ("€", "US$", "dollars", "Swiss
+ * francs") to a currency. Symbols and names several currencies share ("$",
+ * "kr", "¥", "peso") go to the currency of `locale`'s region; without a
+ * match the candidates are returned. Null when nothing matches.
+ */
+export function lookupCurrency(value: string, locale = "en-US"): CurrencyMatch | null {
+  const text = value.trim();
+  const byCode = CURRENCY_BY_CODE.get(text.toUpperCase());
+  if (byCode) {
+    return { currency: byCode };
+  }
+  const key = referenceKey(text);
+  const candidates =
+    CURRENCY_INDEX.get(text.toLowerCase()) ??
+    CURRENCY_INDEX.get(key) ??
+    (key.endsWith("s") ? CURRENCY_INDEX.get(key.slice(0, -1)) : undefined);
+  if (!candidates) {
+    return null;
+  }
+  if (candidates.length === 1) {
+    return { currency: candidates[0] };
+  }
+  const region = localeRegion(locale);
+  const local = candidates.find((currency) => region && currency.countries.includes(region));
+  return local ? { currency: local } : { candidates };
+}
+
+function localeRegion(locale: string): string | undefined {
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+}
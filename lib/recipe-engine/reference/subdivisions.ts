@@ -0,0 +1,513 @@
+import { referenceKey } from "./countries";
+
+/** A first-level ISO 3166-2 subdivision; `code` is the part after the country prefix ("NSW" for AU-NSW). */
+export type Subdivision = {
+  code: string;
+  /** Name as listed by ISO 3166-2, usually in the local language. */
+  name: string;
+  /** English names, other local spellings, postal abbreviations and retired codes. */
+  aliases?: string[];
+};
+
+/**
+ * First-level subdivisions keyed by ISO 3166-1 alpha-2 country code. Only the
+ * countries below are bundled; iso_state reports states of any other country
+ * as unsupported_subdivision_country rather than passing them through.
+ */
+export const SUBDIVISIONS: Record<string, Subdivision[]> = {
+  AR: [
+    { code: "C", name: "Ciudad Autónoma de Buenos Aires", aliases: ["CABA", "Capital Federal"] },
+    { code: "B", name: "Buenos Aires" },
+    { code: "K", name: "Catamarca" },
+    { code: "H", name: "Chaco" },
+    { code: "U", name: "Chubut" },
+    { code: "X", name: "Córdoba" },
+    { code: "W", name: "Corrientes" },
+    { code: "E", name: "Entre Ríos" },
+    { code: "P", name: "Formosa" },
+    { code: "Y", name: "Jujuy" },
+    { code: "L", name: "La Pampa" },
+    { code: "F", name: "La Rioja" },
+    { code: "M", name: "Mendoza" },
+    { code: "N", name: "Misiones" },
+    { code: "Q", name: "Neuquén" },
+    { code: "R", name: "Río Negro" },
+    { code: "A", name: "Salta" },
+    { code: "J", name: "San Juan" },
+    { code: "D", name: "San Luis" },
+    { code: "Z", name: "Santa Cruz" },
+    { code: "S", name: "Santa Fe" },
+    { code: "G", name: "Santiago del Estero" },
+    { code: "V", name: "Tierra del Fuego" },
+    { code: "T", name: "Tucumán" }
+  ],
+  AT: [
+    { code: "1", name: "Burgenland" },
+    { code: "2", name: "Kärnten", aliases: ["Carinthia"] },
+    { code: "3", name: "Niederösterreich", aliases: ["Lower Austria"] },
+    { code: "4", name: "Oberösterreich", aliases: ["Upper Austria"] },
+    { code: "5", name: "Salzburg" },
+    { code: "6", name: "Steiermark", aliases: ["Styria"] },
+    { code: "7", name: "Tirol", aliases: ["Tyrol"] },
+    { code: "8", name: "Vorarlberg" },
+    { code: "9", name: "Wien", aliases: ["Vienna"] }
+  ],
+  AU: [
+    { code: "ACT", name: "Australian Capital Territory" },
+    { code: "NSW", name: "New South Wales" },
+    { code: "NT", name: "Northern Territory" },
+    { code: "QLD", name: "Queensland" },
+    { code: "SA", name: "South Australia" },
+    { code: "TAS", name: "Tasmania" },
+    { code: "VIC", name: "Victoria" },
+    { code: "WA", name: "Western Australia" }
+  ],
+  BR: [
+    { code: "AC", name: "Acre" },
+    { code: "AL", name: "Alagoas" },
+    { code: "AP", name: "Amapá" },
+    { code: "AM", name: "Amazonas" },
+    { code: "BA", name: "Bahia" },
+    { code: "CE", name: "Ceará" },
+    { code: "DF", name: "Distrito Federal", aliases: ["Federal District"] },
+    { code: "ES", name: "Espírito Santo" },
+    { code: "GO", name: "Goiás" },
+    { code: "MA", name: "Maranhão" },
+    { code: "MT", name: "Mato Grosso" },
+    { code: "MS", name: "Mato Grosso do Sul" },
+    { code: "MG", name: "Minas Gerais" },
+    { code: "PA", name: "Pará" },
+    { code: "PB", name: "Paraíba" },
+    { code: "PR", name: "Paraná" },
+    { code: "PE", name: "Pernambuco" },
+    { code: "PI", name: "Piauí" },
+    { code: "RJ", name: "Rio de Janeiro" },
+    { code: "RN", name: "Rio Grande do Norte" },
+    { code: "RS", name: "Rio Grande do Sul" },
+    { code: "RO", name: "Rondônia" },
+    { code: "RR", name: "Roraima" },
+    { code: "SC", name: "Santa Catarina" },
+    { code: "SP", name: "São Paulo" },
+    { code: "SE", name: "Sergipe" },
+    { code: "TO", name: "Tocantins" }
+  ],
+  CA: [
+    { code: "AB", name: "Alberta", aliases: ["Alta"] },
+    { code: "BC", name: "British Columbia", aliases: ["Colombie-Britannique"] },
+    { code: "MB", name: "Manitoba", aliases: ["Man"] },
+    { code: "NB", name: "New Brunswick", aliases: ["Nouveau-Brunswick"] },
+    { code: "NL", name: "Newfoundland and Labrador", aliases: ["Terre-Neuve-et-Labrador", "Newfoundland", "Nfld", "NF"] },
+    { code: "NS", name: "Nova Scotia", aliases: ["Nouvelle-Écosse"] },
+    { code: "NT", name: "Northwest Territories", aliases: ["Territoires du Nord-Ouest", "NWT"] },
+    { code: "NU", name: "Nunavut" },
+    { code: "ON", name: "Ontario", aliases: ["Ont"] },
+    { code: "PE", name: "Prince Edward Island", aliases: ["Île-du-Prince-Édouard", "PEI"] },
+    { code: "QC", name: "Quebec", aliases: ["Québec", "Que", "PQ"] },
+    { code: "SK", name: "Saskatchewan", aliases: ["Sask"] },
+    { code: "YT", name: "Yukon", aliases: ["Yukon Territory"] }
+  ],
+  CH: [
+    { code: "AG", name: "Aargau", aliases: ["Argovie"] },
+    { code: "AR", name: "Appenzell Ausserrhoden" },
+    { code: "AI", name: "Appenzell Innerrhoden" },
+    { code: "BL", name: "Basel-Landschaft" },
+    { code: "BS", name: "Basel-Stadt" },
+    { code: "BE", name: "Bern", aliases: ["Berne"] },
+    { code: "FR", name: "Fribourg", aliases: ["Freiburg"] },
+    { code: "GE", name: "Genève", aliases: ["Geneva", "Genf"] },
+    { code: "GL", name: "Glarus" },
+    { code: "GR", name: "Graubünden", aliases: ["Grisons", "Grigioni"] },
+    { code: "JU", name: "Jura" },
+    { code: "LU", name: "Luzern", aliases: ["Lucerne"] },
+    { code: "NE", name: "Neuchâtel" },
+    { code: "NW", name: "Nidwalden" },
+    { code: "OW", name: "Obwalden" },
+    { code: "SG", name: "Sankt Gallen", aliases: ["St. Gallen"] },
+    { code: "SH", name: "Schaffhausen" },
+    { code: "SZ", name: "Schwyz" },
+    { code: "SO", name: "Solothurn" },
+    { code: "TG", name: "Thurgau" },
+    { code: "TI", name: "Ticino", aliases: ["Tessin"] },
+    { code: "UR", name: "Uri" },
+    { code: "VS", name: "Valais", aliases: ["Wallis"] },
+    { code: "VD", name: "Vaud", aliases: ["Waadt"] },
+    { code: "ZG", name: "Zug" },
+    { code: "ZH", name: "Zürich", aliases: ["Zurich"] }
+  ],
+  CN: [
+    { code: "AH", name: "Anhui", aliases: ["安徽"] },
+    { code: "BJ", name: "Beijing", aliases: ["北京", "Peking"] },
+    { code: "CQ", name: "Chongqing", aliases: ["重庆"] },
+    { code: "FJ", name: "Fujian", aliases: ["福建"] },
+    { code: "GD", name: "Guangdong", aliases: ["广东"] },
+    { code: "GS", name: "Gansu", aliases: ["甘肃"] },
+    { code: "GX", name: "Guangxi", aliases: ["广西"] },
+    { code: "GZ", name: "Guizhou", aliases: ["贵州"] },
+    { code: "HA", name: "Henan", aliases: ["河南"] },
+    { code: "HB", name: "Hubei", aliases: ["湖北"] },
+    { code: "HE", name: "Hebei", aliases: ["河北"] },
+    { code: "HI", name: "Hainan", aliases: ["海南"] },
+    { code: "HK", name: "Hong Kong", aliases: ["Xianggang", "香港"] },
+    { code: "HL", name: "Heilongjiang", aliases: ["黑龙江"] },
+    { code: "HN", name: "Hunan", aliases: ["湖南"] },
+    { code: "JL", name: "Jilin", aliases: ["吉林"] },
+    { code: "JS", name: "Jiangsu", aliases: ["江苏"] },
+    { code: "JX", name: "Jiangxi", aliases: ["江西"] },
+    { code: "LN", name: "Liaoning", aliases: ["辽宁"] },
+    { code: "MO", name: "Macao", aliases: ["Macau", "Aomen", "澳门"] },
+    { code: "NM", name: "Nei Mongol", aliases: ["Inner Mongolia", "内蒙古"] },
+    { code: "NX", name: "Ningxia", aliases: ["宁夏"] },
+    { code: "QH", name: "Qinghai", aliases: ["青海"] },
+    { code: "SC", name: "Sichuan", aliases: ["四川"] },
+    { code: "SD", name: "Shandong", aliases: ["山东"] },
+    { code: "SH", name: "Shanghai", aliases: ["上海"] },
+    { code: "SN", name: "Shaanxi", aliases: ["陕西"] },
+    { code: "SX", name: "Shanxi", aliases: ["山西"] },
+    { code: "TJ", name: "Tianjin", aliases: ["天津"] },
+    { code: "TW", name: "Taiwan", aliases: ["台湾"] },
+    { code: "XJ", name: "Xinjiang", aliases: ["新疆"] },
+    { code: "XZ", name: "Xizang", aliases: ["Tibet", "西藏"] },
+    { code: "YN", name: "Yunnan", aliases: ["云南"] },
+    { code: "ZJ", name: "Zhejiang", aliases: ["浙江"] }
+  ],
+  DE: [
+    { code: "BW", name: "Baden-Württemberg" },
+    { code: "BY", name: "Bayern", aliases: ["Bavaria"] },
+    { code: "BE", name: "Berlin" },
+    { code: "BB", name: "Brandenburg" },
+    { code: "HB", name: "Bremen" },
+    { code: "HH", name: "Hamburg" },
+    { code: "HE", name: "Hessen", aliases: ["Hesse"] },
+    { code: "MV", name: "Mecklenburg-Vorpommern", aliases: ["Mecklenburg-Western Pomerania"] },
+    { code: "NI", name: "Niedersachsen", aliases: ["Lower Saxony"] },
+    { code: "NW", name: "Nordrhein-Westfalen", aliases: ["North Rhine-Westphalia", "NRW"] },
+    { code: "RP", name: "Rheinland-Pfalz", aliases: ["Rhineland-Palatinate"] },
+    { code: "SL", name: "Saarland" },
+    { code: "SN", name: "Sachsen", aliases: ["Saxony"] },
+    { code: "ST", name: "Sachsen-Anhalt", aliases: ["Saxony-Anhalt"] },
+    { code: "SH", name: "Schleswig-Holstein" },
+    { code: "TH", name: "Thüringen", aliases: ["Thuringia"] }
+  ],
+  ES: [
+    { code: "AN", name: "Andalucía", aliases: ["Andalusia"] },
+    { code: "AR", name: "Aragón" },
+    { code: "AS", name: "Asturias", aliases: ["Principado de Asturias"] },
+    { code: "CB", name: "Cantabria" },
+    { code: "CE", name: "Ceuta" },
+    { code: "CL", name: "Castilla y León", aliases: ["Castile and León"] },
+    { code: "CM", name: "Castilla-La Mancha", aliases: ["Castile-La Mancha"] },
+    { code: "CN", name: "Canarias", aliases: ["Canary Islands", "Islas Canarias"] },
+    { code: "CT", name: "Catalunya", aliases: ["Cataluña", "Catalonia"] },
+    { code: "EX", name: "Extremadura" },
+    { code: "GA", name: "Galicia" },
+    { code: "IB", name: "Illes Balears", aliases: ["Islas Baleares", "Balearic Islands"] },
+    { code: "MC", name: "Murcia", aliases: ["Región de Murcia"] },
+    { code: "MD", name: "Madrid", aliases: ["Comunidad de Madrid"] },
+    { code: "ML", name: "Melilla" },
+    { code: "NC", name: "Navarra", aliases: ["Nafarroa", "Navarre"] },
+    { code: "PV", name: "País Vasco", aliases: ["Euskadi", "Basque Country"] },
+    { code: "RI", name: "La Rioja" },
+    { code: "VC", name: "Comunitat Valenciana", aliases: ["Comunidad Valenciana", "Valencian Community"] }
+  ],
+  FR: [
+    { code: "ARA", name: "Auvergne-Rhône-Alpes" },
+    { code: "BFC", name: "Bourgogne-Franche-Comté", aliases: ["Burgundy-Franche-Comté"] },
+    { code: "BRE", name: "Bretagne", aliases: ["Brittany"] },
+    { code: "CVL", name: "Centre-Val de Loire" },
+    { code: "20R", name: "Corse", aliases: ["Corsica"] },
+    { code: "GES", name: "Grand Est" },
+    { code: "HDF", name: "Hauts-de-France" },
+    { code: "IDF", name: "Île-de-France" },
+    { code: "NOR", name: "Normandie", aliases: ["Normandy"] },
+    { code: "NAQ", name: "Nouvelle-Aquitaine" },
+    { code: "OCC", name: "Occitanie", aliases: ["Occitania"] },
+    { code: "PDL", name: "Pays de la Loire" },
+    { code: "PAC", name: "Provence-Alpes-Côte d'Azur", aliases: ["PACA"] },
+    { code: "971", name: "Guadeloupe" },
+    { code: "972", name: "Martinique" },
+    { code: "973", name: "Guyane", aliases: ["French Guiana"] },
+    { code: "974", name: "La Réunion", aliases: ["Réunion"] },
+    { code: "976", name: "Mayotte" }
+  ],
+  GB: [
+    { code: "ENG", name: "England" },
+    { code: "NIR", name: "Northern Ireland" },
+    { code: "SCT", name: "Scotland", aliases: ["Alba"] },
+    { code: "WLS", name: "Wales", aliases: ["Cymru"] }
+  ],
+  IN: [
+    { code: "AN", name: "Andaman and Nicobar Islands" },
+    { code: "AP", name: "Andhra Pradesh" },
+    { code: "AR", name: "Arunachal Pradesh" },
+    { code: "AS", name: "Assam" },
+    { code: "BR", name: "Bihar" },
+    { code: "CH", name: "Chandigarh" },
+    { code: "CG", name: "Chhattisgarh", aliases: ["CT"] },
+    { code: "DH", name: "Dadra and Nagar Haveli and Daman and Diu" },
+    { code: "DL", name: "Delhi", aliases: ["National Capital Territory of Delhi"] },
+    { code: "GA", name: "Goa" },
+    { code: "GJ", name: "Gujarat" },
+    { code: "HP", name: "Himachal Pradesh" },
+    { code: "HR", name: "Haryana" },
+    { code: "JH", name: "Jharkhand" },
+    { code: "JK", name: "Jammu and Kashmir" },
+    { code: "KA", name: "Karnataka" },
+    { code: "KL", name: "Kerala" },
+    { code: "LA", name: "Ladakh" },
+    { code: "LD", name: "Lakshadweep" },
+    { code: "MH", name: "Maharashtra" },
+    { code: "ML", name: "Meghalaya" },
+    { code: "MN", name: "Manipur" },
+    { code: "MP", name: "Madhya Pradesh" },
+    { code: "MZ", name: "Mizoram" },
+    { code: "NL", name: "Nagaland" },
+    { code: "OD", name: "Odisha", aliases: ["Orissa", "OR"] },
+    { code: "PB", name: "Punjab" },
+    { code: "PY", name: "Puducherry", aliases: ["Pondicherry"] },
+    { code: "RJ", name: "Rajasthan" },
+    { code: "SK", name: "Sikkim" },
+    { code: "TN", name: "Tamil Nadu" },
+    { code: "TR", name: "Tripura" },
+    { code: "TS", name: "Telangana", aliases: ["TG"] },
+    { code: "UK", name: "Uttarakhand", aliases: ["Uttaranchal", "UT"] },
+    { code: "UP", name: "Uttar Pradesh" },
+    { code: "WB", name: "West Bengal" }
+  ],
+  IT: [
+    { code: "21", name: "Piemonte", aliases: ["Piedmont"] },
+    { code: "23", name: "Valle d'Aosta", aliases: ["Aosta Valley", "Vallée d'Aoste"] },
+    { code: "25", name: "Lombardia", aliases: ["Lombardy"] },
+    { code: "32", name: "Trentino-Alto Adige", aliases: ["Trentino-South Tyrol", "Trentino-Südtirol"] },
+    { code: "34", name: "Veneto" },
+    { code: "36", name: "Friuli Venezia Giulia" },
+    { code: "42", name: "Liguria" },
+    { code: "45", name: "Emilia-Romagna" },
+    { code: "52", name: "Toscana", aliases: ["Tuscany"] },
+    { code: "55", name: "Umbria" },
+    { code: "57", name: "Marche", aliases: ["The Marches"] },
+    { code: "62", name: "Lazio", aliases: ["Latium"] },
+    { code: "65", name: "Abruzzo" },
+    { code: "67", name: "Molise" },
+    { code: "72", name: "Campania" },
+    { code: "75", name: "Puglia", aliases: ["Apulia"] },
+    { code: "77", name: "Basilicata" },
+    { code: "78", name: "Calabria" },
+    { code: "82", name: "Sicilia", aliases: ["Sicily"] },
+    { code: "88", name: "Sardegna", aliases: ["Sardinia"] }
+  ],
+  JP: [
+    { code: "01", name: "Hokkaidō", aliases: ["北海道"] },
+    { code: "02", name: "Aomori", aliases: ["青森県"] },
+    { code: "03", name: "Iwate", aliases: ["岩手県"] },
+    { code: "04", name: "Miyagi", aliases: ["宮城県"] },
+    { code: "05", name: "Akita", aliases: ["秋田県"] },
+    { code: "06", name: "Yamagata", aliases: ["山形県"] },
+    { code: "07", name: "Fukushima", aliases: ["福島県"] },
+    { code: "08", name: "Ibaraki", aliases: ["茨城県"] },
+    { code: "09", name: "Tochigi", aliases: ["栃木県"] },
+    { code: "10", name: "Gunma", aliases: ["群馬県"] },
+    { code: "11", name: "Saitama", aliases: ["埼玉県"] },
+    { code: "12", name: "Chiba", aliases: ["千葉県"] },
+    { code: "13", name: "Tōkyō", aliases: ["東京都"] },
+    { code: "14", name: "Kanagawa", aliases: ["神奈川県"] },
+    { code: "15", name: "Niigata", aliases: ["新潟県"] },
+    { code: "16", name: "Toyama", aliases: ["富山県"] },
+    { code: "17", name: "Ishikawa", aliases: ["石川県"] },
+    { code: "18", name: "Fukui", aliases: ["福井県"] },
+    { code: "19", name: "Yamanashi", aliases: ["山梨県"] },
+    { code: "20", name: "Nagano", aliases: ["長野県"] },
+    { code: "21", name: "Gifu", aliases: ["岐阜県"] },
+    { code: "22", name: "Shizuoka", aliases: ["静岡県"] },
+    { code: "23", name: "Aichi", aliases: ["愛知県"] },
+    { code: "24", name: "Mie", aliases: ["三重県"] },
+    { code: "25", name: "Shiga", aliases: ["滋賀県"] },
+    { code: "26", name: "Kyōto", aliases: ["京都府"] },
+    { code: "27", name: "Ōsaka", aliases: ["大阪府"] },
+    { code: "28", name: "Hyōgo", aliases: ["兵庫県"] },
+    { code: "29", name: "Nara", aliases: ["奈良県"] },
+    { code: "30", name: "Wakayama", aliases: ["和歌山県"] },
+    { code: "31", name: "Tottori", aliases: ["鳥取県"] },
+    { code: "32", name: "Shimane", aliases: ["島根県"] },
+    { code: "33", name: "Okayama", aliases: ["岡山県"] },
+    { code: "34", name: "Hiroshima", aliases: ["広島県"] },
+    { code: "35", name: "Yamaguchi", aliases: ["山口県"] },
+    { code: "36", name: "Tokushima", aliases: ["徳島県"] },
+    { code: "37", name: "Kagawa", aliases: ["香川県"] },
+    { code: "38", name: "Ehime", aliases: ["愛媛県"] },
+    { code: "39", name: "Kōchi", aliases: ["高知県"] },
+    { code: "40", name: "Fukuoka", aliases: ["福岡県"] },
+    { code: "41", name: "Saga", aliases: ["佐賀県"] },
+    { code: "42", name: "Nagasaki", aliases: ["長崎県"] },
+    { code: "43", name: "Kumamoto", aliases: ["熊本県"] },
+    { code: "44", name: "Ōita", aliases: ["大分県"] },
+    { code: "45", name: "Miyazaki", aliases: ["宮崎県"] },
+    { code: "46", name: "Kagoshima", aliases: ["鹿児島県"] },
+    { code: "47", name: "Okinawa", aliases: ["沖縄県"] }
+  ],
+  MX: [
+    { code: "AGU", name: "Aguascalientes" },
+    { code: "BCN", name: "Baja California" },
+    { code: "BCS", name: "Baja California Sur" },
+    { code: "CAM", name: "Campeche" },
+    { code: "CHH", name: "Chihuahua" },
+    { code: "CHP", name: "Chiapas" },
+    { code: "CMX", name: "Ciudad de México", aliases: ["Mexico City", "CDMX", "Distrito Federal", "DF"] },
+    { code: "COA", name: "Coahuila de Zaragoza", aliases: ["Coahuila"] },
+    { code: "COL", name: "Colima" },
+    { code: "DUR", name: "Durango" },
+    { code: "GRO", name: "Guerrero" },
+    { code: "GUA", name: "Guanajuato" },
+    { code: "HID", name: "Hidalgo" },
+    { code: "JAL", name: "Jalisco" },
+    { code: "MEX", name: "México", aliases: ["Estado de México", "State of Mexico"] },
+    { code: "MIC", name: "Michoacán de Ocampo", aliases: ["Michoacán"] },
+    { code: "MOR", name: "Morelos" },
+    { code: "NAY", name: "Nayarit" },
+    { code: "NLE", name: "Nuevo León" },
+    { code: "OAX", name: "Oaxaca" },
+    { code: "PUE", name: "Puebla" },
+    { code: "QUE", name: "Querétaro" },
+    { code: "ROO", name: "Quintana Roo" },
+    { code: "SIN", name: "Sinaloa" },
+    { code: "SLP", name: "San Luis Potosí" },
+    { code: "SON", name: "Sonora" },
+    { code: "TAB", name: "Tabasco" },
+    { code: "TAM", name: "Tamaulipas" },
+    { code: "TLA", name: "Tlaxcala" },
+    { code: "VER", name: "Veracruz de Ignacio de la Llave", aliases: ["Veracruz"] },
+    { code: "YUC", name: "Yucatán" },
+    { code: "ZAC", name: "Zacatecas" }
+  ],
+  NL: [
+    { code: "DR", name: "Drenthe" },
+    { code: "FL", name: "Flevoland" },
+    { code: "FR", name: "Fryslân", aliases: ["Friesland"] },
+    { code: "GE", name: "Gelderland" },
+    { code: "GR", name: "Groningen" },
+    { code: "LI", name: "Limburg" },
+    { code: "NB", name: "Noord-Brabant", aliases: ["North Brabant"] },
+    { code: "NH", name: "Noord-Holland", aliases: ["North Holland"] },
+    { code: "OV", name: "Overijssel" },
+    { code: "UT", name: "Utrecht" },
+    { code: "ZE", name: "Zeeland" },
+    { code: "ZH", name: "Zuid-Holland", aliases: ["South Holland"] }
+  ],
+  NZ: [
+    { code: "AUK", name: "Auckland" },
+    { code: "BOP", name: "Bay of Plenty" },
+    { code: "CAN", name: "Canterbury" },
+    { code: "CIT", name: "Chatham Islands Territory", aliases: ["Chatham Islands"] },
+    { code: "GIS", name: "Gisborne" },
+    { code: "HKB", name: "Hawke's Bay" },
+    { code: "MBH", name: "Marlborough" },
+    { code: "MWT", name: "Manawatū-Whanganui" },
+    { code: "NSN", name: "Nelson" },
+    { code: "NTL", name: "Northland" },
+    { code: "OTA", name: "Otago" },
+    { code: "STL", name: "Southland" },
+    { code: "TAS", name: "Tasman" },
+    { code: "TKI", name: "Taranaki" },
+    { code: "WGN", name: "Greater Wellington", aliases: ["Wellington"] },
+    { code: "WKO", name: "Waikato" },
+    { code: "WTC", name: "West Coast" }
+  ],
+  US: [
+    { code: "AL", name: "Alabama", aliases: ["Ala"] },
+    { code: "AK", name: "Alaska" },
+    { code: "AZ", name: "Arizona", aliases: ["Ariz"] },
+    { code: "AR", name: "Arkansas", aliases: ["Ark"] },
+    { code: "CA", name: "California", aliases: ["Calif", "Cal"] },
+    { code: "CO", name: "Colorado", aliases: ["Colo"] },
+    { code: "CT", name: "Connecticut", aliases: ["Conn"] },
+    { code: "DE", name: "Delaware", aliases: ["Del"] },
+    { code: "DC", name: "District of Columbia", aliases: ["Washington DC", "Washington, D.C."] },
+    { code: "FL", name: "Florida", aliases: ["Fla"] },
+    { code: "GA", name: "Georgia" },
+    { code: "HI", name: "Hawaii", aliases: ["Hawaiʻi"] },
+    { code: "ID", name: "Idaho" },
+    { code: "IL", name: "Illinois", aliases: ["Ill"] },
+    { code: "IN", name: "Indiana", aliases: ["Ind"] },
+    { code: "IA", name: "Iowa" },
+    { code: "KS", name: "Kansas", aliases: ["Kan"] },
+    { code: "KY", name: "Kentucky" },
+    { code: "LA", name: "Louisiana" },
+    { code: "ME", name: "Maine" },
+    { code: "MD", name: "Maryland" },
+    { code: "MA", name: "Massachusetts", aliases: ["Mass"] },
+    { code: "MI", name: "Michigan", aliases: ["Mich"] },
+    { code: "MN", name: "Minnesota", aliases: ["Minn"] },
+    { code: "MS", name: "Mississippi", aliases: ["Miss"] },
+    { code: "MO", name: "Missouri" },
+    { code: "MT", name: "Montana", aliases: ["Mont"] },
+    { code: "NE", name: "Nebraska", aliases: ["Neb"] },
+    { code: "NV", name: "Nevada", aliases: ["Nev"] },
+    { code: "NH", name: "New Hampshire" },
+    { code: "NJ", name: "New Jersey" },
+    { code: "NM", name: "New Mexico" },
+    { code: "NY", name: "New York" },
+    { code: "NC", name: "North Carolina" },
+    { code: "ND", name: "North Dakota" },
+    { code: "OH", name: "Ohio" },
+    { code: "OK", name: "Oklahoma", aliases: ["Okla"] },
+    { code: "OR", name: "Oregon", aliases: ["Ore"] },
+    { code: "PA", name: "Pennsylvania", aliases: ["Penn"] },
+    { code: "RI", name: "Rhode Island" },
+    { code: "SC", name: "South Carolina" },
+    { code: "SD", name: "South Dakota" },
+    { code: "TN", name: "Tennessee", aliases: ["Tenn"] },
+    { code: "TX", name: "Texas", aliases: ["Tex"] },
+    { code: "UT", name: "Utah" },
+    { code: "VT", name: "Vermont" },
+    { code: "VA", name: "Virginia" },
+    { code: "WA", name: "Washington", aliases: ["Wash"] },
+    { code: "WV", name: "West Virginia" },
+    { code: "WI", name: "Wisconsin", aliases: ["Wis"] },
+    { code: "WY", name: "Wyoming" },
+    { code: "AS", name: "American Samoa" },
+    { code: "GU", name: "Guam" },
+    { code: "MP", name: "Northern Mariana Islands" },
+    { code: "PR", name: "Puerto Rico" },
+    { code: "UM", name: "United States Minor Outlying Islands" },
+    { code: "VI", name: "Virgin Islands, U.S.", aliases: ["U.S. Virgin Islands", "US Virgin Islands"] }
+  ],
+  ZA: [
+    { code: "EC", name: "Eastern Cape" },
+    { code: "FS", name: "Free State" },
+    { code: "GP", name: "Gauteng" },
+    { code: "KZN", name: "KwaZulu-Natal", aliases: ["NL"] },
+    { code: "LP", name: "Limpopo" },
+    { code: "MP", name: "Mpumalanga" },
+    { code: "NC", name: "Northern Cape" },
+    { code: "NW", name: "North West" },
+    { code: "WC", name: "Western Cape" }
+  ]
+};
+
+const SUBDIVISION_INDEX = new Map<string, Map<string, Subdivision>>(
+  Object.entries(SUBDIVISIONS).map(([country, subdivisions]) => {
+    const index = new Map<string, Subdivision>();
+    for (const subdivision of subdivisions) {
+      for (const spelling of [
+        subdivision.code,
+        `${country}-${subdivision.code}`,
+        subdivision.name,
+        ...(subdivision.aliases ?? [])
+      ]) {
+        index.set(referenceKey(spelling), subdivision);
+      }
+    }
+    return [country, index];
+  })
+);
+
+export function hasSubdivisions(country: string): boolean {
+  return SUBDIVISION_INDEX.has(country);
+}
+
+/**
+ * Resolves a subdivision code (with or without the country prefix), name or
+ * alias within `country` (an alpha-2 code); null when nothing matches.
+ */
+export function lookupSubdivision(country: string, value: string): Subdivision | null {
+  return SUBDIVISION_INDEX.get(country)?.get(referenceKey(value)) ?? null;
+}
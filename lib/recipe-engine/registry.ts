@@ -0,0 +1,100 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import type { DiffEntry, EngineOptions, RecipeError, RecipeRow } from "./index";
+import type { createLogger } from "@/lib/logging";
+
+export type StepContext = {
+  stepIndex: number;
+  options: EngineOptions;
+  logger: ReturnType<typeof createLogger>;
+};
+
+export type StepResult = {
+  rows: RecipeRow[];
+  errors?: RecipeError[];
+  diff?: DiffEntry[];
+  /**
+   * Input position each output row came from. Required for lineage when a step
+   * changes the number of rows; otherwise rows are assumed to keep their order.
+   */
+  origins?: number[];
+  /** Input positions of rows the step removed on purpose (e.g. by a filter), reported by previews. */
+  removed?: number[];
+  /** Output fields copied from a differently named input field (output -> input). */
+  fieldSources?: Record<string, string>;
+  /** Rows the step handed to write-back, summed into the run's `rowsWritten`. */
+  written?: number;
+};
+
+/**
+ * `row` steps treat every row independently, so streaming execution can feed
+ * them one chunk at a time. `table` steps need every row at once (uniqueness,
+ * dedupe) and make the stream buffer its input.
+ */
+export type StepScope = "row" | "table";
+
+/**
+ * A step type the engine can dispatch to. `preview` must be side-effect free;
+ * `execute` may talk to external systems (e.g. monday write-back).
+ */
+export type StepDefinition<TConfig = unknown> = {
+  type: string;
+  configSchema: ZodType<TConfig, ZodTypeDef, unknown>;
+  /** Defaults to `table` when omitted. */
+  scope?(config: TConfig): StepScope;
+  preview(rows: RecipeRow[], config: TConfig, context: StepContext): StepResult;
+  execute(rows: RecipeRow[], config: TConfig, context: StepContext): Promise<StepResult>;
+};
+
+/**
+ * Any step definition with its config type erased, for lists of mixed steps.
+ * Configs are only ever produced by `configSchema`, so the methods accept
+ * `never` and the schema yields `unknown`.
+ */
+export type AnyStepDefinition = {
+  type: string;
+  configSchema: ZodType<unknown, ZodTypeDef, unknown>;
+  scope?(config: never): StepScope;
+  preview(rows: RecipeRow[], config: never, context: StepContext): StepResult;
+  execute(rows: RecipeRow[], config: never, context: StepContext): Promise<StepResult>;
+};
+
+export type StepRegistry = {
+  register<TConfig>(definition: StepDefinition<TConfig>): void;
+  get(type: string): StepDefinition | undefined;
+  types(): string[];
+};
+
+export function createStepRegistry(definitions: AnyStepDefinition[] = []): StepRegistry {
+  const steps = new Map<string, StepDefinition>();
+
+  const registry: StepRegistry = {
+    register(definition) {
+      if (steps.has(definition.type)) {
+        throw new Error(`Recipe step "${definition.type}" is already registered`);
+      }
+      steps.set(definition.type, definition as StepDefinition);
+    },
+    get(type) {
+      return steps.get(type);
+    },
+    types() {
+      return Array.from(steps.keys());
+    }
+  };
+
+  definitions.forEach((definition) => registry.register(definition));
+  return registry;
+}
+
+/**
+ * Creates a registry seeded with every step from `base`, so tenants can layer
+ * custom steps on top of the built-ins without mutating the shared registry.
+ */
+export function extendStepRegistry(base: StepRegistry, definitions: AnyStepDefinition[]): StepRegistry {
+  const registry = createStepRegistry();
+  for (const type of base.types()) {
+    registry.register(base.get(type)!);
+  }
+  definitions.forEach((definition) => registry.register(definition));
+  return registry;
+}
@@ -0,0 +1,361 @@
+import { z } from "zod";
+import { parseExpression } from "./expression";
+import { migrateRecipe } from "./migrations";
+import { collectParameterRefs, placeholderValues, recipeParameterSchema, substituteParameters } from "./parameters";
+import { ExpressionError } from "@/lib/errors";
+import type {
+  BlockingConfig,
+  Condition,
+  DedupeStep,
+  DeriveStep,
+  ErrorPolicy,
+  FieldComparator,
+  FilterStep,
+  FormatStep,
+  IncludeStep,
+  MapColumnsStep,
+  RecipeDefinition,
+  RecipeStep,
+  SortStep,
+  SurvivorshipRule,
+  ValidateStep,
+  WriteBackStep
+} from "./index";
+
+const conditionValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const conditionSchema: z.ZodType<Condition> = z.lazy(() =>
+  z.union([
+    z.object({ field: z.string(), op: z.enum(["eq", "neq"]), value: conditionValueSchema }),
+    z.object({ field: z.string(), op: z.enum(["in", "not_in"]), values: z.array(conditionValueSchema) }),
+    z.object({ field: z.string(), op: z.enum(["gt", "gte", "lt", "lte"]), value: z.union([z.string(), z.number()]) }),
+    z.object({ field: z.string(), op: z.enum(["contains", "starts_with", "ends_with"]), value: z.string() }),
+    z
+      .object({ field: z.string(), op: z.literal("matches"), pattern: z.string(), flags: z.string().optional() })
+      .superRefine((condition, context) => {
+        // Flags can change what a pattern means (e.g. \p{L} needs "u"), so they are checked as a pair.
+        if (!isValidPattern(condition.pattern)) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Invalid regular expression" });
+        } else if (!isValidPattern(condition.pattern, condition.flags)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["flags"],
+            message: "Invalid regular expression flags"
+          });
+        }
+      }),
+    z.object({ field: z.string(), op: z.enum(["empty", "not_empty"]) }),
+    z.object({ all: z.array(conditionSchema) }),
+    z.object({ any: z.array(conditionSchema) }),
+    z.object({ not: conditionSchema })
+  ])
+);
+
+export const errorPolicySchema: z.ZodType<ErrorPolicy> = z.enum(["warn", "drop_row", "quarantine", "fail_run"]);
+
+function isSupportedTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidPattern(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const mapColumnsConfigSchema: z.ZodType<MapColumnsStep["config"]> = z.object({
+  mapping: z.record(z.string()),
+  dropUnknown: z.boolean().optional()
+});
+
+const formatOperationSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("title_case") }),
+  z.object({ kind: z.literal("email_normalize") }),
+  z.object({ kind: z.literal("phone_e164"), defaultCountry: z.string().optional() }),
+  z.object({
+    kind: z.literal("date_parse"),
+    inputFormat: z.string().optional(),
+    inputFormats: z.array(z.string().min(1)).min(1).optional(),
+    order: z.enum(["auto", "day_first", "month_first"]).optional(),
+    outputFormat: z.string().optional()
+  }),
+  z.object({ kind: z.literal("iso_country"), output: z.enum(["alpha2", "alpha3", "name"]).optional() }),
+  z.object({ kind: z.literal("iso_state"), countryField: z.string().optional() }),
+  z.object({ kind: z.literal("currency_code"), locale: z.string().optional() }),
+  z.object({
+    kind: z.literal("money_parse"),
+    currencyField: z.string().optional(),
+    defaultCurrency: z.string().optional(),
+    locale: z.string().optional()
+  }),
+  z.object({ kind: z.literal("number_parse"), locale: z.string().optional() }),
+  z.object({ kind: z.literal("trim_collapse_whitespace") }),
+  z.object({ kind: z.literal("boolean_standardize") }),
+  z.object({
+    kind: z.literal("timezone_to_utc"),
+    sourceTimezone: z.string().refine(isSupportedTimeZone, "Unknown IANA timezone").optional(),
+    sourceTimezoneField: z.string().optional(),
+    targetTimezone: z.string().refine(isSupportedTimeZone, "Unknown IANA timezone").optional(),
+    output: z.enum(["iso", "date", "monday"]).optional()
+  }),
+  z.object({ kind: z.literal("slugify"), separator: z.string().optional() }),
+  z.object({ kind: z.literal("round_numeric"), precision: z.number().int().optional() }),
+  z.object({
+    kind: z.literal("round_to_currency"),
+    currency: z.string().optional(),
+    currencyField: z.string().optional()
+  }),
+  z.object({ kind: z.literal("normalize_percentage") }),
+  z.object({ kind: z.literal("remove_special_characters") }),
+  z.object({
+    kind: z.literal("split_name"),
+    firstNameField: z.string().optional(),
+    lastNameField: z.string().optional()
+  }),
+  z.object({ kind: z.literal("normalize_address") }),
+  z.object({ kind: z.literal("sanitize_html") }),
+  z.object({ kind: z.literal("lookup"), table: z.string().min(1) })
+]);
+
+export const formatConfigSchema: z.ZodType<FormatStep["config"]> = z.object({
+  operations: z.array(
+    z.object({
+      field: z.string(),
+      op: formatOperationSchema,
+      when: conditionSchema.optional()
+    })
+  )
+});
+
+export const validateConfigSchema: z.ZodType<ValidateStep["config"]> = z.object({
+  rules: z.array(
+    z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal("required"), field: z.string(), when: conditionSchema.optional() }),
+      z.object({
+        kind: z.literal("regex"),
+        field: z.string(),
+        pattern: z.string().refine(isValidPattern, "Invalid regular expression"),
+        message: z.string().optional(),
+        when: conditionSchema.optional()
+      }),
+      z.object({
+        kind: z.literal("in_set"),
+        field: z.string(),
+        values: z.array(z.string()),
+        when: conditionSchema.optional()
+      }),
+      z.object({ kind: z.literal("unique"), composite: z.array(z.string()), when: conditionSchema.optional() })
+    ])
+  )
+});
+
+export const deriveConfigSchema: z.ZodType<DeriveStep["config"]> = z.object({
+  fields: z.array(
+    z.object({
+      field: z.string().min(1),
+      expression: z.string().superRefine((source, ctx) => {
+        try {
+          parseExpression(source);
+        } catch (error) {
+          if (!(error instanceof ExpressionError)) throw error;
+          const at = error.position === undefined ? "" : ` (at ${error.position})`;
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${error.message}${at}` });
+        }
+      }),
+      when: conditionSchema.optional()
+    })
+  )
+});
+
+const survivorshipRuleSchema: z.ZodType<SurvivorshipRule> = z.discriminatedUnion("strategy", [
+  z.object({ strategy: z.literal("first_non_empty") }),
+  z.object({ strategy: z.literal("most_recent"), timestampField: z.string() }),
+  z.object({ strategy: z.literal("longest") }),
+  z.object({
+    strategy: z.literal("preferred_source"),
+    sourceField: z.string(),
+    sources: z.array(z.string())
+  })
+]);
+
+const blockingConfigSchema: z.ZodType<BlockingConfig> = z.discriminatedUnion("strategy", [
+  z.object({ strategy: z.literal("none") }),
+  z.object({ strategy: z.literal("sorted_neighbourhood"), window: z.number().int().positive().optional() }),
+  z.object({ strategy: z.literal("phonetic"), maxBlockSize: z.number().int().positive().optional() }),
+  z.object({
+    strategy: z.literal("ngram"),
+    size: z.number().int().positive().optional(),
+    maxBlockSize: z.number().int().positive().optional()
+  })
+]);
+
+const fieldComparatorSchema: z.ZodType<FieldComparator> = z.object({
+  field: z.string(),
+  algorithm: z.enum([
+    "jaro_winkler",
+    "levenshtein",
+    "damerau_levenshtein",
+    "token_set",
+    "soundex",
+    "double_metaphone",
+    "exact"
+  ]),
+  weight: z.number().nonnegative().optional()
+});
+
+export const dedupeConfigSchema: z.ZodType<DedupeStep["config"]> = z.object({
+  keys: z.array(z.string()).min(1),
+  fuzzy: z
+    .object({
+      enabled: z.boolean(),
+      threshold: z.number().min(0).max(1),
+      blocking: blockingConfigSchema.optional(),
+      comparators: z.array(fieldComparatorSchema).optional()
+    })
+    .optional(),
+  survivorship: z
+    .object({
+      default: survivorshipRuleSchema.optional(),
+      fields: z.record(survivorshipRuleSchema).optional()
+    })
+    .optional()
+});
+
+export const writeBackConfigSchema: z.ZodType<WriteBackStep["config"]> = z.object({
+  strategy: z.enum(["monday_upsert", "csv"]),
+  boardId: z.string().optional(),
+  keyColumn: z.string().optional(),
+  keyColumnId: z.string().optional(),
+  columnMapping: z.record(z.string()).optional(),
+  itemNameField: z.string().optional()
+});
+
+export const filterConfigSchema: z.ZodType<FilterStep["config"]> = z.object({
+  condition: conditionSchema,
+  mode: z.enum(["keep", "drop"]).optional()
+});
+
+export const sortConfigSchema: z.ZodType<SortStep["config"]> = z.object({
+  keys: z
+    .array(
+      z.object({
+        field: z.string().min(1),
+        direction: z.enum(["asc", "desc"]).optional(),
+        nulls: z.enum(["first", "last"]).optional(),
+        compare: z.enum(["auto", "text", "number"]).optional()
+      })
+    )
+    .min(1),
+  locale: z.string().refine(isSupportedLocale, "Unsupported locale").optional()
+});
+
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.Collator.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export const includeConfigSchema: z.ZodType<IncludeStep["config"]> = z.object({
+  recipeId: z.string().uuid(),
+  version: z.number().int().positive(),
+  prefix: z.string().regex(/^[A-Za-z0-9_]+$/, "Prefixes may only contain letters, digits and underscores").optional(),
+  parameters: z.record(z.unknown()).optional()
+});
+
+const stepModifiers = {
+  when: conditionSchema.optional(),
+  onError: errorPolicySchema.optional(),
+  includedFrom: z
+    .object({ recipeId: z.string(), version: z.number().int().positive(), stepIndex: z.number().int().nonnegative() })
+    .optional()
+};
+
+/** A built-in recipe step; custom registry steps are validated by the engine instead. */
+export const recipeStepSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("map_columns"), config: mapColumnsConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("format"), config: formatConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("validate"), config: validateConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("derive"), config: deriveConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("dedupe"), config: dedupeConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("write_back"), config: writeBackConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("filter"), config: filterConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("sort"), config: sortConfigSchema, ...stepModifiers }),
+  z.object({ type: z.literal("include"), config: includeConfigSchema, ...stepModifiers })
+]);
+
+/**
+ * Stored recipes are migrated to the current schema version before validation.
+ * Steps that reference parameters are checked with each parameter's default
+ * (or a placeholder of its type) bound in, and are returned unbound.
+ */
+export const recipeDefinitionSchema: z.ZodType<RecipeDefinition, z.ZodTypeDef, unknown> = z.preprocess(
+  (value) => migrateRecipe(value),
+  z
+    .object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      version: z.number().int().nonnegative(),
+      schemaVersion: z.number().int().positive().optional(),
+      parameters: z.array(recipeParameterSchema).optional(),
+      steps: z.array(z.unknown())
+    })
+    .transform((recipe, ctx) => {
+      let valid = true;
+      const fail = (path: Array<string | number>, message: string) => {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+        valid = false;
+      };
+      const declared = new Set<string>();
+      recipe.parameters?.forEach((parameter, index) => {
+        if (declared.has(parameter.name)) fail(["parameters", index, "name"], "Duplicate parameter");
+        declared.add(parameter.name);
+      });
+      const refs = collectParameterRefs(recipe.steps, ["steps"]);
+      for (const ref of refs) {
+        if (!declared.has(ref.name)) fail(ref.path, `Undeclared parameter "${ref.name}"`);
+      }
+      const bound = refs.length > 0 ? substituteParameters(recipe.steps, placeholderValues(recipe.parameters)) : recipe.steps;
+      const steps = z.array(recipeStepSchema).safeParse(bound);
+      if (!steps.success) {
+        for (const issue of steps.error.issues) {
+          ctx.addIssue({ ...issue, path: ["steps", ...issue.path] });
+        }
+        return z.NEVER;
+      }
+      if (!valid) {
+        return z.NEVER;
+      }
+      return { ...recipe, steps: refs.length > 0 ? (recipe.steps as RecipeStep[]) : steps.data };
+    })
+);
+
+export type SchemaIssue = {
+  /** JSON path of the offending value, e.g. `recipe.steps[1].config.operations[0].op.kind`. */
+  path: string;
+  message: string;
+};
+
+export function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>((joined, segment) => {
+    if (typeof segment === "number") return `${joined}[${segment}]`;
+    return joined ? `${joined}.${segment}` : segment;
+  }, "");
+}
+
+/** Flattens a zod error into one entry per issue, keyed by JSON path. */
+export function schemaIssues(error: z.ZodError, prefix: Array<string | number> = []): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: formatIssuePath([...prefix, ...issue.path]) || "$",
+    message: issue.message
+  }));
+}
@@ -1,160 +1,204 @@
-import type { RecipeRow, RecipeError, DiffEntry } from "../index";
-
-type DedupeConfig = {
-  keys: string[];
-  fuzzy?: {
-    enabled: boolean;
-    threshold: number;
-  };
-};
+import type { RecipeRow, RecipeError, DiffEntry, DedupeStep, SurvivorshipRule } from "../index";
+import { buildBlockingIndex } from "../matching/blocking";
+import { jaroWinkler, normalizeValue, scoreRecords } from "../matching/similarity";
+import { createLogger } from "@/lib/logging";
+
+type DedupeConfig = DedupeStep["config"];
 
 type DedupeResult = {
   rows: RecipeRow[];
   errors: RecipeError[];
   diff: DiffEntry[];
+  /** Input position of each surviving row. */
+  origins: number[];
+};
+
+type Cluster = {
+  survivorIndex: number;
+  members: number[];
 };
 
+const DEFAULT_RULE: SurvivorshipRule = { strategy: "first_non_empty" };
+
 export function dedupeRows(rows: RecipeRow[], config: DedupeConfig, allowFuzzy: boolean): DedupeResult {
+  const logger = createLogger({ component: "recipe-engine.dedupe" });
   const { keys, fuzzy } = config;
   const errors: RecipeError[] = [];
   const diff: DiffEntry[] = [];
 
-  const exactSeen = new Map<string, number>();
-  const exactRows: RecipeRow[] = [];
+  const exactSeen = new Map<string, Cluster>();
+  const clusters: Cluster[] = [];
 
-  // Log signatures for debug
-  try {
-    console.log(JSON.stringify({ ts: new Date().toISOString(), level: "info", msg: "dedupe: computing exact signatures", keys }));
-  } catch {}
+  logger.debug("computing exact signatures", { keys });
   rows.forEach((row, rowIndex) => {
     const signature = keys.map((key) => String(row[key] ?? "").toLowerCase()).join("|");
-    try {
-      console.log(JSON.stringify({ ts: new Date().toISOString(), level: "debug", msg: "dedupe: row signature", rowIndex, signature }));
-    } catch {}
-    if (signature.trim() && exactSeen.has(signature)) {
+    const existing = signature.trim() ? exactSeen.get(signature) : undefined;
+    if (existing) {
+      existing.members.push(rowIndex);
       errors.push({
         rowIndex,
         code: "dedupe_exact",
-        message: `Duplicate detected on keys ${keys.join(", ")}`
+        message: `Duplicate detected on keys ${keys.join(", ")}; merged into row ${existing.survivorIndex}`
       });
-    } else {
-      exactSeen.set(signature, rowIndex);
-      exactRows.push(row);
+      return;
     }
+    const cluster = { survivorIndex: rowIndex, members: [rowIndex] };
+    exactSeen.set(signature, cluster);
+    clusters.push(cluster);
   });
 
-  if (!fuzzy?.enabled) {
-    return { rows: exactRows, errors, diff };
-  }
+  let survivingClusters = clusters;
 
-  if (fuzzy.enabled && !allowFuzzy) {
+  if (fuzzy?.enabled && !allowFuzzy) {
     errors.push({
       rowIndex: -1,
       code: "dedupe_fuzzy_blocked",
       message: "Fuzzy matching not enabled for this plan"
     });
-    return { rows: exactRows, errors, diff };
-  }
+  } else if (fuzzy?.enabled) {
+    const threshold = fuzzy.threshold ?? 0.9;
+    const composites = clusters.map((cluster) =>
+      keys.map((key) => normalizeValue(rows[cluster.survivorIndex][key])).join(" ").trim()
+    );
+    const index = buildBlockingIndex(composites, fuzzy.blocking);
+    const comparators = fuzzy.comparators ?? [];
+    // Without per-field comparators the keys are compared as one concatenated string.
+    const matchScore = (left: number, right: number) =>
+      comparators.length > 0
+        ? scoreRecords(rows[clusters[left].survivorIndex], rows[clusters[right].survivorIndex], comparators) ?? 0
+        : jaroWinkler(composites[left], composites[right]);
+    const surviving = new Array<boolean>(clusters.length).fill(false);
+    let comparisons = 0;
+
+    clusters.forEach((cluster, clusterIndex) => {
+      const composite = composites[clusterIndex];
+      // Earlier surviving clusters are checked in order so the first match wins,
+      // exactly as a pairwise scan would.
+      const candidates = composite
+        ? index
+            .candidates(clusterIndex)
+            .filter((candidate) => candidate < clusterIndex && surviving[candidate])
+            .sort((a, b) => a - b)
+        : [];
+      const matchIndex = candidates.find((candidate) => {
+        comparisons++;
+        return matchScore(candidate, clusterIndex) >= threshold;
+      });
+      if (matchIndex === undefined) {
+        surviving[clusterIndex] = true;
+        return;
+      }
+      const match = clusters[matchIndex];
+      match.members.push(...cluster.members);
+      for (const member of cluster.members) {
+        errors.push({
+          rowIndex: member,
+          code: "dedupe_fuzzy",
+          message: `Fuzzy duplicate of row ${match.survivorIndex}`
+        });
+      }
+    });
 
-  const threshold = fuzzy.threshold ?? 0.9;
-  const keep: RecipeRow[] = [];
+    logger.debug("fuzzy comparisons", { clusters: clusters.length, comparisons });
+    survivingClusters = clusters.filter((_, clusterIndex) => surviving[clusterIndex]);
+  }
 
-  exactRows.forEach((row, index) => {
-    const composite = keys.map((key) => normalizeValue(row[key])).join(" ").trim();
-    if (!composite) {
-      keep.push(row);
-      return;
+  const output = survivingClusters.map((cluster) => {
+    const survivor = rows[cluster.survivorIndex];
+    if (cluster.members.length === 1) {
+      return survivor;
     }
-    const existingIndex = keep.findIndex((candidate) => {
-      const otherComposite = keys.map((key) => normalizeValue(candidate[key])).join(" ").trim();
-      if (!otherComposite) return false;
-      return similarity(composite, otherComposite) >= threshold;
-    });
-    if (existingIndex >= 0) {
-      errors.push({
-        rowIndex: index,
-        code: "dedupe_fuzzy",
-        message: `Fuzzy duplicate of row ${existingIndex}`
-      });
+    const merged = mergeCluster(
+      cluster.members.map((member) => rows[member]),
+      config.survivorship
+    );
+    for (const field of Object.keys(merged)) {
+      if (merged[field] !== survivor[field]) {
+        diff.push({
+          rowIndex: cluster.survivorIndex,
+          field,
+          before: survivor[field],
+          after: merged[field],
+          operation: "dedupe_merge"
+        });
+      }
+    }
+    for (const member of cluster.members.slice(1)) {
       diff.push({
-        rowIndex: index,
+        rowIndex: member,
         field: "__dedupe__",
-        before: row,
-        after: keep[existingIndex]
+        before: rows[member],
+        after: merged,
+        operation: "dedupe"
       });
-    } else {
-      keep.push(row);
     }
+    return merged;
   });
 
-  return { rows: keep, errors, diff };
+  return { rows: output, errors, diff, origins: survivingClusters.map((cluster) => cluster.survivorIndex) };
 }
 
-function normalizeValue(input: unknown): string {
-  return String(input ?? "")
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+/**
+ * Collapses a cluster of duplicate rows into one surviving record. Each field is
+ * resolved independently: the configured rule ranks the members and the first
+ * non-empty value in that ranking wins.
+ */
+export function mergeCluster(members: RecipeRow[], survivorship: DedupeConfig["survivorship"] = {}): RecipeRow {
+  const fields = new Set<string>();
+  members.forEach((member) => Object.keys(member).forEach((field) => fields.add(field)));
+
+  const merged: RecipeRow = {};
+  for (const field of fields) {
+    const rule = survivorship.fields?.[field] ?? survivorship.default ?? DEFAULT_RULE;
+    const ranked = rankMembers(members, field, rule);
+    const winner = ranked.find((member) => !isEmpty(member[field]));
+    merged[field] = winner ? winner[field] : members[0][field];
+  }
+  return merged;
 }
 
-function jaro(a: string, b: string): number {
-  if (a === b) return 1;
-  const len1 = a.length;
-  const len2 = b.length;
-  if (len1 === 0 || len2 === 0) return 0;
-  const matchDistance = Math.floor(Math.max(len1, len2) / 2) - 1;
-
-  const s1Matches = new Array(len1).fill(false);
-  const s2Matches = new Array(len2).fill(false);
-
-  let matches = 0;
-  for (let i = 0; i < len1; i++) {
-    const start = Math.max(0, i - matchDistance);
-    const end = Math.min(i + matchDistance + 1, len2);
-    for (let j = start; j < end; j++) {
-      if (s2Matches[j]) continue;
-      if (a[i] !== b[j]) continue;
-      s1Matches[i] = true;
-      s2Matches[j] = true;
-      matches++;
-      break;
+function rankMembers(members: RecipeRow[], field: string, rule: SurvivorshipRule): RecipeRow[] {
+  const ordered = members.map((member, order) => ({ member, order }));
+  const byScore = (score: (member: RecipeRow) => number) =>
+    ordered
+      .map((entry) => ({ ...entry, score: score(entry.member) }))
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .map((entry) => entry.member);
+
+  switch (rule.strategy) {
+    case "most_recent":
+      return byScore((member) => toTimestamp(member[rule.timestampField]));
+    case "longest":
+      return byScore((member) => (isEmpty(member[field]) ? -1 : String(member[field]).length));
+    case "preferred_source": {
+      const preference = rule.sources.map((source) => source.toLowerCase());
+      return byScore((member) => {
+        const rank = preference.indexOf(String(member[rule.sourceField] ?? "").toLowerCase());
+        return rank === -1 ? -preference.length - 1 : -rank;
+      });
     }
+    case "first_non_empty":
+    default:
+      return members;
   }
+}
 
-  if (matches === 0) return 0;
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
 
-  const s1 = [];
-  const s2 = [];
-  for (let i = 0; i < len1; i++) {
-    if (s1Matches[i]) {
-      s1.push(a[i]);
-    }
+function toTimestamp(value: unknown): number {
+  if (value instanceof Date) {
+    return value.getTime();
   }
-  for (let i = 0; i < len2; i++) {
-    if (s2Matches[i]) {
-      s2.push(b[i]);
-    }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
   }
-
-  let transpositions = 0;
-  for (let i = 0; i < s1.length; i++) {
-    if (s1[i] !== s2[i]) {
-      transpositions++;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
     }
   }
-  transpositions /= 2;
-
-  return (matches / len1 + matches / len2 + (matches - transpositions) / matches) / 3;
-}
-
-function similarity(a: string, b: string): number {
-  const base = jaro(a, b);
-  let prefix = 0;
-  const maxPrefix = 4;
-  while (prefix < maxPrefix && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
-    prefix++;
-  }
-  const scaling = 0.1;
-  return base + prefix * scaling * (1 - base);
+  return Number.NEGATIVE_INFINITY;
 }
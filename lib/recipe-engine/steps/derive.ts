@@ -0,0 +1,45 @@
+import type { RecipeRow, RecipeError, DiffEntry, DeriveStep } from "../index";
+import { evaluateCondition } from "../conditions";
+import { evaluateExpression, parseExpression } from "../expression";
+import { ExpressionError } from "@/lib/errors";
+
+type DeriveConfig = DeriveStep["config"];
+
+export function deriveFields(
+  rows: RecipeRow[],
+  config: DeriveConfig
+): { rows: RecipeRow[]; errors: RecipeError[]; diff: DiffEntry[] } {
+  const errors: RecipeError[] = [];
+  const diff: DiffEntry[] = [];
+  const compiled = config.fields.map((definition) => ({
+    ...definition,
+    expression: parseExpression(definition.expression)
+  }));
+
+  const derived = rows.map((row, rowIndex) => {
+    const next = { ...row };
+    for (const { field, expression, when } of compiled) {
+      if (when && !evaluateCondition(when, next)) {
+        continue;
+      }
+      try {
+        const value = evaluateExpression(expression, next);
+        if (value !== next[field]) {
+          diff.push({ rowIndex, field, before: next[field], after: value, operation: "derive" });
+          next[field] = value;
+        }
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        errors.push({
+          rowIndex,
+          field,
+          code: "derive_error",
+          message: `Could not derive ${field}: ${error.message}`
+        });
+      }
+    }
+    return next;
+  });
+
+  return { rows: derived, errors, diff };
+}
@@ -0,0 +1,21 @@
+import type { FilterStep, RecipeRow } from "../index";
+import { evaluateCondition } from "../conditions";
+
+type FilterConfig = FilterStep["config"];
+
+export function filterRows(
+  rows: RecipeRow[],
+  config: FilterConfig
+): { rows: RecipeRow[]; origins: number[]; removed: number[] } {
+  const keepMatches = (config.mode ?? "keep") === "keep";
+  const origins: number[] = [];
+  const removed: number[] = [];
+  rows.forEach((row, rowIndex) => {
+    if (evaluateCondition(config.condition, row) === keepMatches) {
+      origins.push(rowIndex);
+    } else {
+      removed.push(rowIndex);
+    }
+  });
+  return { rows: origins.map((rowIndex) => rows[rowIndex]), origins, removed };
+}
@@ -1,23 +1,41 @@
-import { parse as parseDate, format as formatDate } from "date-fns";
+import { parse as parseDate, parseISO, format as formatDate } from "date-fns";
 import { parsePhoneNumberFromString } from "libphonenumber-js";
 import type { CountryCode } from "libphonenumber-js";
-import type { RecipeRow, DiffEntry } from "../index";
+import type { RecipeRow, DiffEntry, Condition, LookupTable, RecipeError } from "../index";
+import { evaluateCondition } from "../conditions";
+import { formatCountry, lookupCountry, type Country, type CountryOutput } from "../reference/countries";
+import { lookupCurrency, type Currency } from "../reference/currencies";
+import { hasSubdivisions, lookupSubdivision } from "../reference/subdivisions";
+import { ValidationError } from "@/lib/errors";
 
 type FormatOperation =
   | { kind: "title_case" }
   | { kind: "email_normalize" }
   | { kind: "phone_e164"; defaultCountry?: string }
-  | { kind: "date_parse"; inputFormat?: string; outputFormat?: string }
-  | { kind: "iso_country" }
+  | {
+      kind: "date_parse";
+      inputFormat?: string;
+      inputFormats?: string[];
+      order?: DateOrder | "auto";
+      outputFormat?: string;
+    }
+  | { kind: "iso_country"; output?: CountryOutput }
   | { kind: "iso_state"; countryField?: string }
-  | { kind: "currency_code" }
+  | { kind: "currency_code"; locale?: string }
+  | { kind: "money_parse"; currencyField?: string; defaultCurrency?: string; locale?: string }
   | { kind: "number_parse"; locale?: string }
   | { kind: "trim_collapse_whitespace" }
   | { kind: "boolean_standardize" }
-  | { kind: "timezone_to_utc" }
+  | {
+      kind: "timezone_to_utc";
+      sourceTimezone?: string;
+      sourceTimezoneField?: string;
+      targetTimezone?: string;
+      output?: "iso" | "date" | "monday";
+    }
   | { kind: "slugify"; separator?: string }
   | { kind: "round_numeric"; precision?: number }
-  | { kind: "round_to_currency" }
+  | { kind: "round_to_currency"; currency?: string; currencyField?: string }
   | { kind: "normalize_percentage" }
   | { kind: "remove_special_characters" }
   | {
@@ -26,109 +44,49 @@ type FormatOperation =
       lastNameField?: string;
     }
   | { kind: "normalize_address" }
-  | { kind: "sanitize_html" };
+  | { kind: "sanitize_html" }
+  | { kind: "lookup"; table: string };
+
+type DateOrder = "day_first" | "month_first";
 
 type FormatConfig = {
   operations: Array<{
     field: string;
     op: FormatOperation;
+    when?: Condition;
   }>;
 };
 
-const COUNTRY_MAP: Record<string, string> = {
-  usa: "US",
-  "united states": "US",
-  "united states of america": "US",
-  uk: "GB",
-  "united kingdom": "GB",
-  britain: "GB",
-  canada: "CA",
-  mexico: "MX",
-  france: "FR",
-  germany: "DE",
-  australia: "AU",
-  india: "IN",
-  brazil: "BR"
-};
+/** Lookup table entries keyed by their trimmed, lower-cased input value. */
+type LookupIndex = Map<string, string>;
 
-const STATE_MAP: Record<string, Record<string, string>> = {
-  US: {
-    alabama: "AL",
-    alaska: "AK",
-    arizona: "AZ",
-    arkansas: "AR",
-    california: "CA",
-    colorado: "CO",
-    connecticut: "CT",
-    delaware: "DE",
-    florida: "FL",
-    georgia: "GA",
-    hawaii: "HI",
-    idaho: "ID",
-    illinois: "IL",
-    indiana: "IN",
-    iowa: "IA",
-    kansas: "KS",
-    kentucky: "KY",
-    louisiana: "LA",
-    maine: "ME",
-    maryland: "MD",
-    massachusetts: "MA",
-    michigan: "MI",
-    minnesota: "MN",
-    mississippi: "MS",
-    missouri: "MO",
-    montana: "MT",
-    nebraska: "NE",
-    nevada: "NV",
-    "new hampshire": "NH",
-    "new jersey": "NJ",
-    "new mexico": "NM",
-    "new york": "NY",
-    "north carolina": "NC",
-    "north dakota": "ND",
-    ohio: "OH",
-    oklahoma: "OK",
-    oregon: "OR",
-    pennsylvania: "PA",
-    "rhode island": "RI",
-    "south carolina": "SC",
-    "south dakota": "SD",
-    tennessee: "TN",
-    texas: "TX",
-    utah: "UT",
-    vermont: "VT",
-    virginia: "VA",
-    washington: "WA",
-    "west virginia": "WV",
-    wisconsin: "WI",
-    wyoming: "WY"
-  },
-  CA: {
-    ontario: "ON",
-    quebec: "QC",
-    "nova scotia": "NS",
-    "new brunswick": "NB",
-    manitoba: "MB",
-    "british columbia": "BC",
-    "prince edward island": "PE",
-    saskatchewan: "SK",
-    alberta: "AB",
-    "newfoundland and labrador": "NL"
-  }
-};
-
-export function formatRows(rows: RecipeRow[], config: FormatConfig): {
+export function formatRows(
+  rows: RecipeRow[],
+  config: FormatConfig,
+  lookupTables: Record<string, LookupTable> = {}
+): {
   rows: RecipeRow[];
   diff: DiffEntry[];
+  errors: RecipeError[];
 } {
   const diff: DiffEntry[] = [];
+  const errors: RecipeError[] = [];
+  const operations = config.operations.map((op) => resolveDateOrder(op, rows));
+  const lookups = indexLookupTables(operations, lookupTables);
   const formatted = rows.map((row, rowIndex) => {
     const next = { ...row };
 
-    for (const op of config.operations) {
+    for (const op of operations) {
+      // Conditions see the row as formatted by the preceding operations.
+      if (op.when && !evaluateCondition(op.when, next)) {
+        continue;
+      }
       const current = next[op.field];
-      const nextValue = applyOperation(next, rowIndex, op, diff);
+      const recorded = diff.length;
+      const nextValue = applyOperation(next, rowIndex, op, diff, errors, lookups);
+      for (let index = recorded; index < diff.length; index++) {
+        diff[index].operation = op.op.kind;
+      }
       if (nextValue !== current) {
         next[op.field] = nextValue;
       }
@@ -137,14 +95,16 @@ export function formatRows(rows: RecipeRow[], config: FormatConfig): {
     return next;
   });
 
-  return { rows: formatted, diff };
+  return { rows: formatted, diff, errors };
 }
 
 function applyOperation(
   row: RecipeRow,
   rowIndex: number,
   operation: { field: string; op: FormatOperation },
-  diff: DiffEntry[]
+  diff: DiffEntry[],
+  errors: RecipeError[],
+  lookups: Map<string, LookupIndex>
 ) {
   const { field, op } = operation;
   const value = row[field];
@@ -165,13 +125,25 @@ function applyOperation(
       return formatted;
     }
     case "timezone_to_utc": {
-      if (value === null || value === undefined) {
+      if (value === null || value === undefined || (typeof value === "string" && !value.trim())) {
         return value;
       }
-      const formatted = toUtcString(value);
-      if (formatted === null) {
+      const sourceTimezone = rowTimezone(row, op.sourceTimezone, op.sourceTimezoneField);
+      if (!zoneFormat(sourceTimezone)) {
+        errors.push({
+          rowIndex,
+          field,
+          code: "unknown_timezone",
+          message: `${field} timezone "${sourceTimezone}" is not a known IANA timezone`
+        });
         return value;
       }
+      const instant = toInstant(value, sourceTimezone);
+      if (instant === null) {
+        errors.push({ rowIndex, field, code: "invalid_datetime", message: `${field} "${value}" is not a valid datetime` });
+        return value;
+      }
+      const formatted = formatInstant(instant, op.targetTimezone ?? "UTC", op.output ?? "iso");
       recordDiff(diff, rowIndex, field, value, formatted);
       return formatted;
     }
@@ -185,8 +157,9 @@ function applyOperation(
     }
     case "round_numeric":
     case "round_to_currency": {
-      // For currency op, always enforce two decimal places
-      const precision = op.kind === "round_to_currency" ? 2 : (op.precision ?? 0);
+      // Currency amounts keep the currency's minor units, falling back to two decimal places.
+      const precision =
+        op.kind === "round_to_currency" ? (rowCurrency(row, op.currency, op.currencyField)?.minorUnits ?? 2) : (op.precision ?? 0);
 
       if (value == null || value === "") {
         return value;
@@ -197,8 +170,8 @@ function applyOperation(
         return value;
       }
 
-      // For currency, return a string with exactly two decimals; otherwise return a number
-      const finalValue = op.kind === "round_to_currency" ? roundedNum.toFixed(2) : roundedNum;
+      // For currency, return a string with exactly the currency's decimals; otherwise return a number
+      const finalValue = op.kind === "round_to_currency" ? roundedNum.toFixed(precision) : roundedNum;
 
       recordDiff(diff, rowIndex, field, value, finalValue);
       return finalValue;
@@ -295,15 +268,18 @@ function applyOperation(
     }
     case "date_parse": {
       if (!value) return value;
-      const parsed =
-        typeof value === "string"
-          ? op.inputFormat
-            ? parseDate(value, op.inputFormat, new Date())
-            : new Date(value)
-          : value instanceof Date
-          ? value
-          : null;
-      if (!parsed || Number.isNaN(parsed.getTime())) {
+      const parsed = parseDateValue(value, dateFormats(op), op.order ?? "auto");
+      if (parsed === "ambiguous") {
+        errors.push({
+          rowIndex,
+          field,
+          code: "ambiguous_date",
+          message: `${field} "${value}" could be day-first or month-first; set an order to choose`
+        });
+        return value;
+      }
+      if (!parsed) {
+        errors.push({ rowIndex, field, code: "invalid_date", message: `${field} "${value}" is not a valid date` });
         return value;
       }
       const outputFormat = op.outputFormat ?? "yyyy-MM-dd";
@@ -312,27 +288,84 @@ function applyOperation(
       return formatted;
     }
     case "iso_country": {
-      if (typeof value !== "string") return value;
-      const normalized = value.trim().toLowerCase();
-      const formatted = COUNTRY_MAP[normalized] ?? value.toUpperCase();
+      if (typeof value !== "number" && (typeof value !== "string" || !value.trim())) return value;
+      const country = lookupCountry(value);
+      if (!country) {
+        errors.push({ rowIndex, field, code: "unknown_country", message: `${field} "${value}" is not a known country` });
+        return value;
+      }
+      const formatted = formatCountry(country, op.output ?? "alpha2");
       recordDiff(diff, rowIndex, field, value, formatted);
       return formatted;
     }
     case "iso_state": {
-      if (typeof value !== "string") return value;
-      const countryValue = op.countryField ? row[op.countryField] : "US";
-      const country = typeof countryValue === "string" ? countryValue.toUpperCase() : "US";
-      const states = STATE_MAP[country];
-      const normalized = value.trim().toLowerCase();
-      const formatted = states?.[normalized] ?? value.toUpperCase();
-      recordDiff(diff, rowIndex, field, value, formatted);
-      return formatted;
+      if (typeof value !== "string" || !value.trim()) return value;
+      const country = resolveRowCountry(row, op.countryField);
+      if (!country) {
+        // Reported here too: the recipe need not run iso_country on the country field.
+        errors.push({
+          rowIndex,
+          field,
+          code: "unknown_country",
+          message: `${field} "${value}" cannot be checked: ${op.countryField} "${String(row[op.countryField!])}" is not a known country`
+        });
+        return value;
+      }
+      if (!hasSubdivisions(country.alpha2)) {
+        errors.push({
+          rowIndex,
+          field,
+          code: "unsupported_subdivision_country",
+          message: `${field} "${value}" cannot be checked: no subdivisions are bundled for ${country.alpha2}`
+        });
+        return value;
+      }
+      const subdivision = lookupSubdivision(country.alpha2, value);
+      if (!subdivision) {
+        errors.push({
+          rowIndex,
+          field,
+          code: "unknown_subdivision",
+          message: `${field} "${value}" is not a known subdivision of ${country.alpha2}`
+        });
+        return value;
+      }
+      recordDiff(diff, rowIndex, field, value, subdivision.code);
+      return subdivision.code;
     }
     case "currency_code": {
-      if (typeof value !== "string") return value;
-      const formatted = value.trim().slice(0, 3).toUpperCase();
-      recordDiff(diff, rowIndex, field, value, formatted);
-      return formatted;
+      if (typeof value !== "string" || !value.trim()) return value;
+      const match = lookupCurrency(value, op.locale);
+      if (!match || !("currency" in match)) {
+        errors.push(currencyError(rowIndex, field, value, match));
+        return value;
+      }
+      recordDiff(diff, rowIndex, field, value, match.currency.code);
+      return match.currency.code;
+    }
+    case "money_parse": {
+      if (typeof value !== "number" && (typeof value !== "string" || !value.trim())) return value;
+      const parts = typeof value === "string" ? splitMoney(value) : null;
+      const currencyText = parts?.currencyText || op.defaultCurrency;
+      const match = currencyText ? lookupCurrency(currencyText, op.locale) : null;
+      if (currencyText && !(match && "currency" in match)) {
+        errors.push(currencyError(rowIndex, field, value, match));
+        return value;
+      }
+      const currency = match && "currency" in match ? match.currency : null;
+      const amount =
+        typeof value === "number" ? value : parts ? parseMoneyAmount(parts.amount, currency, op.locale ?? "en-US") : undefined;
+      if (amount === undefined) {
+        errors.push({ rowIndex, field, code: "invalid_money", message: `${field} "${value}" has no amount` });
+        return value;
+      }
+      const currencyField = resolveCurrencyField(field, op.currencyField);
+      if (currency && row[currencyField] !== currency.code) {
+        recordDiff(diff, rowIndex, currencyField, row[currencyField], currency.code);
+        row[currencyField] = currency.code;
+      }
+      recordDiff(diff, rowIndex, field, value, amount);
+      return amount;
     }
     case "number_parse": {
       if (typeof value !== "string" && typeof value !== "number") return value;
@@ -343,9 +376,258 @@ function applyOperation(
       recordDiff(diff, rowIndex, field, value, formatted);
       return formatted;
     }
-    default:
-      return value;
+    case "lookup": {
+      if (value === null || value === undefined || (typeof value === "string" && !value.trim())) {
+        return value;
+      }
+      const formatted = lookups.get(op.table)!.get(lookupKey(String(value)));
+      if (formatted === undefined) {
+        errors.push({
+          rowIndex,
+          field,
+          code: "unknown_lookup_value",
+          message: `${field} "${String(value)}" is not in lookup table ${op.table}`
+        });
+        return value;
+      }
+      recordDiff(diff, rowIndex, field, value, formatted);
+      return formatted;
+    }
+    default: {
+      const unknown: never = op;
+      throw new ValidationError(`Unsupported format operation: ${(unknown as { kind: string }).kind}`);
+    }
+  }
+}
+
+function lookupKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Indexes the tables `lookup` operations reference, so values match whatever
+ * their case or padding. Throws `ValidationError` for tables that were not
+ * supplied.
+ */
+function indexLookupTables(
+  operations: FormatConfig["operations"],
+  lookupTables: Record<string, LookupTable>
+): Map<string, LookupIndex> {
+  const lookups = new Map<string, LookupIndex>();
+  for (const { op } of operations) {
+    if (op.kind !== "lookup" || lookups.has(op.table)) continue;
+    const table = Object.hasOwn(lookupTables, op.table) ? lookupTables[op.table] : undefined;
+    if (!table) {
+      throw new ValidationError(`Unknown lookup table: ${op.table}`);
+    }
+    lookups.set(op.table, new Map(Object.entries(table).map(([input, output]) => [lookupKey(input), output])));
+  }
+  return lookups;
+}
+
+/** Formats tried when a date_parse op names none; ISO 8601 strings are always accepted. */
+const DEFAULT_DATE_FORMATS = [
+  "yyyy/MM/dd",
+  "yyyy.MM.dd",
+  "yyyyMMdd",
+  ...["/", "-", "."].flatMap((separator) =>
+    ["yyyy", "yy"].flatMap((year) => [`d${separator}M${separator}${year}`, `M${separator}d${separator}${year}`])
+  ),
+  "d MMMM yyyy",
+  "d MMM yyyy",
+  "d-MMM-yyyy",
+  "d-MMM-yy",
+  "MMMM d, yyyy",
+  "MMM d, yyyy",
+  "MMMM d yyyy",
+  "MMM d yyyy"
+];
+
+/** Excel's day zero; serials before the fictitious 1900-02-29 (serial 60) count from a day later. */
+const EXCEL_EPOCH = { year: 1899, month: 11, day: 30 };
+const MAX_EXCEL_SERIAL = 2958465;
+
+function dateFormats(op: { inputFormat?: string; inputFormats?: string[] }): string[] {
+  return op.inputFormats ?? (op.inputFormat ? [op.inputFormat] : DEFAULT_DATE_FORMATS);
+}
+
+/**
+ * Whether a format reads a numeric day before the month ("dd/MM/yyyy") or after
+ * it ("MM/dd/yyyy"); year-first and month-name formats are neither.
+ */
+function formatOrder(format: string): DateOrder | null {
+  const tokens = format.replace(/'[^']*'/g, "");
+  const day = tokens.search(/d/);
+  const month = tokens.search(/(?<!M)M{1,2}(?!M)/);
+  const year = tokens.search(/y/);
+  if (day < 0 || month < 0 || (year >= 0 && year < Math.min(day, month))) return null;
+  return day < month ? "day_first" : "month_first";
+}
+
+/**
+ * Whether a date_parse op has to scan its column to choose between day-first
+ * and month-first candidates.
+ */
+export function detectsDateOrder(op: FormatOperation): boolean {
+  if (op.kind !== "date_parse" || (op.order ?? "auto") !== "auto") return false;
+  const orders = new Set(dateFormats(op).map(formatOrder));
+  return orders.has("day_first") && orders.has("month_first");
+}
+
+/**
+ * Settles an auto-ordered date_parse op from its column: a value such as
+ * "25/12/2024" can only be day-first and "12/25/2024" only month-first. Columns
+ * with no such value, or with both, stay undecided.
+ */
+function resolveDateOrder<T extends { field: string; op: FormatOperation }>(operation: T, rows: RecipeRow[]): T {
+  if (!detectsDateOrder(operation.op)) return operation;
+  const seen = new Set<DateOrder>();
+  for (const row of rows) {
+    const value = row[operation.field];
+    const parts = typeof value === "string" ? value.trim().match(/^(\d{1,2})\D(\d{1,2})\D\d{2,4}\b/) : null;
+    if (!parts) continue;
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    if (first > 12 && second <= 12) seen.add("day_first");
+    if (second > 12 && first <= 12) seen.add("month_first");
+  }
+  if (seen.size !== 1) return operation;
+  return { ...operation, op: { ...operation.op, order: [...seen][0] } };
+}
+
+/**
+ * Parses a date from the first candidate format that reads it. A value one
+ * candidate reads day-first and another month-first as different dates
+ * ("03/04/2024") follows `order`, and is "ambiguous" while that is "auto".
+ * Numbers and five-digit strings are Excel serial dates.
+ */
+function parseDateValue(value: unknown, formats: string[], order: DateOrder | "auto"): Date | "ambiguous" | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === "number" || (typeof value === "string" && /^\s*\d{5}(\.\d+)?\s*$/.test(value))) {
+    return excelSerialDate(Number(value));
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const parsed = parseISO(text);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  const reference = new Date();
+  const matches: Array<{ date: Date; order: DateOrder | null }> = [];
+  for (const format of formats) {
+    const parsed = parseDate(text, format, reference);
+    // "yyyy" reads "24" as the year 24; leave two-digit years to a "yy" candidate.
+    if (Number.isNaN(parsed.getTime()) || parsed.getFullYear() < 1000) continue;
+    matches.push({ date: parsed, order: formatOrder(format) });
+  }
+  const [first] = matches;
+  if (!first?.order) return first?.date ?? null;
+  const alternative = matches.find(
+    (match) => match.order && match.order !== first.order && match.date.getTime() !== first.date.getTime()
+  );
+  if (!alternative) return first.date;
+  if (order === "auto") return "ambiguous";
+  return first.order === order ? first.date : alternative.date;
+}
+
+function excelSerialDate(serial: number): Date | null {
+  if (!Number.isFinite(serial) || serial < 1 || serial > MAX_EXCEL_SERIAL) return null;
+  const days = Math.floor(serial);
+  const date = new Date(EXCEL_EPOCH.year, EXCEL_EPOCH.month, EXCEL_EPOCH.day + days + (days < 60 ? 1 : 0));
+  date.setMilliseconds(Math.round((serial - days) * 86400000));
+  return date;
+}
+
+/** The country a row's subdivision belongs to; rows without a country value default to the US. */
+function resolveRowCountry(row: RecipeRow, countryField: string | undefined): Country | null {
+  const countryValue = countryField ? row[countryField] : undefined;
+  if (typeof countryValue === "number" || (typeof countryValue === "string" && countryValue.trim())) {
+    return lookupCountry(countryValue);
+  }
+  return lookupCountry("US");
+}
+
+/** The currency whose minor units apply to a row: `currency` if set, else the row's `currencyField` value. */
+function rowCurrency(row: RecipeRow, currency: string | undefined, currencyField: string | undefined): Currency | null {
+  const code = currency ?? (currencyField ? row[currencyField] : undefined);
+  if (typeof code !== "string" || !code.trim()) return null;
+  const match = lookupCurrency(code);
+  return match && "currency" in match ? match.currency : null;
+}
+
+function currencyError(
+  rowIndex: number,
+  field: string,
+  value: unknown,
+  match: { candidates: Currency[] } | null
+): RecipeError {
+  if (match) {
+    const codes = match.candidates.map((currency) => currency.code).join(", ");
+    return {
+      rowIndex,
+      field,
+      code: "ambiguous_currency",
+      message: `${field} "${value}" could be ${codes}; set a locale to choose`
+    };
+  }
+  return { rowIndex, field, code: "unknown_currency", message: `${field} "${value}" is not a known currency` };
+}
+
+export function resolveCurrencyField(field: string, currencyField: string | undefined): string {
+  return currencyField ?? `${field}_currency`;
+}
+
+/**
+ * Splits a money string into its number and the currency text around it:
+ * "€1.234,56" gives "1.234,56" and "€"; "(USD 12.50)" gives "-12.50" and "USD".
+ */
+function splitMoney(value: string): { amount: string; currencyText: string } | null {
+  const trimmed = value.trim();
+  const number = trimmed.match(/\d(?:[\d.,'\s\u00a0\u202f]*\d)?/);
+  if (!number || number.index === undefined) {
+    return null;
+  }
+  const before = trimmed.slice(0, number.index);
+  const after = trimmed.slice(number.index + number[0].length);
+  const negative = /^\(.*\)$/.test(trimmed) || /[-−]/.test(before);
+  return {
+    amount: `${negative ? "-" : ""}${number[0]}`,
+    currencyText: `${before} ${after}`.replace(/[()\-−]/g, " ").trim()
+  };
+}
+
+/**
+ * Parses the number part of a money string. With both "." and "," present the
+ * last one is the decimal separator, and a separator used more than once
+ * groups thousands. A lone separator followed by exactly three digits groups
+ * thousands for currencies with fewer minor units ("€1.234", "¥1,234");
+ * otherwise the locale's decimal separator decides.
+ */
+function parseMoneyAmount(amount: string, currency: Currency | null, locale: string): number | undefined {
+  const digits = amount.replace(/[\s\u00a0\u202f']/g, "");
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+  let decimal: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? "." : ",";
+    const fractionDigits = digits.length - Math.max(lastDot, lastComma) - 1;
+    if (digits.indexOf(separator) !== digits.lastIndexOf(separator)) {
+      decimal = null;
+    } else if (fractionDigits !== 3) {
+      decimal = separator;
+    } else if (currency && currency.minorUnits < 3) {
+      decimal = null;
+    } else {
+      const localeDecimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === "decimal");
+      decimal = localeDecimal?.value === separator ? separator : null;
+    }
   }
+  const numeric = Number(digits.replace(/[.,]/g, (separator) => (separator === decimal ? "." : "")));
+  return Number.isFinite(numeric) ? numeric : undefined;
 }
 
 function collapseWhitespace(value: string): string {
@@ -402,27 +684,136 @@ function standardizeBoolean(value: unknown): boolean | undefined {
   return undefined;
 }
 
-function toUtcString(value: unknown): string | null {
-  let date: Date | null = null;
-  if (value instanceof Date) {
-    date = value;
-  } else if (typeof value === "number") {
-    date = new Date(value);
-  } else if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) {
-      return null;
-    }
-    const parsed = new Date(trimmed);
-    if (!Number.isNaN(parsed.getTime())) {
-      date = parsed;
+/** The zone a row's zone-less datetimes are read in: its `timezoneField` value, else `timezone`, else UTC. */
+function rowTimezone(row: RecipeRow, timezone: string | undefined, timezoneField: string | undefined): string {
+  const value = timezoneField ? row[timezoneField] : undefined;
+  return typeof value === "string" && value.trim() ? value.trim() : (timezone ?? "UTC");
+}
+
+const DAY_MS = 86400000;
+const zoneFormats = new Map<string, Intl.DateTimeFormat | null>();
+
+function zoneFormat(timeZone: string): Intl.DateTimeFormat | null {
+  if (!zoneFormats.has(timeZone)) {
+    try {
+      const format = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric"
+      });
+      zoneFormats.set(timeZone, format);
+    } catch {
+      zoneFormats.set(timeZone, null);
     }
   }
-  if (!date || Number.isNaN(date.getTime())) {
-    return null;
+  return zoneFormats.get(timeZone) ?? null;
+}
+
+/** Milliseconds a zone's wall clock is ahead of UTC at an instant. */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = zoneFormat(timeZone)?.formatToParts(new Date(instant)) ?? [];
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wall - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+/**
+ * The instant a wall-clock time (given as UTC milliseconds) names in a zone. A
+ * time repeated when clocks go back is the earlier instant; a time skipped when
+ * they go forward moves ahead by the gap, so 02:30 becomes 03:30.
+ */
+function zonedTimeToInstant(wall: number, timeZone: string): number {
+  const before = zoneOffset(wall - DAY_MS, timeZone);
+  const after = zoneOffset(wall + DAY_MS, timeZone);
+  const instants = [wall - before, wall - after].filter((instant) => zoneOffset(instant, timeZone) === wall - instant);
+  return instants.length > 0 ? Math.min(...instants) : wall - before;
+}
+
+const ISO_DATETIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+// The zone words `Date` resolves (any other word makes it reject the value), and numeric offsets after a time.
+const ZONE_WORD = /(?:^|[^a-z])(?:utc?|gmt|z|[ecmp][sd]t)(?![a-z])/i;
+const ZONE_OFFSET = /\d:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:[ap]m\s*)?[+-]\d{1,2}:?\d{2}/i;
+
+/** Whether `Date` reads a value as an absolute instant rather than server-local time; comments in parentheses are ignored. */
+function hasExplicitZone(text: string): boolean {
+  const stripped = text.replace(/\([^)]*\)/g, " ");
+  return ZONE_WORD.test(stripped) || ZONE_OFFSET.test(stripped);
+}
+
+/**
+ * Reads a datetime as an instant. Explicit offsets and zones ("+07:00", "Z",
+ * "GMT", "EST") are respected; zone-less values are wall-clock times in `timeZone`. Numbers are
+ * epoch milliseconds.
+ */
+function toInstant(value: unknown, timeZone: string): number | null {
+  if (value instanceof Date || typeof value === "number") {
+    const time = value instanceof Date ? value.getTime() : value;
+    return Number.isFinite(time) ? time : null;
   }
-  const iso = date.toISOString();
-  return iso.endsWith(".000Z") ? iso.replace(".000Z", "Z") : iso;
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  const iso = text.match(ISO_DATETIME);
+  if (iso) {
+    const [, year, month, day, hour = "0", minute = "0", second = "0", fraction = "0", offset] = iso;
+    const wall = Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+      Math.round(Number(`0.${fraction}`) * 1000)
+    );
+    const check = new Date(wall);
+    if (check.getUTCMonth() !== Number(month) - 1 || check.getUTCDate() !== Number(day) || Number(hour) > 23) {
+      return null;
+    }
+    return offset ? wall - offsetMilliseconds(offset) : zonedTimeToInstant(wall, timeZone);
+  }
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return null;
+  if (hasExplicitZone(text)) return parsed.getTime();
+  // Other zone-less formats are parsed in server-local time, so only their wall-clock fields are kept.
+  const wall = Date.UTC(
+    parsed.getFullYear(),
+    parsed.getMonth(),
+    parsed.getDate(),
+    parsed.getHours(),
+    parsed.getMinutes(),
+    parsed.getSeconds(),
+    parsed.getMilliseconds()
+  );
+  return zonedTimeToInstant(wall, timeZone);
+}
+
+function offsetMilliseconds(offset: string): number {
+  if (offset.toUpperCase() === "Z") return 0;
+  const [, sign, hours, minutes = "0"] = offset.match(/^([+-])(\d{2}):?(\d{2})?$/) ?? [];
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) * 60000;
+}
+
+/**
+ * Writes an instant as wall-clock time in a zone: an ISO 8601 string with its
+ * offset ("Z" for UTC), the date alone, or the `{ date, time }` shape monday
+ * date columns take.
+ */
+function formatInstant(instant: number, timeZone: string, output: "iso" | "date" | "monday"): string | { date: string; time: string } {
+  const offset = zoneOffset(instant, timeZone);
+  const wall = new Date(instant + offset).toISOString();
+  const date = wall.slice(0, 10);
+  const time = wall.slice(11, 19);
+  if (output === "date") return date;
+  if (output === "monday") return { date, time };
+  const milliseconds = wall.slice(19, 23) === ".000" ? "" : wall.slice(19, 23);
+  if (offset === 0) return `${date}T${time}${milliseconds}Z`;
+  const minutes = Math.abs(offset) / 60000;
+  const hhmm = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+  return `${date}T${time}${milliseconds}${offset < 0 ? "-" : "+"}${hhmm}`;
 }
 
 function slugifyValue(value: string, separator: string): string {
@@ -512,7 +903,7 @@ function removeSpecialCharacters(value: string): string {
   return value.replace(/[\u0000-\u001F\u007F-\u009F\u200B-\u200D\u2060\uFEFF]/g, "");
 }
 
-function resolveNameField(
+export function resolveNameField(
   field: string,
   override: string | undefined,
   part: "first" | "last"
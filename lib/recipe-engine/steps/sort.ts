@@ -0,0 +1,69 @@
+import type { RecipeRow, SortKey, SortStep } from "../index";
+
+type SortConfig = SortStep["config"];
+
+/**
+ * Stable sort on several keys. Empty values (null, undefined, blank strings)
+ * are placed by `nulls` regardless of direction, so they never interleave
+ * with real values.
+ */
+export function sortRows(rows: RecipeRow[], config: SortConfig): { rows: RecipeRow[]; origins: number[] } {
+  const collator = new Intl.Collator(config.locale ?? "en", { sensitivity: "base", numeric: true });
+  const compareKey = (key: SortKey, left: unknown, right: unknown): number => {
+    const leftEmpty = isEmpty(left);
+    const rightEmpty = isEmpty(right);
+    if (leftEmpty || rightEmpty) {
+      if (leftEmpty && rightEmpty) return 0;
+      return (leftEmpty ? -1 : 1) * (key.nulls === "first" ? 1 : -1);
+    }
+    const order = compareValues(key.compare ?? "auto", left, right, collator);
+    return key.direction === "desc" ? -order : order;
+  };
+
+  const origins = rows
+    .map((_, index) => index)
+    .sort((left, right) => {
+      for (const key of config.keys) {
+        const order = compareKey(key, rows[left][key.field], rows[right][key.field]);
+        if (order !== 0) return order;
+      }
+      return left - right;
+    });
+  return { rows: origins.map((index) => rows[index]), origins };
+}
+
+function compareValues(
+  mode: NonNullable<SortKey["compare"]>,
+  left: unknown,
+  right: unknown,
+  collator: Intl.Collator
+): number {
+  if (mode !== "text") {
+    const leftNumber = toNumber(left);
+    const rightNumber = toNumber(right);
+    if (leftNumber !== null && rightNumber !== null) {
+      return leftNumber - rightNumber;
+    }
+    if (mode === "number") {
+      // Values that are not numbers sort after numbers, collated among themselves.
+      if (leftNumber !== null) return -1;
+      if (rightNumber !== null) return 1;
+    }
+  }
+  return collator.compare(String(left), String(right));
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
@@ -1,26 +1,29 @@
-import type { RecipeRow, RecipeError } from "../index";
+import type { RecipeRow, RecipeError, Condition } from "../index";
+import { evaluateCondition } from "../conditions";
 
 type ValidateConfig = {
   rules: Array<
-    | {
-        kind: "required";
-        field: string;
-      }
-    | {
-        kind: "regex";
-        field: string;
-        pattern: string;
-        message?: string;
-      }
-    | {
-        kind: "in_set";
-        field: string;
-        values: string[];
-      }
-    | {
-        kind: "unique";
-        composite: string[];
-      }
+    (
+      | {
+          kind: "required";
+          field: string;
+        }
+      | {
+          kind: "regex";
+          field: string;
+          pattern: string;
+          message?: string;
+        }
+      | {
+          kind: "in_set";
+          field: string;
+          values: string[];
+        }
+      | {
+          kind: "unique";
+          composite: string[];
+        }
+    ) & { when?: Condition }
   >;
 };
 
@@ -30,11 +33,15 @@ export function validateRows(rows: RecipeRow[], config: ValidateConfig): { error
     .filter((rule): rule is Extract<(typeof config.rules)[number], { kind: "unique" }> => rule.kind === "unique")
     .map((rule) => ({
       fields: rule.composite,
+      when: rule.when,
       seen: new Map<string, number>()
     }));
 
   rows.forEach((row, rowIndex) => {
     for (const rule of config.rules) {
+      if (rule.when && !evaluateCondition(rule.when, row)) {
+        continue;
+      }
       switch (rule.kind) {
         case "required": {
           const value = row[rule.field];
@@ -94,7 +101,10 @@ export function validateRows(rows: RecipeRow[], config: ValidateConfig): { error
       }
     }
 
-    uniqueTrackers.forEach(({ fields, seen }) => {
+    uniqueTrackers.forEach(({ fields, when, seen }) => {
+      if (when && !evaluateCondition(when, row)) {
+        return;
+      }
       const signature = fields.map((field) => String(row[field] ?? "").toLowerCase()).join("|");
       if (!signature.trim()) {
         return;
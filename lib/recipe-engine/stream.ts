@@ -0,0 +1,167 @@
+import type {
+  EngineOptions,
+  RecipeDefinition,
+  RecipeError,
+  RecipeExecuteResult,
+  RecipeRow,
+  RejectedRow
+} from "./index";
+import { defaultStepRegistry } from "./builtins";
+import { applyErrorPolicy, executeStep, resolveStep, stepScope, type ResolvedStep } from "./dispatch";
+import { startLineage, traceStep, type Lineage } from "./lineage";
+import { bindRecipeParameters } from "./parameters";
+import type { StepContext } from "./registry";
+import { createLogger } from "@/lib/logging";
+
+export type StreamOptions = EngineOptions & {
+  /** Rows handed to each row-scoped step at a time; defaults to 500. */
+  chunkSize?: number;
+};
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+type Chunk = {
+  rows: RecipeRow[];
+  lineage: Lineage;
+};
+
+type StreamState = {
+  errors: RecipeError[];
+  rejected: RejectedRow[];
+  written: number;
+  failed: boolean;
+};
+
+/**
+ * Executes a recipe over a row stream. Row-scoped steps see one bounded chunk
+ * at a time; the stream is only buffered in front of table-scoped steps such as
+ * dedupe or `unique` validation. Error row indices match `executeRecipe`.
+ * A `fail_run` step stops the stream; write-back after such a step waits for
+ * the whole stream, so a failed run writes nothing.
+ */
+export async function executeRecipeStream(
+  recipe: RecipeDefinition,
+  source: AsyncIterable<RecipeRow> | Iterable<RecipeRow>,
+  options: StreamOptions
+): Promise<RecipeExecuteResult> {
+  const logger = createLogger({ component: "recipe-engine.stream" });
+  const registry = options.registry ?? defaultStepRegistry;
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE));
+  // Resolve every step before reading so config errors surface before any write-back.
+  const steps = bindRecipeParameters(recipe, options.parameters).steps.map((step, stepIndex) =>
+    resolveStep(registry, step, stepIndex)
+  );
+  const state: StreamState = { errors: [], rejected: [], written: 0, failed: false };
+  let rowsProcessed = 0;
+
+  async function* read(): AsyncGenerator<Chunk> {
+    let rows: RecipeRow[] = [];
+    for await (const row of source) {
+      rows.push(row);
+      if (rows.length >= chunkSize) {
+        const lineage = startLineage(rows, options, rowsProcessed);
+        rowsProcessed += rows.length;
+        yield { rows, lineage };
+        rows = [];
+      }
+    }
+    if (rows.length) {
+      const lineage = startLineage(rows, options, rowsProcessed);
+      rowsProcessed += rows.length;
+      yield { rows, lineage };
+    }
+  }
+
+  let stream: AsyncIterable<Chunk> = read();
+  steps.forEach((step, stepIndex) => {
+    const context: StepContext = { stepIndex, options, logger };
+    const holdsRows =
+      step.definition.type === "write_back" && steps.slice(0, stepIndex).some((earlier) => earlier.onError === "fail_run");
+    stream =
+      stepScope(step) === "row" && !holdsRows
+        ? runRowStep(stream, step, context, state)
+        : runTableStep(stream, step, context, state, chunkSize);
+  });
+
+  // Draining the stream runs every step; write-back counts its own rows.
+  for await (const _chunk of stream) {
+    // Rows leaving the last step are not written unless a write_back step handled them.
+  }
+
+  return {
+    rowsProcessed,
+    rowsWritten: state.failed ? 0 : state.written,
+    errors: state.errors,
+    rejected: state.rejected,
+    failed: state.failed
+  };
+}
+
+async function* runRowStep(
+  input: AsyncIterable<Chunk>,
+  step: ResolvedStep,
+  context: StepContext,
+  state: StreamState
+): AsyncGenerator<Chunk> {
+  // Rows that entered this step in earlier chunks, so row indices stay relative
+  // to the step's full input.
+  let offset = 0;
+  for await (const chunk of input) {
+    const result = await executeStep(step, chunk.rows, context);
+    const outcome = applyErrorPolicy(step, chunk.rows, result, context.stepIndex);
+    state.written += result.written ?? 0;
+    const traced = traceStep(chunk.lineage, context.stepIndex, step, result, outcome);
+    const shift = (error: RecipeError) => (error.rowIndex >= 0 ? { ...error, rowIndex: error.rowIndex + offset } : error);
+    state.errors.push(...traced.errors.map(shift));
+    for (const rejected of traced.rejected) {
+      state.rejected.push({ ...rejected, rowIndex: rejected.rowIndex + offset, errors: rejected.errors.map(shift) });
+    }
+    offset += chunk.rows.length;
+    if (outcome.failed) {
+      state.failed = true;
+      return;
+    }
+    yield { rows: outcome.rows, lineage: traced.lineage };
+  }
+}
+
+async function* runTableStep(
+  input: AsyncIterable<Chunk>,
+  step: ResolvedStep,
+  context: StepContext,
+  state: StreamState,
+  chunkSize: number
+): AsyncGenerator<Chunk> {
+  const buffered: RecipeRow[] = [];
+  const lineage: Lineage = { sourceIds: [], fieldSources: new Map() };
+  for await (const chunk of input) {
+    chunk.rows.forEach((row, index) => {
+      buffered.push(row);
+      lineage.sourceIds.push(chunk.lineage.sourceIds[index]);
+    });
+    lineage.fieldSources = chunk.lineage.fieldSources;
+  }
+  if (state.failed) {
+    return;
+  }
+  context.logger.debug("stream buffered table step", { step: step.definition.type, rows: buffered.length });
+  const result = await executeStep(step, buffered, context);
+  const outcome = applyErrorPolicy(step, buffered, result, context.stepIndex);
+  state.written += result.written ?? 0;
+  const traced = traceStep(lineage, context.stepIndex, step, result, outcome);
+  state.errors.push(...traced.errors);
+  state.rejected.push(...traced.rejected);
+  if (outcome.failed) {
+    state.failed = true;
+    return;
+  }
+  for (let start = 0; start < outcome.rows.length; start += chunkSize) {
+    yield {
+      rows: outcome.rows.slice(start, start + chunkSize),
+      lineage: {
+        sourceIds: traced.lineage.sourceIds.slice(start, start + chunkSize),
+        fieldSources: traced.lineage.fieldSources
+      }
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import { defaultStepRegistry, previewRecipe, type RecipeDefinition, type RecipePreviewResult, type RecipeRow } from "./recipe-engine";
+import { bindRecipeParameters, collectParameterRefs, placeholderValues } from "./recipe-engine/parameters";
+import { recipeDefinitionSchema, schemaIssues, type SchemaIssue } from "./recipe-engine/schema";
+import { STANDARDIZATION_RULES, type OperationConfig, type StandardizationRule } from "./standardizationRules";
+
+/** A step as the builder holds it: the config is only checked when the step is edited in a form. */
+export type DraftStep = {
+  type: string;
+  config: unknown;
+  [modifier: string]: unknown;
+};
+
+/** Recipe JSON being edited; shaped like a recipe but not necessarily valid yet. */
+export type RecipeDraft = Omit<RecipeDefinition, "steps"> & { steps: DraftStep[] };
+
+export type BuilderStepType =
+  | "map_columns"
+  | "format"
+  | "validate"
+  | "derive"
+  | "filter"
+  | "sort"
+  | "dedupe"
+  | "write_back";
+
+export const BUILDER_STEP_TYPES: Array<{ type: BuilderStepType; label: string }> = [
+  { type: "map_columns", label: "Map columns" },
+  { type: "format", label: "Format fields" },
+  { type: "validate", label: "Validate" },
+  { type: "derive", label: "Derive fields" },
+  { type: "filter", label: "Filter rows" },
+  { type: "sort", label: "Sort rows" },
+  { type: "dedupe", label: "Remove duplicates" },
+  { type: "write_back", label: "Write back" }
+];
+
+const EMPTY_CONFIGS: Record<BuilderStepType, unknown> = {
+  map_columns: { mapping: {} },
+  format: { operations: [] },
+  validate: { rules: [] },
+  derive: { fields: [] },
+  filter: { mode: "drop", condition: { field: "", op: "empty" } },
+  sort: { keys: [{ field: "" }] },
+  dedupe: { keys: [] },
+  write_back: { strategy: "monday_upsert" }
+};
+
+export function newBuilderStep(type: BuilderStepType): DraftStep {
+  return { type, config: structuredClone(EMPTY_CONFIGS[type]) };
+}
+
+export type FormatOptionField = {
+  key: string;
+  label: string;
+  input: "text" | "number" | "select";
+  placeholder?: string;
+  /** Values offered by a select; blank keeps the op's default. */
+  choices?: string[];
+};
+
+/** Option inputs shown for each format op kind; kinds without an entry take no options. */
+export const FORMAT_OP_OPTIONS: Partial<Record<OperationConfig["kind"], FormatOptionField[]>> = {
+  phone_e164: [{ key: "defaultCountry", label: "Default country", input: "text", placeholder: "US" }],
+  date_parse: [
+    { key: "inputFormat", label: "Input format", input: "text", placeholder: "MM/dd/yyyy" },
+    { key: "order", label: "Day/month order", input: "select", placeholder: "auto", choices: ["auto", "day_first", "month_first"] },
+    { key: "outputFormat", label: "Output format", input: "text", placeholder: "yyyy-MM-dd" }
+  ],
+  timezone_to_utc: [
+    { key: "sourceTimezone", label: "Source timezone", input: "text", placeholder: "UTC" },
+    { key: "sourceTimezoneField", label: "Source timezone field", input: "text" },
+    { key: "targetTimezone", label: "Target timezone", input: "text", placeholder: "UTC" },
+    { key: "output", label: "Output", input: "select", placeholder: "iso", choices: ["iso", "date", "monday"] }
+  ],
+  iso_country: [{ key: "output", label: "Output", input: "select", placeholder: "alpha2", choices: ["alpha2", "alpha3", "name"] }],
+  iso_state: [{ key: "countryField", label: "Country field", input: "text" }],
+  currency_code: [{ key: "locale", label: "Locale", input: "text", placeholder: "en-US" }],
+  money_parse: [
+    { key: "currencyField", label: "Currency field", input: "text" },
+    { key: "defaultCurrency", label: "Default currency", input: "text", placeholder: "USD" },
+    { key: "locale", label: "Locale", input: "text", placeholder: "en-US" }
+  ],
+  number_parse: [{ key: "locale", label: "Locale", input: "text", placeholder: "en-US" }],
+  slugify: [{ key: "separator", label: "Separator", input: "text", placeholder: "-" }],
+  round_numeric: [{ key: "precision", label: "Decimal places", input: "number", placeholder: "2" }],
+  round_to_currency: [
+    { key: "currency", label: "Currency", input: "text", placeholder: "USD" },
+    { key: "currencyField", label: "Currency field", input: "text" }
+  ],
+  split_name: [
+    { key: "firstNameField", label: "First name field", input: "text" },
+    { key: "lastNameField", label: "Last name field", input: "text" }
+  ]
+};
+
+/** The catalog entry producing `op`'s kind, so a stored operation shows up under the rule that builds it. */
+export function ruleForOperation(field: string, op: OperationConfig): StandardizationRule | null {
+  return (
+    STANDARDIZATION_RULES.find((rule) => rule.matches(field, op)) ??
+    STANDARDIZATION_RULES.find((rule) => rule.build(field).op.kind === op.kind) ??
+    null
+  );
+}
+
+/** Sets an option of a format op from form input; blank input removes the option. */
+export function setFormatOption(op: OperationConfig, option: FormatOptionField, raw: string): OperationConfig {
+  const { [option.key]: _previous, ...rest } = op as Record<string, unknown>;
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return rest as OperationConfig;
+  }
+  const value = option.input === "number" ? Number(trimmed) : trimmed;
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return op;
+  }
+  return { ...rest, [option.key]: value } as OperationConfig;
+}
+
+/**
+ * True when the builder can edit the step with a form: a built-in type whose
+ * config has the expected shape and holds no parameter references. Issues an
+ * unfinished form produces (empty lists and names, expressions or patterns
+ * that do not parse yet) keep the form; other steps are edited as JSON.
+ */
+export function isFormEditable(step: DraftStep): boolean {
+  const definition = BUILDER_STEP_TYPES.some((entry) => entry.type === step.type)
+    ? defaultStepRegistry.get(step.type)
+    : undefined;
+  if (!definition || collectParameterRefs(step.config).length > 0) {
+    return false;
+  }
+  const parsed = definition.configSchema.safeParse(step.config);
+  return (
+    parsed.success ||
+    parsed.error.issues.every(
+      (issue) => issue.code === z.ZodIssueCode.custom || issue.code === z.ZodIssueCode.too_small
+    )
+  );
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) {
+    return items;
+  }
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+const draftSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    version: z.number(),
+    steps: z.array(z.object({ type: z.string(), config: z.unknown() }).passthrough())
+  })
+  .passthrough();
+
+/**
+ * Reads recipe JSON from the JSON view. Only the outline is checked, so a
+ * half-finished recipe can still be opened in the builder.
+ */
+export function parseRecipeDraft(source: string): { draft: RecipeDraft } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+  const parsed = draftSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      error: schemaIssues(parsed.error)
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")
+    };
+  }
+  return { draft: parsed.data as RecipeDraft };
+}
+
+/** One blank row keyed by the columns the first mapping reads, as a starting point for sample rows. */
+export function sampleRowsForDraft(draft: RecipeDraft): RecipeRow[] {
+  const mapping = draft.steps.find((step) => step.type === "map_columns" && isFormEditable(step));
+  const columns = Object.keys((mapping?.config as { mapping?: Record<string, string> } | undefined)?.mapping ?? {});
+  return columns.length > 0 ? [Object.fromEntries(columns.map((column) => [column, ""]))] : [];
+}
+
+/**
+ * Runs the draft over sample rows for the builder's live preview. Parameters
+ * are bound with their defaults or placeholders; includes are not expanded.
+ */
+export function previewDraft(
+  draft: RecipeDraft,
+  rows: RecipeRow[]
+): { result: RecipePreviewResult } | { issues: SchemaIssue[] } {
+  const parsed = recipeDefinitionSchema.safeParse(draft);
+  if (!parsed.success) {
+    return { issues: schemaIssues(parsed.error) };
+  }
+  try {
+    const bound = bindRecipeParameters(parsed.data, placeholderValues(parsed.data.parameters));
+    return { result: previewRecipe(bound, rows, { allowFuzzy: true }) };
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return { issues: [{ path: "$", message: error.message }] };
+  }
+}
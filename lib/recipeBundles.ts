@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { ValidationError } from "./errors";
+import { lookupTableReferences, lookupTableSchema } from "./lookupTables";
+import { recipeDefinitionSchema, schemaIssues } from "./recipe-engine/schema";
+import type { LookupTable, RecipeDefinition } from "./recipe-engine";
+
+export const RECIPE_BUNDLE_FORMAT = "recipe-bundle/v1";
+
+export type BundleEncoding = "json" | "yaml";
+
+export type BundleBase = {
+  version: number;
+  checksum: string;
+};
+
+export type RecipeBundle = {
+  format: typeof RECIPE_BUNDLE_FORMAT;
+  exportedAt: string;
+  recipe: {
+    name: string;
+    version: number;
+    /**
+     * The version this one was saved on top of and its content checksum;
+     * imports only fast-forward targets whose current content matches it.
+     */
+    base?: BundleBase;
+    definition: RecipeDefinition;
+  };
+  /** Named lookup tables the recipe references, keyed by table name. */
+  lookupTables: Record<string, LookupTable>;
+  /** sha256 of the canonical JSON of `recipe` and `lookupTables`. */
+  checksum: string;
+};
+
+const checksumSchema = z.string().regex(/^[0-9a-f]{64}$/, "Expected a sha256 hex digest");
+
+const bundleSchema = z.object({
+  format: z.literal(RECIPE_BUNDLE_FORMAT),
+  exportedAt: z.string(),
+  recipe: z.object({
+    name: z.string().min(1),
+    version: z.number().int().positive(),
+    base: z.object({ version: z.number().int().positive(), checksum: checksumSchema }).optional(),
+    definition: recipeDefinitionSchema
+  }),
+  lookupTables: z.record(lookupTableSchema).default({}),
+  checksum: checksumSchema
+});
+
+export function createRecipeBundle(
+  recipe: { name: string; version: number; base?: BundleBase; definition: RecipeDefinition },
+  lookupTables: Record<string, LookupTable> = {}
+): RecipeBundle {
+  const content = { recipe, lookupTables };
+  return {
+    format: RECIPE_BUNDLE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    ...content,
+    checksum: bundleChecksum(content)
+  };
+}
+
+export function encodeRecipeBundle(bundle: RecipeBundle, encoding: BundleEncoding): string {
+  return encoding === "yaml" ? stringifyYaml(bundle) : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+/**
+ * Parses a JSON or YAML bundle (JSON is valid YAML), validates the recipe
+ * against the recipe schema, verifies the checksum and checks that every
+ * lookup table the recipe references is bundled. Throws `ValidationError`
+ * with JSON-path issues.
+ */
+export function decodeRecipeBundle(source: string): RecipeBundle {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error) {
+    throw new ValidationError("Bundle is not valid JSON or YAML", [{ path: "$", message: (error as Error).message }]);
+  }
+  const parsed = bundleSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ValidationError("Invalid recipe bundle", schemaIssues(parsed.error));
+  }
+  // The checksum covers the bundle as exported, before any schema migration ran.
+  const exported = raw as { recipe: unknown; lookupTables?: unknown };
+  const checksum = bundleChecksum({ recipe: exported.recipe, lookupTables: exported.lookupTables ?? {} });
+  if (checksum !== parsed.data.checksum) {
+    throw new ValidationError("Bundle checksum mismatch", [
+      { path: "checksum", message: "Bundle content was modified after export" }
+    ]);
+  }
+  const missing = lookupTableReferences(parsed.data.recipe.definition).filter(
+    (reference) => !Object.hasOwn(parsed.data.lookupTables, reference.table)
+  );
+  if (missing.length > 0) {
+    throw new ValidationError(
+      "Bundle is missing lookup tables",
+      missing.map((reference) => ({
+        path: `recipe.definition.${reference.path}`,
+        message: `Lookup table "${reference.table}" is not in the bundle`
+      }))
+    );
+  }
+  return parsed.data as RecipeBundle;
+}
+
+export function bundleChecksum(content: { recipe: unknown; lookupTables: unknown }): string {
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+}
+
+/** sha256 of a recipe's content, ignoring the id and version stamped on save. */
+export function recipeContentChecksum(definition: unknown): string {
+  const content = { ...(definition as Record<string, unknown>), id: undefined, version: undefined };
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+}
+
+/** JSON with object keys sorted, so checksums survive re-encoding as YAML. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,238 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import { newId } from "./ids";
+import { canonicalJson } from "./recipeBundles";
+import { previewRecipe, type EngineOptions, type RecipeDefinition, type RecipeError, type RecipeRow } from "./recipe-engine";
+import type { Database, Json } from "@/types/supabase";
+
+export type RecipeFixtureRecord = Database["public"]["Tables"]["recipe_fixtures"]["Row"];
+type RecipeFixtureInsert = Database["public"]["Tables"]["recipe_fixtures"]["Insert"];
+
+const FIXTURE_COLUMNS = "id, recipe_id, tenant_id, name, input, expected_rows, expected_errors, created_by, created_at";
+
+export type ExpectedError = {
+  code: string;
+  rowIndex?: number;
+  field?: string;
+};
+
+/**
+ * Input rows run through `previewRecipe` together with the rows and/or error
+ * codes the recipe must produce. Errors are only checked when
+ * `expectedErrors` is given; an empty list asserts that there are none.
+ */
+export type RecipeFixture = {
+  name: string;
+  input: RecipeRow[];
+  expectedRows?: RecipeRow[];
+  expectedErrors?: ExpectedError[];
+};
+
+export type FixtureMismatch =
+  | { kind: "row_count"; expected: number; actual: number }
+  | { kind: "cell"; rowIndex: number; field: string; expected: unknown; actual: unknown }
+  | { kind: "missing_error"; code: string; rowIndex?: number; field?: string }
+  | { kind: "unexpected_error"; code: string; rowIndex: number; field?: string; message: string }
+  | { kind: "exception"; message: string };
+
+export type FixtureResult = {
+  name: string;
+  passed: boolean;
+  mismatches: FixtureMismatch[];
+};
+
+export type FixtureRunSummary = {
+  passed: boolean;
+  results: FixtureResult[];
+};
+
+const rowSchema = z.record(z.unknown());
+
+export const recipeFixtureSchema: z.ZodType<RecipeFixture, z.ZodTypeDef, unknown> = z
+  .object({
+    name: z.string().min(1),
+    input: z.array(rowSchema),
+    expectedRows: z.array(rowSchema).optional(),
+    expectedErrors: z
+      .array(
+        z.object({
+          code: z.string().min(1),
+          rowIndex: z.number().int().nonnegative().optional(),
+          field: z.string().optional()
+        })
+      )
+      .optional()
+  })
+  .refine((fixture) => fixture.expectedRows !== undefined || fixture.expectedErrors !== undefined, {
+    message: "A fixture needs expectedRows, expectedErrors or both",
+    path: ["expectedRows"]
+  });
+
+export function runRecipeFixture(
+  recipe: RecipeDefinition,
+  fixture: RecipeFixture,
+  options: Pick<EngineOptions, "allowFuzzy" | "registry" | "lookupTables"> = { allowFuzzy: false }
+): FixtureResult {
+  let rows: RecipeRow[];
+  let errors: RecipeError[];
+  try {
+    ({ rows, errors } = previewRecipe(recipe, fixture.input, options));
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return { name: fixture.name, passed: false, mismatches: [{ kind: "exception", message: error.message }] };
+  }
+
+  const mismatches: FixtureMismatch[] = [];
+  if (fixture.expectedRows) {
+    mismatches.push(...compareRows(fixture.expectedRows, rows));
+  }
+  if (fixture.expectedErrors) {
+    mismatches.push(...compareErrors(fixture.expectedErrors, errors));
+  }
+  return { name: fixture.name, passed: mismatches.length === 0, mismatches };
+}
+
+export function runRecipeFixtures(
+  recipe: RecipeDefinition,
+  fixtures: RecipeFixture[],
+  options?: Pick<EngineOptions, "allowFuzzy" | "registry" | "lookupTables">
+): FixtureRunSummary {
+  const results = fixtures.map((fixture) => runRecipeFixture(recipe, fixture, options));
+  return { passed: results.every((result) => result.passed), results };
+}
+
+/** Compares rows position by position over the union of their fields. */
+function compareRows(expected: RecipeRow[], actual: RecipeRow[]): FixtureMismatch[] {
+  const mismatches: FixtureMismatch[] = [];
+  if (expected.length !== actual.length) {
+    mismatches.push({ kind: "row_count", expected: expected.length, actual: actual.length });
+  }
+  const shared = Math.min(expected.length, actual.length);
+  for (let rowIndex = 0; rowIndex < shared; rowIndex += 1) {
+    const fields = new Set([...Object.keys(expected[rowIndex]), ...Object.keys(actual[rowIndex])]);
+    for (const field of fields) {
+      const want = expected[rowIndex][field];
+      const got = actual[rowIndex][field];
+      if (canonicalJson(want) !== canonicalJson(got)) {
+        mismatches.push({ kind: "cell", rowIndex, field, expected: want ?? null, actual: got ?? null });
+      }
+    }
+  }
+  return mismatches;
+}
+
+/** Each expected error consumes one matching actual error; leftovers are unexpected. */
+function compareErrors(expected: ExpectedError[], actual: RecipeError[]): FixtureMismatch[] {
+  const remaining = [...actual];
+  const mismatches: FixtureMismatch[] = [];
+  for (const want of expected) {
+    const index = remaining.findIndex(
+      (error) =>
+        error.code === want.code &&
+        (want.rowIndex === undefined || error.rowIndex === want.rowIndex) &&
+        (want.field === undefined || error.field === want.field)
+    );
+    if (index === -1) {
+      mismatches.push({ kind: "missing_error", ...want });
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+  for (const error of remaining) {
+    mismatches.push({
+      kind: "unexpected_error",
+      code: error.code,
+      rowIndex: error.rowIndex,
+      field: error.field,
+      message: error.message
+    });
+  }
+  return mismatches;
+}
+
+export function describeMismatch(mismatch: FixtureMismatch): string {
+  switch (mismatch.kind) {
+    case "row_count":
+      return `expected ${mismatch.expected} rows, got ${mismatch.actual}`;
+    case "cell":
+      return `row ${mismatch.rowIndex} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`;
+    case "missing_error": {
+      const at = [
+        mismatch.rowIndex === undefined ? null : `row ${mismatch.rowIndex}`,
+        mismatch.field ?? null
+      ].filter(Boolean);
+      return `missing error ${mismatch.code}${at.length ? ` at ${at.join(" ")}` : ""}`;
+    }
+    case "unexpected_error":
+      return `unexpected error ${mismatch.code} at row ${mismatch.rowIndex}${mismatch.field ? ` ${mismatch.field}` : ""}: ${mismatch.message}`;
+    case "exception":
+      return `recipe failed: ${mismatch.message}`;
+  }
+}
+
+export function fixtureFromRecord(record: RecipeFixtureRecord): RecipeFixture {
+  return {
+    name: record.name,
+    input: record.input as RecipeRow[],
+    expectedRows: (record.expected_rows as RecipeRow[] | null) ?? undefined,
+    expectedErrors: (record.expected_errors as ExpectedError[] | null) ?? undefined
+  };
+}
+
+export async function listRecipeFixtures(
+  supabase: SupabaseClient<Database>,
+  recipeId: string,
+  tenantId: string
+): Promise<RecipeFixtureRecord[]> {
+  const { data, error } = await supabase
+    .from("recipe_fixtures")
+    .select(FIXTURE_COLUMNS)
+    .eq("recipe_id", recipeId)
+    .eq("tenant_id", tenantId)
+    .order("name", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to list recipe fixtures: ${error.message}`);
+  }
+  return (data ?? []) as RecipeFixtureRecord[];
+}
+
+export async function createRecipeFixture(
+  supabase: SupabaseClient<Database>,
+  options: { recipeId: string; tenantId: string; fixture: RecipeFixture; createdBy?: string | null }
+): Promise<RecipeFixtureRecord> {
+  const record: RecipeFixtureInsert = {
+    id: newId(),
+    recipe_id: options.recipeId,
+    tenant_id: options.tenantId,
+    name: options.fixture.name,
+    input: options.fixture.input as Json,
+    expected_rows: (options.fixture.expectedRows as Json | undefined) ?? null,
+    expected_errors: (options.fixture.expectedErrors as Json | undefined) ?? null,
+    created_by: options.createdBy ?? null,
+    created_at: new Date().toISOString()
+  };
+  const { error } = await supabase.from("recipe_fixtures").insert(record);
+  if (error) {
+    throw new Error(`Failed to create recipe fixture: ${error.message}`);
+  }
+  return record as RecipeFixtureRecord;
+}
+
+/** Returns false when no fixture of the recipe had that id. */
+export async function deleteRecipeFixture(
+  supabase: SupabaseClient<Database>,
+  options: { recipeId: string; tenantId: string; fixtureId: string }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("recipe_fixtures")
+    .delete()
+    .eq("id", options.fixtureId)
+    .eq("recipe_id", options.recipeId)
+    .eq("tenant_id", options.tenantId)
+    .select("id");
+  if (error) {
+    throw new Error(`Failed to delete recipe fixture: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,458 @@
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import { recipeDefinitionSchema, schemaIssues } from "./recipe-engine/schema";
+import type { RecipeDefinition, RecipeStep } from "./recipe-engine";
+
+export type TemplateParameterKind = "country" | "currency" | "locale" | "date_format";
+
+export type TemplateParameter = {
+  name: string;
+  label: string;
+  kind: TemplateParameterKind;
+  default: string;
+};
+
+export type RecipeTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  parameters: TemplateParameter[];
+  build: (parameters: Record<string, string>) => RecipeStep[];
+};
+
+export type RecipeTemplateSummary = Omit<RecipeTemplate, "build">;
+
+const parameterSchemas: Record<TemplateParameterKind, z.ZodType<string, z.ZodTypeDef, unknown>> = {
+  country: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/, "Expected an ISO 3166-1 alpha-2 country code")
+    .transform((value) => value.toUpperCase()),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/, "Expected an ISO 4217 currency code")
+    .transform((value) => value.toUpperCase()),
+  locale: z.string().trim().refine(isLocale, "Expected a BCP 47 locale such as en-US"),
+  date_format: z.string().trim().min(1)
+};
+
+const DEFAULT_COUNTRY: TemplateParameter = {
+  name: "defaultCountry",
+  label: "Default country",
+  kind: "country",
+  default: "US"
+};
+const CURRENCY: TemplateParameter = { name: "currency", label: "Default currency", kind: "currency", default: "USD" };
+const NUMBER_LOCALE: TemplateParameter = {
+  name: "numberLocale",
+  label: "Number format locale",
+  kind: "locale",
+  default: "en-US"
+};
+const DATE_FORMAT: TemplateParameter = {
+  name: "dateFormat",
+  label: "Date output format",
+  kind: "date_format",
+  default: "yyyy-MM-dd"
+};
+
+/**
+ * Builds a `map_columns` mapping from target fields to the header spellings
+ * commonly seen in exports. Each synonym also matches in lower and upper case.
+ */
+function synonyms(fields: Record<string, string[]>): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const [target, headers] of Object.entries(fields)) {
+    for (const header of [target, ...headers]) {
+      for (const variant of [header, header.toLowerCase(), header.toUpperCase()]) {
+        mapping[variant] = target;
+      }
+    }
+  }
+  return mapping;
+}
+
+/** Fills blank values of `field` with a literal, e.g. the template's default currency. */
+function fallback(field: string, value: string) {
+  return { field, expression: `\`${field}\` ?? ${JSON.stringify(value)}` };
+}
+
+export const RECIPE_TEMPLATES: RecipeTemplate[] = [
+  {
+    id: "crm_contacts",
+    name: "CRM Contacts",
+    description: "People exported from a CRM: names, email, phone and location, deduplicated by email.",
+    parameters: [DEFAULT_COUNTRY],
+    build: ({ defaultCountry }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            first_name: ["First Name", "FirstName", "Given Name", "fname"],
+            last_name: ["Last Name", "LastName", "Surname", "Family Name", "lname"],
+            email: ["Email", "E-mail", "Email Address", "Work Email"],
+            phone: ["Phone", "Phone Number", "Mobile", "Telephone", "Tel"],
+            company: ["Company", "Company Name", "Organization", "Account"],
+            job_title: ["Title", "Job Title", "Position", "Role"],
+            city: ["City", "Town"],
+            state: ["State", "Province", "Region", "State/Province"],
+            country: ["Country", "Country Name", "Country Code"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "first_name", op: { kind: "title_case" } },
+            { field: "last_name", op: { kind: "title_case" } },
+            { field: "email", op: { kind: "email_normalize" } },
+            { field: "phone", op: { kind: "phone_e164", defaultCountry } },
+            { field: "company", op: { kind: "trim_collapse_whitespace" } },
+            { field: "job_title", op: { kind: "trim_collapse_whitespace" } },
+            { field: "city", op: { kind: "title_case" } },
+            { field: "country", op: { kind: "iso_country" } },
+            { field: "state", op: { kind: "iso_state", countryField: "country" } }
+          ]
+        }
+      },
+      { type: "derive", config: { fields: [fallback("country", defaultCountry)] } },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "email" },
+            { kind: "regex", field: "email", pattern: "^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$", message: "Invalid email" }
+          ]
+        }
+      },
+      { type: "dedupe", config: { keys: ["email"] } },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "email" } }
+    ]
+  },
+  {
+    id: "leads",
+    name: "Leads",
+    description: "Inbound leads from forms and lists, with lead scores and capture dates.",
+    parameters: [DEFAULT_COUNTRY, DATE_FORMAT],
+    build: ({ defaultCountry, dateFormat }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            full_name: ["Name", "Full Name", "Lead Name", "Contact"],
+            email: ["Email", "E-mail", "Email Address"],
+            phone: ["Phone", "Phone Number", "Mobile"],
+            company: ["Company", "Company Name", "Organization"],
+            lead_source: ["Source", "Lead Source", "Channel", "utm_source"],
+            lead_score: ["Score", "Lead Score", "Rating"],
+            created_at: ["Created", "Created At", "Date", "Submitted At", "Capture Date"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "full_name", op: { kind: "split_name", firstNameField: "first_name", lastNameField: "last_name" } },
+            { field: "email", op: { kind: "email_normalize" } },
+            { field: "phone", op: { kind: "phone_e164", defaultCountry } },
+            { field: "company", op: { kind: "trim_collapse_whitespace" } },
+            { field: "lead_source", op: { kind: "slugify", separator: "_" } },
+            { field: "lead_score", op: { kind: "number_parse" } },
+            { field: "created_at", op: { kind: "date_parse", outputFormat: dateFormat } }
+          ]
+        }
+      },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "email" },
+            { kind: "regex", field: "email", pattern: "^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$", message: "Invalid email" }
+          ]
+        }
+      },
+      { type: "dedupe", config: { keys: ["email"], survivorship: { default: { strategy: "first_non_empty" } } } },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "email", itemNameField: "full_name" } }
+    ]
+  },
+  {
+    id: "invoices",
+    name: "Invoices",
+    description: "Invoice registers with amounts, tax and due dates in a single currency by default.",
+    parameters: [CURRENCY, NUMBER_LOCALE, DATE_FORMAT],
+    build: ({ currency, numberLocale, dateFormat }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            invoice_number: ["Invoice", "Invoice #", "Invoice No", "Invoice Number", "Number"],
+            customer: ["Customer", "Client", "Bill To", "Customer Name"],
+            issue_date: ["Date", "Invoice Date", "Issue Date", "Issued"],
+            due_date: ["Due", "Due Date", "Payment Due"],
+            amount: ["Amount", "Subtotal", "Net", "Net Amount"],
+            tax: ["Tax", "VAT", "Sales Tax", "Tax Amount"],
+            total: ["Total", "Gross", "Amount Due", "Total Amount"],
+            currency: ["Currency", "Currency Code", "CCY"],
+            status: ["Status", "Payment Status"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "invoice_number", op: { kind: "trim_collapse_whitespace" } },
+            { field: "customer", op: { kind: "trim_collapse_whitespace" } },
+            { field: "issue_date", op: { kind: "date_parse", outputFormat: dateFormat } },
+            { field: "due_date", op: { kind: "date_parse", outputFormat: dateFormat } },
+            { field: "amount", op: { kind: "number_parse", locale: numberLocale } },
+            { field: "tax", op: { kind: "number_parse", locale: numberLocale } },
+            { field: "total", op: { kind: "number_parse", locale: numberLocale } },
+            { field: "currency", op: { kind: "currency_code" } },
+            { field: "status", op: { kind: "slugify", separator: "_" } }
+          ]
+        }
+      },
+      {
+        type: "derive",
+        config: {
+          fields: [
+            fallback("currency", currency),
+            { field: "total", expression: "total ?? round(amount + (tax ?? 0), 2)" }
+          ]
+        }
+      },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "invoice_number" },
+            { kind: "required", field: "amount" },
+            { kind: "unique", composite: ["invoice_number"] }
+          ]
+        }
+      },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "invoice_number" } }
+    ]
+  },
+  {
+    id: "product_catalog",
+    name: "Product Catalog",
+    description: "SKUs with prices, stock levels and cleaned-up descriptions.",
+    parameters: [CURRENCY, NUMBER_LOCALE],
+    build: ({ currency, numberLocale }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            sku: ["SKU", "Item Code", "Product Code", "Article Number", "Part Number"],
+            product_name: ["Name", "Product", "Product Name", "Title"],
+            description: ["Description", "Details", "Body", "Body (HTML)"],
+            category: ["Category", "Product Type", "Type", "Department"],
+            price: ["Price", "Unit Price", "List Price", "MSRP"],
+            currency: ["Currency", "Currency Code"],
+            stock: ["Stock", "Quantity", "Qty", "Inventory", "On Hand"],
+            active: ["Active", "Enabled", "Published", "Status"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "sku", op: { kind: "trim_collapse_whitespace" } },
+            { field: "product_name", op: { kind: "trim_collapse_whitespace" } },
+            { field: "description", op: { kind: "sanitize_html" } },
+            { field: "category", op: { kind: "title_case" } },
+            { field: "price", op: { kind: "number_parse", locale: numberLocale } },
+            { field: "price", op: { kind: "round_to_currency" } },
+            { field: "currency", op: { kind: "currency_code" } },
+            { field: "stock", op: { kind: "number_parse", locale: numberLocale } },
+            { field: "active", op: { kind: "boolean_standardize" } }
+          ]
+        }
+      },
+      { type: "derive", config: { fields: [fallback("currency", currency)] } },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "sku" },
+            { kind: "required", field: "product_name" },
+            { kind: "required", field: "price" },
+            { kind: "unique", composite: ["sku"] }
+          ]
+        }
+      },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "sku", itemNameField: "product_name" } }
+    ]
+  },
+  {
+    id: "employee_roster",
+    name: "Employee Roster",
+    description: "HR roster with departments, start dates and employment types.",
+    parameters: [DEFAULT_COUNTRY, DATE_FORMAT],
+    build: ({ defaultCountry, dateFormat }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            employee_id: ["Employee ID", "Employee Number", "Staff ID", "ID"],
+            first_name: ["First Name", "Given Name"],
+            last_name: ["Last Name", "Surname", "Family Name"],
+            email: ["Email", "Work Email", "Email Address"],
+            phone: ["Phone", "Work Phone", "Mobile"],
+            department: ["Department", "Dept", "Team"],
+            job_title: ["Title", "Job Title", "Position"],
+            manager_email: ["Manager", "Manager Email", "Reports To"],
+            start_date: ["Start Date", "Hire Date", "Joined"],
+            employment_type: ["Employment Type", "Type", "Contract Type"],
+            country: ["Country", "Work Country", "Location Country"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "employee_id", op: { kind: "trim_collapse_whitespace" } },
+            { field: "first_name", op: { kind: "title_case" } },
+            { field: "last_name", op: { kind: "title_case" } },
+            { field: "email", op: { kind: "email_normalize" } },
+            { field: "manager_email", op: { kind: "email_normalize" } },
+            { field: "phone", op: { kind: "phone_e164", defaultCountry } },
+            { field: "department", op: { kind: "title_case" } },
+            { field: "start_date", op: { kind: "date_parse", outputFormat: dateFormat } },
+            { field: "employment_type", op: { kind: "slugify", separator: "_" } },
+            { field: "country", op: { kind: "iso_country" } }
+          ]
+        }
+      },
+      { type: "derive", config: { fields: [fallback("country", defaultCountry)] } },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "employee_id" },
+            { kind: "required", field: "email" },
+            {
+              kind: "in_set",
+              field: "employment_type",
+              values: ["full_time", "part_time", "contractor", "intern", "temporary"],
+              when: { field: "employment_type", op: "not_empty" }
+            },
+            { kind: "unique", composite: ["employee_id"] },
+            { kind: "unique", composite: ["email"] }
+          ]
+        }
+      },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "employee_id" } }
+    ]
+  },
+  {
+    id: "event_registrations",
+    name: "Event Registrations",
+    description: "Attendee sign-ups per event, with ticket types and check-in status.",
+    parameters: [DEFAULT_COUNTRY],
+    build: ({ defaultCountry }) => [
+      {
+        type: "map_columns",
+        config: {
+          mapping: synonyms({
+            event: ["Event", "Event Name", "Session"],
+            attendee_name: ["Name", "Attendee", "Attendee Name", "Full Name"],
+            email: ["Email", "E-mail", "Attendee Email"],
+            phone: ["Phone", "Mobile", "Phone Number"],
+            company: ["Company", "Organization", "Affiliation"],
+            ticket_type: ["Ticket", "Ticket Type", "Pass", "Registration Type"],
+            registered_at: ["Registered", "Registered At", "Registration Date", "Order Date"],
+            checked_in: ["Checked In", "Attended", "Check-in"],
+            country: ["Country"]
+          })
+        }
+      },
+      {
+        type: "format",
+        config: {
+          operations: [
+            { field: "event", op: { kind: "trim_collapse_whitespace" } },
+            {
+              field: "attendee_name",
+              op: { kind: "split_name", firstNameField: "first_name", lastNameField: "last_name" }
+            },
+            { field: "email", op: { kind: "email_normalize" } },
+            { field: "phone", op: { kind: "phone_e164", defaultCountry } },
+            { field: "ticket_type", op: { kind: "title_case" } },
+            { field: "registered_at", op: { kind: "timezone_to_utc" } },
+            { field: "checked_in", op: { kind: "boolean_standardize" } },
+            { field: "country", op: { kind: "iso_country" } }
+          ]
+        }
+      },
+      { type: "derive", config: { fields: [fallback("country", defaultCountry)] } },
+      {
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "required", field: "event" },
+            { kind: "required", field: "email" }
+          ]
+        }
+      },
+      { type: "dedupe", config: { keys: ["event", "email"] } },
+      { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "email", itemNameField: "attendee_name" } }
+    ]
+  }
+];
+
+export function listRecipeTemplates(): RecipeTemplateSummary[] {
+  return RECIPE_TEMPLATES.map(({ build: _build, ...summary }) => summary);
+}
+
+/**
+ * Builds a recipe from a template. Missing parameters take their defaults;
+ * invalid ones throw `ValidationError` with `parameters.<name>` issue paths.
+ */
+export function instantiateRecipeTemplate(
+  templateId: string,
+  parameters: Record<string, unknown> = {},
+  options: { name?: string } = {}
+): RecipeDefinition {
+  const template = RECIPE_TEMPLATES.find((candidate) => candidate.id === templateId);
+  if (!template) {
+    throw new ValidationError(`Unknown recipe template: ${templateId}`);
+  }
+
+  const schema = z
+    .object(
+      Object.fromEntries(
+        template.parameters.map((parameter) => [
+          parameter.name,
+          z.preprocess((value) => value ?? parameter.default, parameterSchemas[parameter.kind])
+        ])
+      )
+    )
+    .strict();
+  const parsed = schema.safeParse(parameters);
+  if (!parsed.success) {
+    throw new ValidationError("Invalid template parameters", schemaIssues(parsed.error, ["parameters"]));
+  }
+
+  return recipeDefinitionSchema.parse({
+    id: template.id,
+    name: options.name ?? template.name,
+    version: 1,
+    steps: template.build(parsed.data as Record<string, string>)
+  });
+}
+
+function isLocale(value: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
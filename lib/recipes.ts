@@ -0,0 +1,263 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { newId } from "./ids";
+import { formatIssuePath, recipeDefinitionSchema } from "./recipe-engine/schema";
+import { bindRecipeParameters, expandRecipeIncludes, type RecipeDefinition, type RecipeLoader } from "./recipe-engine";
+import type { Database, Json } from "@/types/supabase";
+
+export type RecipeRecord = Database["public"]["Tables"]["recipes"]["Row"];
+export type RecipeVersionRecord = Database["public"]["Tables"]["recipe_versions"]["Row"];
+type RecipeInsert = Database["public"]["Tables"]["recipes"]["Insert"];
+type RecipeVersionInsert = Database["public"]["Tables"]["recipe_versions"]["Insert"];
+type RecipeUpdate = Database["public"]["Tables"]["recipes"]["Update"];
+
+const RECIPE_COLUMNS = "id, tenant_id, name, version, json, created_at, updated_at, archived_at";
+
+export type RecipeChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export async function listRecipes(
+  supabase: SupabaseClient<Database>,
+  tenantId: string,
+  options: { includeArchived?: boolean } = {}
+): Promise<RecipeRecord[]> {
+  let query = supabase.from("recipes").select(RECIPE_COLUMNS).eq("tenant_id", tenantId);
+  if (!options.includeArchived) {
+    query = query.is("archived_at", null);
+  }
+  const { data, error } = await query.order("name", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to list recipes: ${error.message}`);
+  }
+  return (data ?? []) as RecipeRecord[];
+}
+
+/** Archived recipes are returned too; callers decide whether they may be changed. */
+export async function getRecipe(
+  supabase: SupabaseClient<Database>,
+  recipeId: string,
+  tenantId: string
+): Promise<RecipeRecord | null> {
+  const { data } = await supabase
+    .from("recipes")
+    .select(RECIPE_COLUMNS)
+    .eq("id", recipeId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+  return (data as RecipeRecord | null) ?? null;
+}
+
+export async function findRecipeByName(
+  supabase: SupabaseClient<Database>,
+  tenantId: string,
+  name: string
+): Promise<RecipeRecord | null> {
+  const { data } = await supabase
+    .from("recipes")
+    .select(RECIPE_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .eq("name", name)
+    .is("archived_at", null)
+    .maybeSingle();
+  return (data as RecipeRecord | null) ?? null;
+}
+
+/** Creates a recipe together with its first version. */
+export async function createRecipe(
+  supabase: SupabaseClient<Database>,
+  options: { tenantId: string; recipe: RecipeDefinition; createdBy?: string | null }
+): Promise<RecipeRecord> {
+  const createdAt = new Date().toISOString();
+  const id = newId();
+  const record: RecipeInsert = {
+    id,
+    tenant_id: options.tenantId,
+    name: options.recipe.name,
+    version: 1,
+    json: { ...options.recipe, id, version: 1 } as unknown as Json,
+    created_at: createdAt,
+    updated_at: null,
+    archived_at: null
+  };
+  const { error } = await supabase.from("recipes").insert(record);
+  if (error) {
+    throw new Error(`Failed to create recipe: ${error.message}`);
+  }
+  await createRecipeVersion(supabase, {
+    recipeId: record.id!,
+    tenantId: options.tenantId,
+    recipe: options.recipe,
+    createdBy: options.createdBy
+  });
+  return record as RecipeRecord;
+}
+
+/** Soft delete: archived recipes drop out of listings but keep their versions for pinned runs. */
+export async function archiveRecipe(
+  supabase: SupabaseClient<Database>,
+  recipeId: string,
+  tenantId: string
+): Promise<string> {
+  const archivedAt = new Date().toISOString();
+  const recipeUpdate: RecipeUpdate = { archived_at: archivedAt, updated_at: archivedAt };
+  const { error } = await supabase
+    .from("recipes")
+    .update(recipeUpdate)
+    .eq("id", recipeId)
+    .eq("tenant_id", tenantId);
+  if (error) {
+    throw new Error(`Failed to archive recipe: ${error.message}`);
+  }
+  return archivedAt;
+}
+
+export async function listRecipeVersions(
+  supabase: SupabaseClient<Database>,
+  recipeId: string,
+  tenantId: string
+): Promise<RecipeVersionRecord[]> {
+  const { data, error } = await supabase
+    .from("recipe_versions")
+    .select("id, recipe_id, tenant_id, version, json, created_by, created_at")
+    .eq("recipe_id", recipeId)
+    .eq("tenant_id", tenantId)
+    .order("version", { ascending: false });
+  if (error) {
+    throw new Error(`Failed to list recipe versions: ${error.message}`);
+  }
+  return (data ?? []) as RecipeVersionRecord[];
+}
+
+export async function getRecipeVersion(
+  supabase: SupabaseClient<Database>,
+  recipeId: string,
+  tenantId: string,
+  version: number
+): Promise<RecipeVersionRecord | null> {
+  const { data } = await supabase
+    .from("recipe_versions")
+    .select("id, recipe_id, tenant_id, version, json, created_by, created_at")
+    .eq("recipe_id", recipeId)
+    .eq("tenant_id", tenantId)
+    .eq("version", version)
+    .maybeSingle();
+  return (data as RecipeVersionRecord | null) ?? null;
+}
+
+/** Loads pinned versions of the tenant's recipes; versions whose JSON no longer parses count as missing. */
+export function recipeVersionLoader(supabase: SupabaseClient<Database>, tenantId: string): RecipeLoader {
+  return async (recipeId, version) => {
+    const stored = await getRecipeVersion(supabase, recipeId, tenantId, version);
+    const parsed = recipeDefinitionSchema.safeParse(stored?.json);
+    return parsed.success ? parsed.data : null;
+  };
+}
+
+/**
+ * The stored version a submitted recipe runs as: `recipeId`, or the recipe's
+ * own id when it names a stored recipe, at the recipe's version. `changes`
+ * lists where the submitted steps and parameters differ from the stored JSON;
+ * routes refuse such runs with a 409 rather than run unsaved edits under that
+ * version or silently drop them.
+ */
+export async function resolveStoredRecipe(
+  load: RecipeLoader,
+  recipe: RecipeDefinition,
+  recipeId: string = recipe.id
+): Promise<{ recipeId: string; recipe: RecipeDefinition; changes: RecipeChange[] } | null> {
+  const stored = await load(recipeId, recipe.version);
+  if (!stored) {
+    return null;
+  }
+  const changes = diffRecipeJson(
+    { steps: stored.steps, parameters: stored.parameters },
+    { steps: recipe.steps, parameters: recipe.parameters }
+  );
+  return { recipeId, recipe: stored, changes };
+}
+
+/**
+ * Readies a submitted recipe for a preview or execute run: inlines its
+ * included recipes, then binds the parameters of the result. Throws
+ * `ValidationError` for include and parameter problems.
+ */
+export async function prepareRecipe(
+  load: RecipeLoader,
+  recipe: RecipeDefinition,
+  parameters: Record<string, unknown> | undefined,
+  recipeId?: string
+): Promise<RecipeDefinition> {
+  const expanded = await expandRecipeIncludes(recipe, load, { recipeId });
+  return bindRecipeParameters(expanded, parameters);
+}
+
+/**
+ * Records `recipe` as the next immutable version of a stored recipe and points
+ * the recipe at it. The recipe JSON's own `id` and `version` are rewritten to
+ * match, so runs that echo it back reference a version that exists.
+ */
+export async function createRecipeVersion(
+  supabase: SupabaseClient<Database>,
+  options: { recipeId: string; tenantId: string; recipe: RecipeDefinition; createdBy?: string | null }
+): Promise<RecipeVersionRecord> {
+  const [latest] = await listRecipeVersions(supabase, options.recipeId, options.tenantId);
+  const version = (latest?.version ?? 0) + 1;
+  const createdAt = new Date().toISOString();
+  const record: RecipeVersionInsert = {
+    id: newId(),
+    recipe_id: options.recipeId,
+    tenant_id: options.tenantId,
+    version,
+    json: { ...options.recipe, id: options.recipeId, version } as unknown as Json,
+    created_by: options.createdBy ?? null,
+    created_at: createdAt
+  };
+
+  const { error } = await supabase.from("recipe_versions").insert(record);
+  if (error) {
+    throw new Error(`Failed to record recipe version: ${error.message}`);
+  }
+
+  const recipeUpdate: RecipeUpdate = {
+    name: options.recipe.name,
+    version,
+    json: record.json,
+    updated_at: createdAt
+  };
+  const { error: updateError } = await supabase
+    .from("recipes")
+    .update(recipeUpdate)
+    .eq("id", options.recipeId)
+    .eq("tenant_id", options.tenantId);
+  if (updateError) {
+    throw new Error(`Failed to update recipe: ${updateError.message}`);
+  }
+
+  return record as RecipeVersionRecord;
+}
+
+/** Structural JSON diff; arrays are compared by position. */
+export function diffRecipeJson(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number> = []
+): RecipeChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap((key) => diffRecipeJson(before[key], after[key], [...path, key]));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => diffRecipeJson(before[index], after[index], [...path, index])).flat();
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path: formatIssuePath(path) || "$", before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
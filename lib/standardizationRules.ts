@@ -0,0 +1,47 @@
+import type { FormatStep } from "./recipe-engine";
+
+export type FormatOperation = FormatStep["config"]["operations"][number];
+export type OperationConfig = FormatOperation["op"];
+
+/** A one-click format operation offered by the board view and the recipe builder. */
+export type StandardizationRule = {
+  id: string;
+  label: string;
+  description: string;
+  build: (field: string) => FormatOperation;
+  matches: (field: string, op: OperationConfig) => boolean;
+};
+
+function deriveSplitNameFields(field: string): { first: string; last: string } {
+  const defaults = { first: "first_name", last: "last_name" };
+  if (!field) return defaults;
+  const withoutName = field.replace(/name$/i, "").replace(/[_\s]+$/g, "");
+  const withoutFull = withoutName.replace(/full$/i, "").replace(/[_\s]+$/g, "");
+  const base = withoutFull.length > 0 ? withoutFull : withoutName;
+  if (!base) return defaults;
+  const sanitized = base.endsWith("_") ? base.slice(0, -1) : base;
+  const normalizedBase = sanitized.toLowerCase() === "full" ? "" : sanitized;
+  const prefix = normalizedBase ? `${normalizedBase}_` : "";
+  return { first: `${prefix}first_name`, last: `${prefix}last_name` };
+}
+
+export const STANDARDIZATION_RULES: StandardizationRule[] = [
+  { id: "trim_collapse_whitespace", label: "Trim & collapse whitespace", description: "Removes leading/trailing spaces and collapses internal whitespace.", build: (field) => ({ field, op: { kind: "trim_collapse_whitespace" } }), matches: (_f, op) => op.kind === "trim_collapse_whitespace" },
+  { id: "standardize_boolean", label: "Standardize booleans", description: "Converts common yes/no values into true/false.", build: (field) => ({ field, op: { kind: "boolean_standardize" } }), matches: (_f, op) => op.kind === "boolean_standardize" },
+  { id: "timezone_to_utc", label: "Normalize timezone", description: "Converts datetimes to UTC ISO strings.", build: (field) => ({ field, op: { kind: "timezone_to_utc" } }), matches: (_f, op) => op.kind === "timezone_to_utc" },
+  { id: "slugify", label: "Slugify text", description: "Generates URL-safe slugs (lowercase with dashes).", build: (field) => ({ field, op: { kind: "slugify", separator: "-" } }), matches: (_f, op) => op.kind === "slugify" && (op.separator ?? "-") === "-" },
+  { id: "round_numeric", label: "Round to currency", description: "Rounds numbers to two decimal places.", build: (field) => ({ field, op: { kind: "round_numeric", precision: 2 } }), matches: (_f, op) => op.kind === "round_numeric" && (op.precision ?? 2) === 2 },
+  { id: "normalize_percentage", label: "Normalize percentages", description: "Converts % values into decimal form (e.g., 45% → 0.45).", build: (field) => ({ field, op: { kind: "normalize_percentage" } }), matches: (_f, op) => op.kind === "normalize_percentage" },
+  { id: "remove_special_characters", label: "Remove special characters", description: "Strips zero-width and non-printable characters.", build: (field) => ({ field, op: { kind: "remove_special_characters" } }), matches: (_f, op) => op.kind === "remove_special_characters" },
+  { id: "split_full_name", label: "Split full name", description: "Splits a full name into first/last name fields.", build: (field) => { const { first, last } = deriveSplitNameFields(field); return { field, op: { kind: "split_name", firstNameField: first, lastNameField: last } }; }, matches: (field, op) => { if (op.kind !== "split_name") return false; const { first, last } = deriveSplitNameFields(field); const opFirst = op.firstNameField ?? first; const opLast = op.lastNameField ?? last; return opFirst === first && opLast === last; } },
+  { id: "normalize_address", label: "Normalize address", description: "Title-cases address parts and uppercases state codes.", build: (field) => ({ field, op: { kind: "normalize_address" } }), matches: (_f, op) => op.kind === "normalize_address" },
+  { id: "sanitize_html", label: "Sanitize HTML", description: "Removes unsupported HTML/markdown tags.", build: (field) => ({ field, op: { kind: "sanitize_html" } }), matches: (_f, op) => op.kind === "sanitize_html" },
+  { id: "title_case", label: "Title case", description: "Capitalize names.", build: (field) => ({ field, op: { kind: "title_case" } }), matches: (_f, op) => op.kind === "title_case" },
+  { id: "email_normalize", label: "Normalize email", description: "Lowercase and trim email addresses.", build: (field) => ({ field, op: { kind: "email_normalize" } }), matches: (_f, op) => op.kind === "email_normalize" },
+  { id: "phone_e164", label: "Format phone", description: "Convert phone numbers to E.164 (US default).", build: (field) => ({ field, op: { kind: "phone_e164", defaultCountry: "US" } }), matches: (_f, op) => op.kind === "phone_e164" },
+  { id: "date_parse", label: "Date to ISO", description: "Normalize dates to YYYY-MM-DD.", build: (field) => ({ field, op: { kind: "date_parse", outputFormat: "yyyy-MM-dd" } }), matches: (_f, op) => op.kind === "date_parse" },
+  { id: "iso_country", label: "Country to ISO", description: "Map country names to ISO codes.", build: (field) => ({ field, op: { kind: "iso_country" } }), matches: (_f, op) => op.kind === "iso_country" },
+  { id: "currency_code", label: "Currency code", description: "Resolve currency codes, symbols and names to ISO 4217 (e.g., € -> EUR).", build: (field) => ({ field, op: { kind: "currency_code" } }), matches: (_f, op) => op.kind === "currency_code" },
+  { id: "money_parse", label: "Parse money", description: "Split amounts like €1.234,56 into a number and a currency field.", build: (field) => ({ field, op: { kind: "money_parse" } }), matches: (_f, op) => op.kind === "money_parse" },
+  { id: "number_parse", label: "Parse number", description: "Parse numbers using the en-US locale.", build: (field) => ({ field, op: { kind: "number_parse", locale: "en-US" } }), matches: (_f, op) => op.kind === "number_parse" }
+];
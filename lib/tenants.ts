@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { UnauthorizedError } from "./errors";
+import { verifyMondaySessionToken } from "./security";
+import type { Database } from "@/types/supabase";
+
+export type TenantRecord = Pick<Database["public"]["Tables"]["tenants"]["Row"], "id" | "plan" | "seats">;
+
+export type SessionTenant = {
+  tenant: TenantRecord;
+  accountId: string;
+  userId: string;
+};
+
+/**
+ * Resolves the tenant of the monday account behind the request's bearer
+ * session token. Throws `UnauthorizedError` for a missing or invalid token and
+ * returns null when the account has no tenant.
+ */
+export async function resolveSessionTenant(
+  request: Request,
+  supabase: SupabaseClient<Database>
+): Promise<SessionTenant | null> {
+  const authHeader = request.headers.get("authorization") ?? "";
+  const sessionToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : "";
+  if (!sessionToken) {
+    throw new UnauthorizedError("Missing monday token");
+  }
+  const { accountId, userId } = verifyMondaySessionToken(sessionToken);
+  const accountKey = String(accountId);
+
+  const { data } = await supabase
+    .from("tenants")
+    .select("id, plan, seats")
+    .eq("monday_account_id", accountKey)
+    .maybeSingle();
+  const tenant = data as TenantRecord | null;
+  if (!tenant || !tenant.id) {
+    return null;
+  }
+  return { tenant, accountId: accountKey, userId: String(userId) };
+}
@@ -24,9 +24,67 @@ create table if not exists recipes (
   version int not null,
   json jsonb not null,
   created_at timestamptz default now(),
-  updated_at timestamptz
+  updated_at timestamptz,
+  archived_at timestamptz
+);
+
+create index if not exists recipes_tenant_id_idx on recipes (tenant_id);
+
+-- Immutable history: every save of a recipe adds a row, runs reference (recipe_id, recipe_version).
+create table if not exists recipe_versions (
+  id uuid primary key,
+  recipe_id uuid not null references recipes(id) on delete cascade,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  version int not null,
+  json jsonb not null,
+  created_by text,
+  created_at timestamptz default now(),
+  unique (recipe_id, version)
+);
+
+create index if not exists recipe_versions_tenant_id_idx on recipe_versions (tenant_id);
+
+create or replace function reject_recipe_version_changes() returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'recipe versions are immutable';
+end;
+$$;
+
+drop trigger if exists recipe_versions_immutable on recipe_versions;
+create trigger recipe_versions_immutable
+  before update on recipe_versions
+  for each row execute function reject_recipe_version_changes();
+
+create table if not exists recipe_fixtures (
+  id uuid primary key,
+  recipe_id uuid not null references recipes(id) on delete cascade,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  name text not null,
+  input jsonb not null,
+  expected_rows jsonb,
+  expected_errors jsonb,
+  created_by text,
+  created_at timestamptz default now(),
+  unique (recipe_id, name)
 );
 
+create index if not exists recipe_fixtures_tenant_id_idx on recipe_fixtures (tenant_id);
+
+create table if not exists lookup_tables (
+  id uuid primary key,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  name text not null,
+  entries jsonb not null,
+  created_by text,
+  created_at timestamptz default now(),
+  updated_at timestamptz,
+  unique (tenant_id, name)
+);
+
+create index if not exists lookup_tables_tenant_id_idx on lookup_tables (tenant_id);
+
 create table if not exists runs (
   id uuid primary key,
   tenant_id uuid not null,
@@ -0,0 +1,85 @@
+/**
+ * Runs recipe fixtures locally, e.g. in CI before a recipe change is merged:
+ *
+ *   pnpm test:recipes <recipe.json|yaml> <fixtures.json|yaml>
+ *
+ * The recipe file holds a recipe definition or an exported recipe bundle (whose
+ * lookup tables the fixtures run with); the fixtures file holds an array of fixtures or `{ fixtures: [...] }`. Exits with
+ * 1 when a fixture fails and 2 when an input file is invalid.
+ */
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { ValidationError } from "@/lib/errors";
+import { decodeRecipeBundle, RECIPE_BUNDLE_FORMAT } from "@/lib/recipeBundles";
+import { describeMismatch, recipeFixtureSchema, runRecipeFixtures } from "@/lib/recipeFixtures";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+
+const fixturesFileSchema = z.union([
+  z.array(recipeFixtureSchema),
+  z.object({ fixtures: z.array(recipeFixtureSchema) }).transform(({ fixtures }) => fixtures)
+]);
+
+async function loadRecipe(path: string) {
+  const source = await readFile(path, "utf8");
+  const raw = parseYaml(source) as { format?: unknown } | null;
+  if (raw?.format === RECIPE_BUNDLE_FORMAT) {
+    const bundle = decodeRecipeBundle(source);
+    return { recipe: bundle.recipe.definition, lookupTables: bundle.lookupTables };
+  }
+  const parsed = recipeDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid recipe in ${path}`, schemaIssues(parsed.error));
+  }
+  return { recipe: parsed.data, lookupTables: {} };
+}
+
+async function loadFixtures(path: string) {
+  const parsed = fixturesFileSchema.safeParse(parseYaml(await readFile(path, "utf8")));
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid fixtures in ${path}`, schemaIssues(parsed.error));
+  }
+  return parsed.data;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [recipePath, fixturesPath] = args;
+  if (!recipePath || !fixturesPath) {
+    console.error("Usage: pnpm test:recipes <recipe.json|yaml> <fixtures.json|yaml>");
+    return 2;
+  }
+
+  let summary;
+  try {
+    const { recipe, lookupTables } = await loadRecipe(recipePath);
+    const fixtures = await loadFixtures(fixturesPath);
+    summary = runRecipeFixtures(recipe, fixtures, { allowFuzzy: true, lookupTables });
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    console.error(error.message);
+    for (const issue of (error.details as Array<{ path: string; message: string }> | undefined) ?? []) {
+      console.error(`  ${issue.path}: ${issue.message}`);
+    }
+    return 2;
+  }
+
+  for (const result of summary.results) {
+    console.log(`${result.passed ? "PASS" : "FAIL"} ${result.name}`);
+    for (const mismatch of result.mismatches) {
+      console.log(`  ${describeMismatch(mismatch)}`);
+    }
+  }
+  const failed = summary.results.filter((result) => !result.passed).length;
+  console.log(`\n${summary.results.length - failed} passed, ${failed} failed`);
+  return summary.passed ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error);
+    process.exitCode = 2;
+  }
+);
@@ -55,3 +55,9 @@ values
     now()
   )
 on conflict (id) do nothing;
+
+insert into recipe_versions (id, recipe_id, tenant_id, version, json, created_at)
+select 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', id, tenant_id, version, json, now()
+from recipes
+where id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'
+on conflict (recipe_id, version) do nothing;
@@ -0,0 +1,31 @@
+create table if not exists recipe_versions (
+  id uuid primary key,
+  recipe_id uuid not null references recipes(id) on delete cascade,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  version int not null,
+  json jsonb not null,
+  created_by text,
+  created_at timestamptz default now(),
+  unique (recipe_id, version)
+);
+
+create index if not exists recipe_versions_tenant_id_idx on recipe_versions (tenant_id);
+
+-- Backfill the current content of every recipe as its first recorded version.
+insert into recipe_versions (id, recipe_id, tenant_id, version, json, created_at)
+select uuid_generate_v4(), id, tenant_id, version, json, coalesce(updated_at, created_at, now())
+from recipes
+on conflict (recipe_id, version) do nothing;
+
+create or replace function reject_recipe_version_changes() returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'recipe versions are immutable';
+end;
+$$;
+
+drop trigger if exists recipe_versions_immutable on recipe_versions;
+create trigger recipe_versions_immutable
+  before update on recipe_versions
+  for each row execute function reject_recipe_version_changes();
@@ -0,0 +1,3 @@
+alter table recipes add column if not exists archived_at timestamptz;
+
+create index if not exists recipes_tenant_id_idx on recipes (tenant_id);
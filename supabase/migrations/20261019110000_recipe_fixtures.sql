@@ -0,0 +1,14 @@
+create table if not exists recipe_fixtures (
+  id uuid primary key,
+  recipe_id uuid not null references recipes(id) on delete cascade,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  name text not null,
+  input jsonb not null,
+  expected_rows jsonb,
+  expected_errors jsonb,
+  created_by text,
+  created_at timestamptz default now(),
+  unique (recipe_id, name)
+);
+
+create index if not exists recipe_fixtures_tenant_id_idx on recipe_fixtures (tenant_id);
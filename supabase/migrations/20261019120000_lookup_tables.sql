@@ -0,0 +1,12 @@
+create table if not exists lookup_tables (
+  id uuid primary key,
+  tenant_id uuid not null references tenants(id) on delete cascade,
+  name text not null,
+  entries jsonb not null,
+  created_by text,
+  created_at timestamptz default now(),
+  updated_at timestamptz,
+  unique (tenant_id, name)
+);
+
+create index if not exists lookup_tables_tenant_id_idx on lookup_tables (tenant_id);
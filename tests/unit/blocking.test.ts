@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { buildBlockingIndex } from "@/lib/recipe-engine/matching/blocking";
+import { soundex } from "@/lib/recipe-engine/matching/phonetic";
+import { dedupeRows } from "@/lib/recipe-engine/steps/dedupe";
+import type { BlockingConfig } from "@/lib/recipe-engine";
+
+const COMPANIES = [
+  "Acme Inc.",
+  "Globex Corporation",
+  "Acme Incorporated",
+  "Initech",
+  "Globex Corp",
+  "Umbrella Corporation",
+  "Initech LLC",
+  "Hooli",
+  "Umbrela Corporation",
+  "Stark Industries",
+  "Wayne Enterprises",
+  "Stark Industry",
+  "",
+  "Hooli Inc"
+];
+
+function dedupeWith(blocking: BlockingConfig) {
+  return dedupeRows(
+    COMPANIES.map((name, id) => ({ id, name })),
+    { keys: ["name"], fuzzy: { enabled: true, threshold: 0.85, blocking } },
+    true
+  );
+}
+
+describe("soundex", () => {
+  it("encodes names using American Soundex", () => {
+    expect(soundex("Robert")).toBe("R163");
+    expect(soundex("Rupert")).toBe("R163");
+    expect(soundex("Ashcraft")).toBe("A261");
+    expect(soundex("Tymczak")).toBe("T522");
+    expect(soundex("Pfister")).toBe("P236");
+    expect(soundex("Honeyman")).toBe("H555");
+    expect(soundex("123")).toBe("");
+  });
+});
+
+describe("buildBlockingIndex", () => {
+  it("only proposes records that share an n-gram", () => {
+    const index = buildBlockingIndex(["acme inc", "globex", "acme incorporated"], { strategy: "ngram", size: 3 });
+    expect(index.candidates(0)).toEqual([2]);
+    expect(index.candidates(1)).toEqual([]);
+  });
+
+  it("compares oversized buckets within a sorted neighbourhood", () => {
+    const keys = Array.from({ length: 30 }, (_, index) => `k${String(index).padStart(2, "0")} inc`).reverse();
+    const index = buildBlockingIndex(keys, { strategy: "ngram", size: 3, maxBlockSize: 5 });
+    // keys[29] is "k00 inc", first in key order, so it sees the next ten keys.
+    expect(index.candidates(29).sort((a, b) => a - b)).toEqual([19, 20, 21, 22, 23, 24, 25, 26, 27, 28]);
+    expect(index.candidates(14)).toHaveLength(20);
+  });
+
+  it("limits sorted neighbourhood candidates to the window", () => {
+    const keys = ["d", "a", "c", "b", "e"];
+    const index = buildBlockingIndex(keys, { strategy: "sorted_neighbourhood", window: 1 });
+    expect(index.candidates(2).sort()).toEqual([0, 3]);
+  });
+
+  it("never proposes candidates for empty keys", () => {
+    const index = buildBlockingIndex(["", "acme"], { strategy: "none" });
+    expect(index.candidates(0)).toEqual([]);
+    expect(index.candidates(1)).toEqual([]);
+  });
+});
+
+describe("blocked fuzzy dedupe", () => {
+  const bruteForce = dedupeWith({ strategy: "none" });
+
+  it.each<BlockingConfig>([
+    { strategy: "ngram", size: 3 },
+    { strategy: "phonetic" },
+    { strategy: "sorted_neighbourhood", window: 3 }
+  ])("finds the same matches as brute force with $strategy blocking", (blocking) => {
+    const blocked = dedupeWith(blocking);
+    expect(blocked.rows).toEqual(bruteForce.rows);
+    expect(blocked.errors).toEqual(bruteForce.errors);
+  });
+
+  it("compares every pair unless blocking is configured", () => {
+    expect(buildBlockingIndex(["acme inc", "globex", "acme incorporated"]).candidates(1)).toEqual([0, 2]);
+    const result = dedupeRows(
+      COMPANIES.map((name, id) => ({ id, name })),
+      { keys: ["name"], fuzzy: { enabled: true, threshold: 0.85 } },
+      true
+    );
+    expect(result.rows).toEqual(bruteForce.rows);
+    expect(bruteForce.rows.length).toBeLessThan(COMPANIES.length);
+  });
+});
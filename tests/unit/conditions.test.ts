@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCondition } from "@/lib/recipe-engine/conditions";
+import { formatRows } from "@/lib/recipe-engine/steps/format";
+import { validateRows } from "@/lib/recipe-engine/steps/validate";
+import { previewRecipe, type RecipeDefinition } from "@/lib/recipe-engine";
+import { conditionSchema } from "@/lib/recipe-engine/schema";
+import { ValidationError } from "@/lib/errors";
+
+describe("evaluateCondition", () => {
+  it("compares strings without regard to case or padding", () => {
+    expect(evaluateCondition({ field: "country", op: "eq", value: "GB" }, { country: " gb " })).toBe(true);
+    expect(evaluateCondition({ field: "country", op: "in", values: ["US", "CA"] }, { country: "ca" })).toBe(true);
+    expect(evaluateCondition({ field: "country", op: "not_in", values: ["US", "CA"] }, { country: "MX" })).toBe(true);
+  });
+
+  it("compares numbers numerically and ignores empty values", () => {
+    expect(evaluateCondition({ field: "amount", op: "gt", value: 9 }, { amount: "10" })).toBe(true);
+    expect(evaluateCondition({ field: "amount", op: "lte", value: 9 }, { amount: "" })).toBe(false);
+    expect(evaluateCondition({ field: "amount", op: "eq", value: null }, {})).toBe(true);
+  });
+
+  it("combines conditions", () => {
+    const condition = {
+      all: [
+        { field: "email", op: "not_empty" as const },
+        { not: { any: [{ field: "email", op: "ends_with" as const, value: "@example.com" }] } }
+      ]
+    };
+    expect(evaluateCondition(condition, { email: "ada@acme.io" })).toBe(true);
+    expect(evaluateCondition(condition, { email: "ada@example.com" })).toBe(false);
+    expect(evaluateCondition(condition, { email: "" })).toBe(false);
+  });
+
+  it("keeps matching across rows with the global flag", () => {
+    const condition = { field: "sku", op: "matches" as const, pattern: "^ab", flags: "gi" };
+    expect(["AB-1", "ab-2", "Ab-3"].map((sku) => evaluateCondition(condition, { sku }))).toEqual([true, true, true]);
+  });
+
+  it("checks a pattern and its flags together", () => {
+    const issues = (pattern: string, flags?: string) => {
+      const result = conditionSchema.safeParse({ field: "a", op: "matches", pattern, flags });
+      return result.success ? [] : result.error.issues.map((issue) => issue.message);
+    };
+    expect(issues("a", "gi")).toEqual([]);
+    expect(issues("a", "q")).toContain("Invalid regular expression flags");
+    expect(issues("a", "gg")).toContain("Invalid regular expression flags");
+    expect(issues("\\p{L", "u")).toContain("Invalid regular expression flags");
+    expect(issues("([a-z")).toContain("Invalid regular expression");
+  });
+});
+
+describe("conditional operations and rules", () => {
+  it("only applies format operations to matching rows", () => {
+    const result = formatRows([{ country: "GB", phone: "020 7946 0958" }, { country: "US", phone: "(415) 555-1234" }], {
+      operations: [
+        {
+          field: "phone",
+          op: { kind: "phone_e164", defaultCountry: "GB" },
+          when: { field: "country", op: "eq", value: "GB" }
+        }
+      ]
+    });
+    expect(result.rows.map((row) => row.phone)).toEqual(["+442079460958", "(415) 555-1234"]);
+  });
+
+  it("only enforces validation rules on matching rows", () => {
+    const result = validateRows(
+      [
+        { country: "US", state: "" },
+        { country: "FR", state: "" },
+        { country: "CA", state: "ON" }
+      ],
+      {
+        rules: [{ kind: "required", field: "state", when: { field: "country", op: "in", values: ["US", "CA"] } }]
+      }
+    );
+    expect(result.errors.map((error) => error.rowIndex)).toEqual([0]);
+  });
+});
+
+describe("conditional steps", () => {
+  it("runs a step on matching rows and reports their full-set positions", () => {
+    const recipe: RecipeDefinition = {
+      id: "conditional",
+      name: "Conditional",
+      version: 1,
+      steps: [
+        {
+          type: "format",
+          config: { operations: [{ field: "name", op: { kind: "title_case" } }] },
+          when: { field: "source", op: "eq", value: "crm" }
+        }
+      ]
+    };
+    const result = previewRecipe(
+      recipe,
+      [
+        { source: "web", name: "ada lovelace" },
+        { source: "crm", name: "grace hopper" }
+      ],
+      { allowFuzzy: false }
+    );
+    expect(result.rows.map((row) => row.name)).toEqual(["ada lovelace", "Grace Hopper"]);
+    expect(result.diff).toEqual([
+      {
+        rowIndex: 1,
+        field: "name",
+        before: "grace hopper",
+        after: "Grace Hopper",
+        sourceId: "row:2",
+        stepIndex: 0,
+        operation: "title_case",
+        sourceField: "name"
+      }
+    ]);
+  });
+
+  it("keeps unselected rows when a conditional step removes rows", () => {
+    const recipe: RecipeDefinition = {
+      id: "conditional-dedupe",
+      name: "Conditional dedupe",
+      version: 1,
+      steps: [
+        {
+          type: "dedupe",
+          config: { keys: ["email"] },
+          when: { field: "status", op: "neq", value: "archived" }
+        }
+      ]
+    };
+    const result = previewRecipe(
+      recipe,
+      [
+        { email: "a@x.io", status: "archived" },
+        { email: "a@x.io", status: "active" },
+        { email: "a@x.io", status: "active" }
+      ],
+      { allowFuzzy: false }
+    );
+    expect(result.rows).toHaveLength(2);
+    expect(result.errors.map((error) => error.rowIndex)).toEqual([2]);
+  });
+
+  it("rejects malformed conditions", () => {
+    const recipe = {
+      id: "bad",
+      name: "Bad",
+      version: 1,
+      steps: [{ type: "validate", config: { rules: [] }, when: { field: "x", op: "between" } }]
+    } as unknown as RecipeDefinition;
+    expect(() => previewRecipe(recipe, [], { allowFuzzy: false })).toThrow(ValidationError);
+
+    const badFlags = {
+      ...recipe,
+      steps: [{ type: "validate", config: { rules: [] }, when: { field: "x", op: "matches", pattern: "a", flags: "q" } }]
+    } as unknown as RecipeDefinition;
+    expect(() => previewRecipe(badFlags, [{ x: "a" }], { allowFuzzy: false })).toThrow(ValidationError);
+  });
+});
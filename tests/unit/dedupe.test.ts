@@ -39,4 +39,56 @@ describe("dedupeRows", () => {
     expect(result.rows).toHaveLength(2);
     expect(result.errors.some((error) => error.code === "dedupe_fuzzy_blocked")).toBe(true);
   });
+
+  it("merges duplicates into the surviving record", () => {
+    const rows = [
+      { email: "a@example.com", phone: "", company: "Acme" },
+      { email: "a@example.com", phone: "555-0100", company: "Acme Corporation" }
+    ];
+    const result = dedupeRows(rows, { keys: ["email"] }, true);
+    expect(result.rows).toEqual([{ email: "a@example.com", phone: "555-0100", company: "Acme" }]);
+    expect(result.diff.some((entry) => entry.rowIndex === 0 && entry.field === "phone")).toBe(true);
+  });
+
+  it("applies per-field survivorship rules", () => {
+    const rows = [
+      { email: "a@example.com", company: "Acme", title: "Engineer", source: "csv", updated: "2024-01-01" },
+      { email: "a@example.com", company: "Acme Corporation", title: "CTO", source: "crm", updated: "2024-06-01" },
+      { email: "a@example.com", company: "ACME", title: "Lead", source: "web", updated: "2023-01-01" }
+    ];
+    const result = dedupeRows(
+      rows,
+      {
+        keys: ["email"],
+        survivorship: {
+          default: { strategy: "preferred_source", sourceField: "source", sources: ["web", "csv"] },
+          fields: {
+            company: { strategy: "longest" },
+            title: { strategy: "most_recent", timestampField: "updated" }
+          }
+        }
+      },
+      true
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]).toMatchObject({
+      company: "Acme Corporation",
+      title: "CTO",
+      source: "web",
+      updated: "2023-01-01"
+    });
+  });
+
+  it("merges fuzzy duplicates into the first occurrence", () => {
+    const rows = [
+      { name: "Acme Inc.", phone: null },
+      { name: "Acme Incorporated", phone: "555-0100" }
+    ];
+    const result = dedupeRows(
+      rows,
+      { keys: ["name"], fuzzy: { enabled: true, threshold: 0.85 } },
+      true
+    );
+    expect(result.rows).toEqual([{ name: "Acme Inc.", phone: "555-0100" }]);
+  });
 });
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression, parseExpression } from "@/lib/recipe-engine/expression";
+import { deriveFields } from "@/lib/recipe-engine/steps/derive";
+import { previewRecipe, type RecipeDefinition, type RecipeRow } from "@/lib/recipe-engine";
+import { ExpressionError, ValidationError } from "@/lib/errors";
+
+function evaluate(source: string, row: RecipeRow = {}) {
+  return evaluateExpression(parseExpression(source), row);
+}
+
+describe("expression language", () => {
+  it("concatenates text and adds numbers", () => {
+    expect(evaluate('first + " " + last', { first: "Ada", last: "Lovelace" })).toBe("Ada Lovelace");
+    expect(evaluate("price - cost", { price: "19.99", cost: 7 })).toBeCloseTo(12.99);
+    expect(evaluate("price + tax", { price: "10", tax: "2.5" })).toBe(12.5);
+    expect(evaluate("2 + 3 * 4 % 5")).toBe(4);
+  });
+
+  it("propagates nulls through arithmetic and coalesces blanks", () => {
+    expect(evaluate("price * 2", { price: null })).toBeNull();
+    expect(evaluate("missing + 1")).toBeNull();
+    expect(evaluate('nickname ?? first ?? "unknown"', { nickname: "", first: "Grace" })).toBe("Grace");
+  });
+
+  it("reads backtick-quoted field names", () => {
+    expect(evaluate("upper(`Company Name`)", { "Company Name": "acme" })).toBe("ACME");
+  });
+
+  it("supports comparisons, logic and conditionals", () => {
+    expect(evaluate('amount >= 1000 ? "enterprise" : "smb"', { amount: "1500" })).toBe("enterprise");
+    expect(evaluate('status == "open" && !is_empty(owner)', { status: "open", owner: "" })).toBe(false);
+    expect(evaluate("score > 5", { score: null })).toBeNull();
+  });
+
+  it("provides string, number and date functions", () => {
+    expect(evaluate('join(" ", first, middle, last)', { first: "Ada", middle: "", last: "Lovelace" })).toBe(
+      "Ada Lovelace"
+    );
+    expect(evaluate("round(1.005, 2)")).toBe(1.01);
+    expect(evaluate("fiscal_quarter(closed, 4)", { closed: "2024-05-20" })).toBe(1);
+    expect(evaluate("fiscal_year(closed, 4)", { closed: "2024-05-20" })).toBe(2025);
+    expect(evaluate("quarter(closed)", { closed: "2024-05-20T10:00:00Z" })).toBe(2);
+    expect(evaluate('date_add(start, 1, "month")', { start: "2024-01-31" })).toBe("2024-02-29");
+    expect(evaluate('date_diff(start, end, "days")', { start: "2024-02-27", end: "2024-03-01" })).toBe(3);
+    expect(evaluate('format_date(start, "dd/MM/yyyy")', { start: "2024-03-09" })).toBe("09/03/2024");
+  });
+
+  it("never resolves names from the prototype chain", () => {
+    expect(evaluate("constructor")).toBeNull();
+    expect(() => parseExpression("constructor(1)")).toThrow(ExpressionError);
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(() => parseExpression("price *")).toThrow(ExpressionError);
+    expect(() => parseExpression('upper("a", "b")')).toThrow(/expects 1 argument/);
+    const error = (() => {
+      try {
+        parseExpression("a + # b");
+      } catch (caught) {
+        return caught as ExpressionError;
+      }
+    })();
+    expect(error?.position).toBe(4);
+  });
+});
+
+describe("deriveFields", () => {
+  it("adds derived fields and records diffs", () => {
+    const result = deriveFields([{ first: "Ada", last: "Lovelace" }], {
+      fields: [
+        { field: "full_name", expression: 'first + " " + last' },
+        { field: "initials", expression: "left(first, 1) + left(last, 1)" }
+      ]
+    });
+    expect(result.rows[0]).toMatchObject({ full_name: "Ada Lovelace", initials: "AL" });
+    expect(result.diff).toEqual([
+      { rowIndex: 0, field: "full_name", before: undefined, after: "Ada Lovelace", operation: "derive" },
+      { rowIndex: 0, field: "initials", before: undefined, after: "AL", operation: "derive" }
+    ]);
+  });
+
+  it("reports evaluation errors and leaves the field untouched", () => {
+    const result = deriveFields([{ price: "n/a", cost: 3, margin: "?" }], {
+      fields: [{ field: "margin", expression: "price - cost" }]
+    });
+    expect(result.rows[0].margin).toBe("?");
+    expect(result.errors).toEqual([
+      expect.objectContaining({ rowIndex: 0, field: "margin", code: "derive_error" })
+    ]);
+  });
+
+  it("rejects invalid expressions when the recipe runs", () => {
+    const recipe: RecipeDefinition = {
+      id: "derive",
+      name: "Derive",
+      version: 1,
+      steps: [{ type: "derive", config: { fields: [{ field: "x", expression: "eval(" }] } }]
+    };
+    expect(() => previewRecipe(recipe, [], { allowFuzzy: false })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  executeRecipe,
+  executeRecipeStream,
+  previewRecipe,
+  type ErrorPolicy,
+  type RecipeDefinition,
+  type RecipeRow
+} from "@/lib/recipe-engine";
+import { ValidationError } from "@/lib/errors";
+
+const rows: RecipeRow[] = [
+  { email: "ada@example.com", name: "Ada" },
+  { email: "", name: "Grace" },
+  { email: "alan@example.com", name: "Alan" },
+  { email: "", name: "" }
+];
+
+function recipeWith(onError: ErrorPolicy): RecipeDefinition {
+  return {
+    id: "policy",
+    name: "Policy",
+    version: 1,
+    steps: [
+      { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError },
+      { type: "write_back", config: { strategy: "monday_upsert", boardId: "1", columnMapping: {} } }
+    ]
+  };
+}
+
+async function run(onError: ErrorPolicy) {
+  const written: RecipeRow[] = [];
+  const result = await executeRecipe(recipeWith(onError), rows, {
+    allowFuzzy: false,
+    writeBack: async (batch) => {
+      written.push(...batch);
+    }
+  });
+  return { result, written };
+}
+
+describe("step error policies", () => {
+  it("keeps every row with warn", async () => {
+    const { result, written } = await run("warn");
+    expect(written).toHaveLength(4);
+    expect(result.errors).toHaveLength(2);
+    expect(result.failed).toBe(false);
+  });
+
+  it("only writes clean rows with drop_row", async () => {
+    const { result, written } = await run("drop_row");
+    expect(written.map((row) => row.name)).toEqual(["Ada", "Alan"]);
+    expect(result.rowsWritten).toBe(2);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("returns quarantined rows with their reasons", async () => {
+    const { result, written } = await run("quarantine");
+    expect(written).toHaveLength(2);
+    expect(result.rejected).toEqual([
+      {
+        stepIndex: 0,
+        rowIndex: 1,
+        sourceId: "row:2",
+        row: rows[1],
+        errors: [expect.objectContaining({ code: "required" })]
+      },
+      {
+        stepIndex: 0,
+        rowIndex: 3,
+        sourceId: "row:4",
+        row: rows[3],
+        errors: [expect.objectContaining({ code: "required" })]
+      }
+    ]);
+  });
+
+  it("stops before write-back with fail_run", async () => {
+    const { result, written } = await run("fail_run");
+    expect(written).toEqual([]);
+    expect(result.failed).toBe(true);
+    expect(result.rowsWritten).toBe(0);
+  });
+
+  it("applies policies in preview", () => {
+    const preview = previewRecipe(recipeWith("quarantine"), rows, { allowFuzzy: false });
+    expect(preview.rows).toHaveLength(2);
+    expect(preview.rejected.map((entry) => entry.rowIndex)).toEqual([1, 3]);
+    expect(preview.failed).toBe(false);
+  });
+
+  it("reports rejected rows at full-input positions when streaming", async () => {
+    const result = await executeRecipeStream(recipeWith("quarantine"), rows, {
+      allowFuzzy: false,
+      chunkSize: 2,
+      writeBack: async () => undefined
+    });
+    expect(result.rejected.map((entry) => entry.rowIndex)).toEqual([1, 3]);
+    expect(result.rejected[1].errors[0].rowIndex).toBe(3);
+    expect(result.rowsWritten).toBe(2);
+  });
+
+  it("rejects unknown policies", () => {
+    const recipe = { ...recipeWith("warn"), steps: [{ type: "validate", config: { rules: [] }, onError: "ignore" }] };
+    expect(() => previewRecipe(recipe as unknown as RecipeDefinition, rows, { allowFuzzy: false })).toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { executeRecipe, executeRecipeStream, previewRecipe, type RecipeDefinition, type RecipeRow } from "@/lib/recipe-engine";
+import { lintRecipe } from "@/lib/recipe-engine/lint";
+import { recipeDefinitionSchema } from "@/lib/recipe-engine/schema";
+
+const rows: RecipeRow[] = [
+  { name: "Zoë", email: "zoe@example.com", score: "10" },
+  { name: "test user", email: "qa@internal.test", score: "99" },
+  { name: "ada", email: "ada@example.com", score: "9" },
+  { name: "", email: "", score: null },
+  { name: "Émile", email: "emile@example.com", score: "10" }
+];
+
+const recipe: RecipeDefinition = {
+  id: "filter-sort",
+  name: "Filter and sort",
+  version: 1,
+  steps: [
+    {
+      type: "filter",
+      config: {
+        mode: "drop",
+        condition: { any: [{ field: "email", op: "ends_with", value: "internal.test" }, { field: "email", op: "empty" }] }
+      }
+    },
+    { type: "sort", config: { keys: [{ field: "score", direction: "desc" }, { field: "name" }] } },
+    { type: "validate", config: { rules: [{ kind: "regex", field: "email", pattern: "^[a-y]" }] } }
+  ]
+};
+
+describe("filter and sort steps", () => {
+  it("reports the rows a filter removed with their source ids", () => {
+    const preview = previewRecipe(recipe, rows, { allowFuzzy: false });
+    expect(preview.removed).toEqual([
+      { stepIndex: 0, rowIndex: 1, sourceId: "row:2", row: rows[1] },
+      { stepIndex: 0, rowIndex: 3, sourceId: "row:4", row: rows[3] }
+    ]);
+    expect(preview.rows.map((row) => row.name)).toEqual(["Émile", "Zoë", "ada"]);
+    // Errors after the filter and sort still point at the right input row.
+    expect(preview.errors).toEqual([expect.objectContaining({ code: "regex", sourceId: "row:1" })]);
+  });
+
+  it("keeps matching rows and applies within a `when` selection", () => {
+    const preview = previewRecipe(
+      {
+        ...recipe,
+        steps: [
+          {
+            type: "filter",
+            config: { condition: { field: "score", op: "gte", value: 10 } },
+            when: { field: "email", op: "ends_with", value: "example.com" }
+          }
+        ]
+      },
+      rows,
+      { allowFuzzy: false }
+    );
+    // Kept rows of the selection are regrouped where the first selected row was.
+    expect(preview.rows.map((row) => row.email)).toEqual(["zoe@example.com", "emile@example.com", "qa@internal.test", ""]);
+    expect(preview.removed.map((entry) => entry.sourceId)).toEqual(["row:3"]);
+  });
+
+  it("sorts by several keys with null ordering and locale collation", () => {
+    const sorted = previewRecipe(
+      {
+        ...recipe,
+        steps: [
+          {
+            type: "sort",
+            config: { keys: [{ field: "score", compare: "number", nulls: "first" }, { field: "name", direction: "desc" }] }
+          }
+        ]
+      },
+      rows,
+      { allowFuzzy: false }
+    );
+    expect(sorted.rows.map((row) => row.name)).toEqual(["", "ada", "Zoë", "Émile", "test user"]);
+
+    const collated = previewRecipe(
+      { ...recipe, steps: [{ type: "sort", config: { keys: [{ field: "name", compare: "text" }], locale: "sv" } }] },
+      [{ name: "Ö" }, { name: "z" }, { name: "a" }],
+      { allowFuzzy: false }
+    );
+    expect(collated.rows.map((row) => row.name)).toEqual(["a", "z", "Ö"]);
+  });
+
+  it("streams the same result as a buffered run", async () => {
+    async function* generate() {
+      yield* rows;
+    }
+    const buffered = await executeRecipe(recipe, rows, { allowFuzzy: false });
+    const streamed = await executeRecipeStream(recipe, generate(), { allowFuzzy: false, chunkSize: 2 });
+    expect(streamed).toEqual(buffered);
+    expect(buffered).toMatchObject({ rowsProcessed: 5, rowsWritten: 0 });
+  });
+
+  it("validates configs and lints the fields they read", () => {
+    expect(
+      recipeDefinitionSchema.safeParse({ ...recipe, steps: [{ type: "sort", config: { keys: [] } }] }).success
+    ).toBe(false);
+    expect(
+      recipeDefinitionSchema.safeParse({
+        ...recipe,
+        steps: [{ type: "sort", config: { keys: [{ field: "name" }], locale: "not a locale" } }]
+      }).success
+    ).toBe(false);
+
+    const { issues } = lintRecipe(
+      {
+        ...recipe,
+        steps: [
+          { type: "map_columns", config: { mapping: { Email: "email" }, dropUnknown: true } },
+          { type: "filter", config: { condition: { field: "Email", op: "empty" } } },
+          { type: "sort", config: { keys: [{ field: "score" }] } }
+        ]
+      },
+      {}
+    );
+    expect(issues.map((issue) => [issue.code, issue.path])).toEqual([
+      ["renamed_field", "steps[1].config.condition.field"],
+      ["unknown_field", "steps[2].config.keys[0].field"]
+    ]);
+  });
+});
@@ -56,6 +56,62 @@ describe("formatRows", () => {
     expect(result.rows[0].archived).toBe(false);
   });
 
+  it("parses dates in several formats and Excel serials, detecting day-first columns", () => {
+    const result = formatRows(
+      [
+        { due: "25/12/2024" },
+        { due: "03/04/2024" },
+        { due: "4 March 2024" },
+        { due: "2024-03-04T10:00:00" },
+        { due: 45355 },
+        { due: "45355" },
+        { due: "04/03/24" },
+        { due: "soon" }
+      ],
+      {
+        operations: [{ field: "due", op: { kind: "date_parse" } }]
+      }
+    );
+    expect(result.rows.map((row) => row.due)).toEqual([
+      "2024-12-25",
+      "2024-04-03",
+      "2024-03-04",
+      "2024-03-04",
+      "2024-03-04",
+      "2024-03-04",
+      "2024-03-04",
+      "soon"
+    ]);
+    expect(result.errors).toEqual([
+      { rowIndex: 7, field: "due", code: "invalid_date", message: 'due "soon" is not a valid date' }
+    ]);
+  });
+
+  it("reports dates that could be day-first or month-first", () => {
+    const rows = [{ due: "03/04/2024" }, { due: "12/12/2024" }, { due: "2024/03/05" }];
+    const ambiguous = formatRows(rows, { operations: [{ field: "due", op: { kind: "date_parse" } }] });
+    expect(ambiguous.rows.map((row) => row.due)).toEqual(["03/04/2024", "2024-12-12", "2024-03-05"]);
+    expect(ambiguous.errors).toEqual([
+      {
+        rowIndex: 0,
+        field: "due",
+        code: "ambiguous_date",
+        message: 'due "03/04/2024" could be day-first or month-first; set an order to choose'
+      }
+    ]);
+
+    const ordered = formatRows(rows, {
+      operations: [{ field: "due", op: { kind: "date_parse", order: "month_first", outputFormat: "d MMM yyyy" } }]
+    });
+    expect(ordered.rows[0].due).toBe("4 Mar 2024");
+
+    const listed = formatRows([{ due: "2024.03.04" }, { due: "04-Mar-2024" }], {
+      operations: [{ field: "due", op: { kind: "date_parse", inputFormats: ["yyyy.MM.dd", "dd-MMM-yyyy"] } }]
+    });
+    expect(listed.rows.map((row) => row.due)).toEqual(["2024-03-04", "2024-03-04"]);
+    expect(listed.errors).toEqual([]);
+  });
+
   it("normalizes datetimes to UTC", () => {
     const result = formatRows(
       [{ meeting: "2025-10-16T10:00:00+07:00" }],
@@ -66,6 +122,84 @@ describe("formatRows", () => {
     expect(result.rows[0].meeting).toBe("2025-10-16T03:00:00Z");
   });
 
+  it("reads zone-less datetimes in a source timezone across DST changes", () => {
+    const result = formatRows(
+      [
+        { at: "2024-03-10 02:30", zone: "America/New_York" },
+        { at: "2024-11-03T01:30:00", zone: "America/New_York" },
+        { at: "2024-07-01T09:15:00.250", zone: "Asia/Kolkata" },
+        { at: "2024-07-01T09:15:00-07:00", zone: "Asia/Kolkata" },
+        { at: "2024-07-01T09:15:00" },
+        { at: "2024-07-01T09:15:00", zone: "Mars/Olympus" },
+        { at: "whenever" }
+      ],
+      {
+        operations: [
+          { field: "at", op: { kind: "timezone_to_utc", sourceTimezone: "Europe/Berlin", sourceTimezoneField: "zone" } }
+        ]
+      }
+    );
+    expect(result.rows.map((row) => row.at)).toEqual([
+      "2024-03-10T07:30:00Z",
+      "2024-11-03T05:30:00Z",
+      "2024-07-01T03:45:00.250Z",
+      "2024-07-01T16:15:00Z",
+      "2024-07-01T07:15:00Z",
+      "2024-07-01T09:15:00",
+      "whenever"
+    ]);
+    expect(result.errors.map((error) => [error.rowIndex, error.code])).toEqual([
+      [5, "unknown_timezone"],
+      [6, "invalid_datetime"]
+    ]);
+  });
+
+  it("gives the same instants whatever the server timezone", () => {
+    const serverTimezone = process.env.TZ;
+    const rows = [
+      { at: "2024-07-01 12:00 EST" },
+      { at: "Jul 1 2024 12:00 PM pdt" },
+      { at: "Jul 1 2024 12:00 +0200" },
+      { at: "Mon Jul 01 2024 12:00:00 GMT-0700 (Pacific Daylight Time)" },
+      { at: "Jul 1 2024 12:00" },
+      { at: "2024-07-01 12:00 CET" }
+    ];
+    try {
+      for (const timezone of ["UTC", "America/Los_Angeles", "Asia/Kathmandu"]) {
+        process.env.TZ = timezone;
+        const result = formatRows(rows, {
+          operations: [{ field: "at", op: { kind: "timezone_to_utc", sourceTimezone: "Asia/Tokyo" } }]
+        });
+        expect(result.rows.map((row) => row.at)).toEqual([
+          "2024-07-01T17:00:00Z",
+          "2024-07-01T19:00:00Z",
+          "2024-07-01T10:00:00Z",
+          "2024-07-01T19:00:00Z",
+          "2024-07-01T03:00:00Z",
+          "2024-07-01 12:00 CET"
+        ]);
+        expect(result.errors.map((error) => [error.rowIndex, error.code])).toEqual([[5, "invalid_datetime"]]);
+      }
+    } finally {
+      if (serverTimezone === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = serverTimezone;
+      }
+    }
+  });
+
+  it("converts datetimes to a target timezone as ISO, date-only or monday values", () => {
+    const rows = [{ at: "2024-12-31T23:30:00Z" }];
+    const convert = (output: "iso" | "date" | "monday") =>
+      formatRows(rows, {
+        operations: [{ field: "at", op: { kind: "timezone_to_utc", targetTimezone: "Australia/Sydney", output } }]
+      }).rows[0].at;
+    expect(convert("iso")).toBe("2025-01-01T10:30:00+11:00");
+    expect(convert("date")).toBe("2025-01-01");
+    expect(convert("monday")).toEqual({ date: "2025-01-01", time: "10:30:00" });
+  });
+
   it("slugifies text", () => {
     const result = formatRows(
       [{ project: "My Cool Project" }],
@@ -142,4 +276,157 @@ describe("formatRows", () => {
     );
     expect(result.rows[0].notes).toBe("Important update");
   });
+
+  it("maps country names, codes and aliases to ISO 3166-1", () => {
+    const result = formatRows(
+      [
+        { country: "Spain" },
+        { country: "Holland" },
+        { country: "Deutschland" },
+        { country: "Cote d'Ivoire" },
+        { country: "the U.S.A." },
+        { country: "826" },
+        { country: "fra" }
+      ],
+      {
+        operations: [{ field: "country", op: { kind: "iso_country" } }]
+      }
+    );
+    expect(result.rows.map((row) => row.country)).toEqual(["ES", "NL", "DE", "CI", "US", "GB", "FR"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("outputs alpha-3 codes or names and reports unknown countries", () => {
+    const result = formatRows(
+      [{ country: "España", origin: "Ivory Coast" }, { country: "Atlantis", origin: "" }],
+      {
+        operations: [
+          { field: "country", op: { kind: "iso_country", output: "alpha3" } },
+          { field: "origin", op: { kind: "iso_country", output: "name" } }
+        ]
+      }
+    );
+    expect(result.rows).toEqual([
+      { country: "ESP", origin: "Côte d'Ivoire" },
+      { country: "Atlantis", origin: "" }
+    ]);
+    expect(result.errors).toEqual([
+      { rowIndex: 1, field: "country", code: "unknown_country", message: 'country "Atlantis" is not a known country' }
+    ]);
+  });
+
+  it("maps subdivision names and codes using the row's country", () => {
+    const result = formatRows(
+      [
+        { state: "Yukon", country: "Canada" },
+        { state: "district of columbia", country: "" },
+        { state: "AU-NSW", country: "Australia" },
+        { state: "Bavaria", country: "Deutschland" },
+        { state: "Scotland", country: "GB" },
+        { state: "Orissa", country: "IND" },
+        { state: "Nuevo Leon", country: "México" }
+      ],
+      {
+        operations: [{ field: "state", op: { kind: "iso_state", countryField: "country" } }]
+      }
+    );
+    expect(result.rows.map((row) => row.state)).toEqual(["YT", "DC", "NSW", "BY", "SCT", "OD", "NLE"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("reports unknown subdivisions and states it cannot check", () => {
+    const result = formatRows(
+      [{ state: "Ontario" }, { state: "Dublin", country: "Ireland" }, { state: "Tokyo", country: "Atlantis" }],
+      {
+        operations: [{ field: "state", op: { kind: "iso_state", countryField: "country" } }]
+      }
+    );
+    expect(result.rows.map((row) => row.state)).toEqual(["Ontario", "Dublin", "Tokyo"]);
+    expect(result.errors).toEqual([
+      { rowIndex: 0, field: "state", code: "unknown_subdivision", message: 'state "Ontario" is not a known subdivision of US' },
+      {
+        rowIndex: 1,
+        field: "state",
+        code: "unsupported_subdivision_country",
+        message: 'state "Dublin" cannot be checked: no subdivisions are bundled for IE'
+      },
+      {
+        rowIndex: 2,
+        field: "state",
+        code: "unknown_country",
+        message: 'state "Tokyo" cannot be checked: country "Atlantis" is not a known country'
+      }
+    ]);
+  });
+
+  it("resolves currency codes, symbols and names with locale hints", () => {
+    const values = ["usd", "€", "dollars", "Swiss francs", "$", "kr", "doubloons"].map((ccy) => ({ ccy }));
+    const us = formatRows(values, { operations: [{ field: "ccy", op: { kind: "currency_code" } }] });
+    expect(us.rows.map((row) => row.ccy)).toEqual(["USD", "EUR", "USD", "CHF", "USD", "kr", "doubloons"]);
+    expect(us.errors.map((error) => [error.rowIndex, error.code])).toEqual([
+      [5, "ambiguous_currency"],
+      [6, "unknown_currency"]
+    ]);
+
+    const swedish = formatRows([{ ccy: "kr" }, { ccy: "$" }], {
+      operations: [{ field: "ccy", op: { kind: "currency_code", locale: "sv-SE" } }]
+    });
+    expect(swedish.rows.map((row) => row.ccy)).toEqual(["SEK", "$"]);
+    expect(swedish.errors[0].message).toBe('ccy "$" could be ARS, AUD, CAD, CLP, COP, MXN, NZD, USD; set a locale to choose');
+  });
+
+  it("splits money strings into amount and currency fields", () => {
+    const result = formatRows(
+      [
+        { price: "€1.234,56" },
+        { price: "USD 1,234.56" },
+        { price: "(£12.50)" },
+        { price: "JP¥1,234" },
+        { price: "1 234,5 kr", price_currency: "NOK" },
+        { price: "42" },
+        { price: "free" }
+      ],
+      {
+        operations: [{ field: "price", op: { kind: "money_parse", defaultCurrency: "EUR", locale: "nb-NO" } }]
+      }
+    );
+    expect(result.rows).toEqual([
+      { price: 1234.56, price_currency: "EUR" },
+      { price: 1234.56, price_currency: "USD" },
+      { price: -12.5, price_currency: "GBP" },
+      { price: 1234, price_currency: "JPY" },
+      { price: 1234.5, price_currency: "NOK" },
+      { price: 42, price_currency: "EUR" },
+      { price: "free" }
+    ]);
+    expect(result.errors).toEqual([
+      { rowIndex: 6, field: "price", code: "invalid_money", message: 'price "free" has no amount' }
+    ]);
+  });
+
+  it("rounds currency amounts to the currency's minor units", () => {
+    const result = formatRows(
+      [
+        { amount: "1234.5678", currency: "JPY" },
+        { amount: "1234.5678", currency: "KWD" },
+        { amount: "1234.5678", currency: "" }
+      ],
+      {
+        operations: [{ field: "amount", op: { kind: "round_to_currency", currencyField: "currency" } }]
+      }
+    );
+    expect(result.rows.map((row) => row.amount)).toEqual(["1235", "1234.568", "1234.57"]);
+  });
+
+  it("maps values through lookup tables whatever their case or padding", () => {
+    const config = { operations: [{ field: "region", op: { kind: "lookup" as const, table: "regions" } }] };
+    const result = formatRows([{ region: " North " }, { region: "SOUTH" }, { region: "west" }, { region: "" }], config, {
+      regions: { north: "N", South: "S" }
+    });
+    expect(result.rows.map((row) => row.region)).toEqual(["N", "S", "west", ""]);
+    expect(result.errors).toEqual([
+      { rowIndex: 2, field: "region", code: "unknown_lookup_value", message: 'region "west" is not in lookup table regions' }
+    ]);
+    expect(() => formatRows([{ region: "north" }], config)).toThrow("Unknown lookup table: regions");
+  });
 });
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "@/lib/errors";
+import { bindRecipeParameters, expandRecipeIncludes, previewRecipe, type RecipeDefinition } from "@/lib/recipe-engine";
+import { renameExpressionFields } from "@/lib/recipe-engine/expression";
+import { recipeDefinitionSchema } from "@/lib/recipe-engine/schema";
+import { prepareRecipe } from "@/lib/recipes";
+
+const CONTACT_ID = "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb";
+const LOOP_ID = "cccccccc-cccc-cccc-cccc-cccccccccccc";
+
+const contactCleanup = recipeDefinitionSchema.parse({
+  id: CONTACT_ID,
+  name: "Contact cleanup",
+  version: 2,
+  parameters: [{ name: "country", type: "string", default: "US" }],
+  steps: [
+    {
+      type: "format",
+      config: {
+        operations: [
+          { field: "email", op: { kind: "email_normalize" } },
+          { field: "phone", op: { kind: "phone_e164", defaultCountry: { $param: "country" } } }
+        ]
+      }
+    },
+    { type: "derive", config: { fields: [{ field: "domain", expression: 'split_part(email, "@", 2)' }] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError: "quarantine" }
+  ]
+});
+
+const stored: Record<string, RecipeDefinition> = { [`${CONTACT_ID}@2`]: contactCleanup };
+const load = async (recipeId: string, version: number) => stored[`${recipeId}@${version}`] ?? null;
+
+const orders = recipeDefinitionSchema.parse({
+  id: "orders",
+  name: "Orders",
+  version: 1,
+  steps: [
+    {
+      type: "include",
+      config: { recipeId: CONTACT_ID, version: 2, prefix: "billing_", parameters: { country: "GB" } },
+      when: { field: "billing_email", op: "not_empty" }
+    },
+    { type: "map_columns", config: { mapping: { billing_email: "email" } } }
+  ]
+});
+
+describe("recipe includes", () => {
+  it("inlines included steps with prefixed fields and bound parameters", async () => {
+    const expanded = await expandRecipeIncludes(orders, load);
+    expect(expanded.steps).toHaveLength(4);
+    expect(expanded.steps[0]).toEqual({
+      type: "format",
+      config: {
+        operations: [
+          { field: "billing_email", op: { kind: "email_normalize" } },
+          { field: "billing_phone", op: { kind: "phone_e164", defaultCountry: "GB" } }
+        ]
+      },
+      when: { field: "billing_email", op: "not_empty" },
+      includedFrom: { recipeId: CONTACT_ID, version: 2, stepIndex: 0 }
+    });
+    expect(expanded.steps[1].config).toEqual({
+      fields: [{ field: "billing_domain", expression: 'split_part(billing_email, "@", 2)' }]
+    });
+    expect(expanded.steps[2]).toMatchObject({ onError: "quarantine", includedFrom: { stepIndex: 2 } });
+    expect(expanded.steps[3]).toEqual(orders.steps[1]);
+  });
+
+  it("attributes preview diffs to the included recipe", async () => {
+    const expanded = await expandRecipeIncludes(orders, load);
+    const preview = previewRecipe(expanded, [{ billing_email: "Ada@Example.COM" }], { allowFuzzy: false });
+    expect(preview.rows[0]).toMatchObject({ email: "ada@example.com", billing_domain: "example.com" });
+    expect(preview.diff.find((entry) => entry.field === "billing_email")).toMatchObject({
+      stepIndex: 0,
+      includedFrom: { recipeId: CONTACT_ID, version: 2, stepIndex: 0 }
+    });
+  });
+
+  it("forwards parameter references to the including recipe", async () => {
+    const forwarding = recipeDefinitionSchema.parse({
+      id: "forwarding",
+      name: "Forwarding",
+      version: 1,
+      parameters: [{ name: "region", type: "string" }],
+      steps: [{ type: "include", config: { recipeId: CONTACT_ID, version: 2, parameters: { country: { $param: "region" } } } }]
+    });
+    const expanded = bindRecipeParameters(await expandRecipeIncludes(forwarding, load), { region: "FR" });
+    expect(expanded.steps[0].config).toMatchObject({
+      operations: [{}, { field: "phone", op: { kind: "phone_e164", defaultCountry: "FR" } }]
+    });
+    // Preview and execute prepare recipes the same way.
+    const prepared = await prepareRecipe(load, forwarding, { region: "FR" });
+    expect(prepared.steps).toEqual(expanded.steps);
+  });
+
+  it("rejects include cycles and missing versions by path", async () => {
+    const loop = (target: string): RecipeDefinition => ({
+      id: target,
+      name: "Loop",
+      version: 1,
+      steps: [{ type: "include", config: { recipeId: target === LOOP_ID ? CONTACT_ID : LOOP_ID, version: 1 } }]
+    });
+    const loader = async (recipeId: string) => loop(recipeId);
+    await expect(expandRecipeIncludes(loop(LOOP_ID), loader)).rejects.toMatchObject({
+      message: "Recipe include cycle",
+      details: [
+        {
+          path: "steps[0].config.recipeId",
+          message: `Include cycle: ${LOOP_ID}@1 -> ${CONTACT_ID}@1 -> ${LOOP_ID}@1`
+        }
+      ]
+    });
+    const missing = { ...orders, steps: [{ type: "include" as const, config: { recipeId: CONTACT_ID, version: 9 } }] };
+    await expect(expandRecipeIncludes(missing, load)).rejects.toBeInstanceOf(ValidationError);
+    expect(() => previewRecipe(missing, [], { allowFuzzy: false })).toThrow(/was not expanded/);
+  });
+
+  it("renames expression fields without touching literals or functions", () => {
+    expect(renameExpressionFields('concat(first, " ", `last name`) ?? "first"', (name) => `p_${name}`)).toBe(
+      'concat(p_first, " ", `p_last name`) ?? "first"'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { executeRecipeStream, previewRecipe, type RecipeDefinition, type RecipeRow } from "@/lib/recipe-engine";
+
+const rows: RecipeRow[] = [
+  { "Full Name": "ada lovelace", Email: "ada@example.com" },
+  { "Full Name": "grace hopper", Email: "grace@example.com" },
+  { "Full Name": "ada  lovelace", Email: "ada@example.com" },
+  { "Full Name": "alan turing", Email: "" }
+];
+
+const recipe: RecipeDefinition = {
+  id: "lineage",
+  name: "Lineage",
+  version: 1,
+  steps: [
+    { type: "map_columns", config: { mapping: { "Full Name": "name", Email: "email" } } },
+    { type: "dedupe", config: { keys: ["email"] } },
+    { type: "format", config: { operations: [{ field: "name", op: { kind: "title_case" } }] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] } }
+  ]
+};
+
+describe("row lineage", () => {
+  it("attributes diff entries to their step, operation and input column", () => {
+    const result = previewRecipe(recipe, rows, { allowFuzzy: false });
+    const titleCased = result.diff.filter((entry) => entry.operation === "title_case");
+    expect(titleCased.map((entry) => entry.sourceId)).toEqual(["row:1", "row:2", "row:4"]);
+    expect(titleCased[0]).toMatchObject({ stepIndex: 2, field: "name", sourceField: "Full Name" });
+  });
+
+  it("keeps source ids of rows surviving a dedupe", () => {
+    const result = previewRecipe(recipe, rows, { allowFuzzy: false });
+    expect(result.rows).toHaveLength(3);
+    const validation = result.errors.find((error) => error.code === "required");
+    expect(validation).toMatchObject({ rowIndex: 2, sourceId: "row:4" });
+    expect(result.diff.find((entry) => entry.operation === "dedupe")).toMatchObject({ stepIndex: 1, sourceId: "row:3" });
+  });
+
+  it("uses caller supplied source ids", () => {
+    const result = previewRecipe(recipe, rows, {
+      allowFuzzy: false,
+      sourceId: (_row, index) => `line:${index + 2}`
+    });
+    expect(result.errors.map((error) => error.sourceId)).toContain("line:5");
+  });
+
+  it("tracks source ids across stream chunks", async () => {
+    const result = await executeRecipeStream(recipe, rows, { allowFuzzy: false, chunkSize: 1 });
+    expect(result.errors.filter((error) => error.code === "required").map((error) => error.sourceId)).toEqual([
+      "row:4"
+    ]);
+  });
+});
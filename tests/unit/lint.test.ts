@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { RecipeDefinition, RecipeStep } from "@/lib/recipe-engine";
+import { hasNestedQuantifier, lintRecipe } from "@/lib/recipe-engine/lint";
+import { instantiateRecipeTemplate, listRecipeTemplates } from "@/lib/recipeTemplates";
+
+function recipe(...steps: RecipeStep[]): RecipeDefinition {
+  return { id: "lint", name: "Lint", version: 1, steps };
+}
+
+describe("lintRecipe", () => {
+  it("tracks the fields available after each step", () => {
+    const { issues, availableFields } = lintRecipe(
+      recipe(
+        { type: "map_columns", config: { mapping: { Email: "email", Name: "full_name" }, dropUnknown: true } },
+        { type: "format", config: { operations: [{ field: "full_name", op: { kind: "split_name" } }] } },
+        { type: "derive", config: { fields: [{ field: "domain", expression: "lower(email)" }] } }
+      )
+    );
+    expect(issues).toEqual([]);
+    expect(availableFields).toEqual([
+      ["email", "full_name"],
+      ["email", "first_name", "full_name", "last_name"],
+      ["domain", "email", "first_name", "full_name", "last_name"]
+    ]);
+  });
+
+  it("flags fields dropped or renamed by map_columns", () => {
+    const { issues } = lintRecipe(
+      recipe(
+        { type: "map_columns", config: { mapping: { Email: "email" }, dropUnknown: true } },
+        {
+          type: "format",
+          config: {
+            operations: [
+              { field: "email", op: { kind: "email_normalize" } },
+              { field: "phone", op: { kind: "phone_e164" } },
+              { field: "Email", op: { kind: "trim_collapse_whitespace" } }
+            ]
+          }
+        }
+      )
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        code: "unknown_field",
+        stepIndex: 1,
+        opIndex: 1,
+        path: "steps[1].config.operations[1].field",
+        field: "phone"
+      }),
+      expect.objectContaining({ severity: "error", code: "renamed_field", opIndex: 2, field: "Email" })
+    ]);
+  });
+
+  it("requires the write-back key column to be mapped", () => {
+    const { issues } = lintRecipe(
+      recipe(
+        { type: "map_columns", config: { mapping: { Email: "email" } } },
+        { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "sku" } }
+      )
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: "error", code: "missing_key_column", path: "steps[1].config.keyColumn" })
+    ]);
+  });
+
+  it("reports invalid and catastrophic patterns", () => {
+    const { issues } = lintRecipe(
+      recipe({
+        type: "validate",
+        config: {
+          rules: [
+            { kind: "regex", field: "code", pattern: "([A-Z]" },
+            { kind: "regex", field: "code", pattern: "^(\\w+\\s?)+$" },
+            { kind: "regex", field: "code", pattern: "^[A-Z]{2}\\d+$" }
+          ]
+        }
+      })
+    );
+    expect(issues.map(({ code, opIndex }) => [code, opIndex])).toEqual([
+      ["invalid_regex", 0],
+      ["catastrophic_regex", 1]
+    ]);
+  });
+
+  it("warns when split_name overwrites an existing field", () => {
+    const { issues } = lintRecipe(
+      recipe({ type: "format", config: { operations: [{ field: "name", op: { kind: "split_name" } }] } }),
+      { inputFields: ["name", "first_name"] }
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: "warning", code: "field_collision", field: "first_name" })
+    ]);
+  });
+
+  it("accepts every built-in template", () => {
+    for (const template of listRecipeTemplates()) {
+      expect(lintRecipe(instantiateRecipeTemplate(template.id)).issues).toEqual([]);
+    }
+  });
+});
+
+describe("hasNestedQuantifier", () => {
+  it.each([
+    ["(a+)+", true],
+    ["(a*)*b", true],
+    ["((ab)+c)*", true],
+    ["(a|b){2,}", false],
+    ["[(a+)]+", false],
+    ["\\(a+\\)+", false],
+    ["(a+)?", false]
+  ])("%s -> %s", (pattern, expected) => {
+    expect(hasNestedQuantifier(pattern)).toBe(expected);
+  });
+});
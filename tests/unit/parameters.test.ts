@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "@/lib/errors";
+import { bindRecipeParameters, previewRecipe } from "@/lib/recipe-engine";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+
+const recipe = {
+  id: "regional",
+  name: "Regional contacts",
+  version: 1,
+  parameters: [
+    { name: "country", type: "string", default: "US" },
+    { name: "tiers", type: "string_list" },
+    { name: "boardId", type: "string" }
+  ],
+  steps: [
+    { type: "format", config: { operations: [{ field: "phone", op: { kind: "phone_e164", defaultCountry: { $param: "country" } } }] } },
+    { type: "validate", config: { rules: [{ kind: "in_set", field: "tier", values: { $param: "tiers" } }] } },
+    { type: "write_back", config: { strategy: "csv", boardId: { $param: "boardId" } } }
+  ]
+};
+
+describe("recipe parameters", () => {
+  it("validates parameter references and keeps them unbound", () => {
+    const parsed = recipeDefinitionSchema.parse(recipe);
+    expect(parsed.steps[0]).toEqual(recipe.steps[0]);
+  });
+
+  it("reports undeclared and mistyped parameters by path", () => {
+    const broken = {
+      ...recipe,
+      parameters: [{ name: "country", type: "string" }, { name: "tiers", type: "string" }],
+      steps: [...recipe.steps.slice(0, 2), { type: "write_back", config: { strategy: "csv", boardId: { $param: "board" } } }]
+    };
+    const result = recipeDefinitionSchema.safeParse(broken);
+    if (result.success) throw new Error("expected the recipe to be rejected");
+    expect(schemaIssues(result.error)).toEqual([
+      { path: "steps[2].config.boardId", message: 'Undeclared parameter "board"' },
+      { path: "steps[1].config.rules[0].values", message: "Expected array, received string" }
+    ]);
+  });
+
+  it("binds supplied values over defaults", () => {
+    const bound = bindRecipeParameters(recipeDefinitionSchema.parse(recipe), {
+      country: "GB",
+      tiers: ["gold"],
+      boardId: "123"
+    });
+    expect(bound.parameters).toBeUndefined();
+    expect(bound.steps).toEqual([
+      { type: "format", config: { operations: [{ field: "phone", op: { kind: "phone_e164", defaultCountry: "GB" } }] } },
+      { type: "validate", config: { rules: [{ kind: "in_set", field: "tier", values: ["gold"] }] } },
+      { type: "write_back", config: { strategy: "csv", boardId: "123" } }
+    ]);
+  });
+
+  it("rejects missing, mistyped and unknown values", () => {
+    try {
+      bindRecipeParameters(recipeDefinitionSchema.parse(recipe), { tiers: "gold", region: "EU" });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toEqual([
+        { path: "parameters.region", message: "Unknown parameter" },
+        { path: "parameters.tiers", message: "Expected a string_list value" },
+        { path: "parameters.boardId", message: "Required" }
+      ]);
+    }
+  });
+
+  it("runs one recipe for several regions", () => {
+    const parsed = recipeDefinitionSchema.parse({ ...recipe, steps: [recipe.steps[0]] });
+    const rows = [{ phone: "020 7946 0018" }];
+    const us = previewRecipe(parsed, rows, { allowFuzzy: false, parameters: { tiers: [], boardId: "1" } });
+    const gb = previewRecipe(parsed, rows, { allowFuzzy: false, parameters: { country: "GB", tiers: [], boardId: "1" } });
+    expect(us.rows[0].phone).not.toBe("+442079460018");
+    expect(gb.rows[0].phone).toBe("+442079460018");
+  });
+});
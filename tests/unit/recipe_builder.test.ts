@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  FORMAT_OP_OPTIONS,
+  isFormEditable,
+  moveItem,
+  newBuilderStep,
+  parseRecipeDraft,
+  previewDraft,
+  ruleForOperation,
+  setFormatOption,
+  type RecipeDraft
+} from "@/lib/recipeBuilder";
+
+const draft: RecipeDraft = {
+  id: "contacts",
+  name: "Contacts",
+  version: 1,
+  steps: [
+    { type: "map_columns", config: { mapping: { "E-mail": "email", Phone: "phone" } } },
+    {
+      type: "format",
+      config: {
+        operations: [
+          { field: "email", op: { kind: "email_normalize" } },
+          { field: "phone", op: { kind: "phone_e164", defaultCountry: "GB" } }
+        ]
+      }
+    },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError: "quarantine" }
+  ]
+};
+
+describe("recipe builder", () => {
+  it("round-trips drafts through the JSON view", () => {
+    const parsed = parseRecipeDraft(JSON.stringify(draft, null, 2));
+    expect(parsed).toEqual({ draft });
+    expect(parseRecipeDraft('{"id": "x"')).toHaveProperty("error");
+    expect(parseRecipeDraft('{"id": "x", "name": "X", "version": 1, "steps": [{}]}')).toEqual({
+      error: "steps[0].type: Required"
+    });
+  });
+
+  it("edits unfinished built-in steps with forms and everything else as JSON", () => {
+    expect(isFormEditable(newBuilderStep("dedupe"))).toBe(true);
+    expect(isFormEditable({ type: "derive", config: { fields: [{ field: "", expression: "concat(" }] } })).toBe(true);
+    expect(isFormEditable({ type: "format", config: { operations: "email" } })).toBe(false);
+    expect(isFormEditable({ type: "write_back", config: { strategy: "csv", boardId: { $param: "board" } } })).toBe(false);
+    expect(isFormEditable({ type: "include", config: { recipeId: "x", version: 1 } })).toBe(false);
+  });
+
+  it("maps stored operations onto the standardization catalog and edits their options", () => {
+    expect(ruleForOperation("phone", { kind: "phone_e164", defaultCountry: "GB" })?.id).toBe("phone_e164");
+    expect(ruleForOperation("slug", { kind: "slugify", separator: "_" })?.id).toBe("slugify");
+    expect(ruleForOperation("state", { kind: "iso_state" })).toBeNull();
+
+    const [precision] = FORMAT_OP_OPTIONS.round_numeric ?? [];
+    expect(setFormatOption({ kind: "round_numeric" }, precision, "3")).toEqual({ kind: "round_numeric", precision: 3 });
+    expect(setFormatOption({ kind: "round_numeric", precision: 3 }, precision, "")).toEqual({ kind: "round_numeric" });
+    expect(setFormatOption({ kind: "round_numeric", precision: 3 }, precision, "x")).toEqual({
+      kind: "round_numeric",
+      precision: 3
+    });
+  });
+
+  it("reorders steps", () => {
+    expect(moveItem(["a", "b", "c"], 2, 0)).toEqual(["c", "a", "b"]);
+    expect(moveItem(["a", "b"], 0, -1)).toEqual(["a", "b"]);
+  });
+
+  it("previews the draft against sample rows", () => {
+    const preview = previewDraft(draft, [{ "E-mail": "ADA@EXAMPLE.COM", Phone: "020 7946 0018" }]);
+    if (!("result" in preview)) throw new Error("expected a preview");
+    expect(preview.result.rows).toEqual([{ email: "ada@example.com", phone: "+442079460018" }]);
+
+    const invalid = previewDraft({ ...draft, steps: [{ type: "dedupe", config: { keys: [] } }] }, []);
+    expect(invalid).toEqual({ issues: [{ path: "steps[0].config.keys", message: "Array must contain at least 1 element(s)" }] });
+  });
+});
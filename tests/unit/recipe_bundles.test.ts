@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import { stringify as stringifyYaml } from "yaml";
+import {
+  createRecipeBundle,
+  decodeRecipeBundle,
+  encodeRecipeBundle,
+  recipeContentChecksum
+} from "@/lib/recipeBundles";
+import { ValidationError } from "@/lib/errors";
+import type { RecipeDefinition } from "@/lib/recipe-engine";
+
+const RECIPE_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const TENANT_ID = "11111111-1111-1111-1111-111111111111";
+
+const definition: RecipeDefinition = {
+  id: "crm",
+  name: "CRM Contacts",
+  version: 3,
+  schemaVersion: 2,
+  steps: [{ type: "format", config: { operations: [{ field: "email", op: { kind: "email_normalize" } }] } }]
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+function authorized(path: string, init: RequestInit = {}) {
+  const token = jwt.sign({ accountId: "demo-account", userId: 7 }, "client-secret");
+  return new Request(`https://example.com${path}`, { ...init, headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe("recipe bundles", () => {
+  it("round-trips through YAML and JSON", () => {
+    const bundle = createRecipeBundle({ name: "CRM Contacts", version: 3, definition });
+    for (const encoding of ["yaml", "json"] as const) {
+      expect(decodeRecipeBundle(encodeRecipeBundle(bundle, encoding))).toEqual(bundle);
+    }
+  });
+
+  it("detects edits made after export", () => {
+    const bundle = createRecipeBundle({ name: "CRM Contacts", version: 3, definition });
+    const tampered = { ...bundle, recipe: { ...bundle.recipe, definition: { ...definition, steps: [] } } };
+    expect(() => decodeRecipeBundle(stringifyYaml(tampered))).toThrow("checksum mismatch");
+  });
+
+  it("reports schema errors by JSON path", () => {
+    const bundle = createRecipeBundle({ name: "CRM Contacts", version: 3, definition });
+    const invalid = JSON.parse(JSON.stringify(bundle));
+    invalid.recipe.definition.steps[0].config.operations[0].op.kind = "lowercase";
+    try {
+      decodeRecipeBundle(JSON.stringify(invalid));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toEqual([
+        expect.objectContaining({ path: "recipe.definition.steps[0].config.operations[0].op.kind" })
+      ]);
+    }
+  });
+});
+
+describe("import and export routes", () => {
+  it("exports a stored recipe and reports it unchanged on re-import", async () => {
+    const { GET } = await import("@/app/api/recipes/[id]/export/route");
+    const { POST } = await import("@/app/api/recipes/import/route");
+    const exported = await GET(authorized(`/api/recipes/${RECIPE_ID}/export?format=yaml`), { params: { id: RECIPE_ID } });
+    expect(exported.headers.get("content-type")).toContain("yaml");
+    const body = await exported.text();
+    expect(body).toContain("format: recipe-bundle/v1");
+
+    const imported = await POST(authorized("/api/recipes/import", { method: "POST", body }));
+    expect(await imported.json()).toEqual({ status: "unchanged", id: RECIPE_ID, version: 1 });
+  });
+
+  it("detects name and version conflicts", async () => {
+    const { POST } = await import("@/app/api/recipes/import/route");
+    const diverged = encodeRecipeBundle(
+      createRecipeBundle({ name: "CRM Contacts", version: 1, definition: { ...definition, name: "CRM Contacts" } }),
+      "json"
+    );
+
+    const conflict = await POST(authorized("/api/recipes/import", { method: "POST", body: diverged }));
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ conflict: { recipeId: RECIPE_ID, currentVersion: 1, bundleVersion: 1 } });
+
+    const copied = await POST(authorized("/api/recipes/import?onConflict=copy", { method: "POST", body: diverged }));
+    expect(await copied.json()).toMatchObject({ status: "copied", version: 1 });
+
+    // A higher version number alone is not a promotion: the target may have been edited since.
+    const newer = encodeRecipeBundle(
+      createRecipeBundle({ name: "CRM Contacts", version: 4, definition: { ...definition, name: "CRM Contacts" } }),
+      "json"
+    );
+    const unrelated = await POST(authorized("/api/recipes/import", { method: "POST", body: newer }));
+    expect(unrelated.status).toBe(409);
+    expect(await unrelated.json()).toMatchObject({ conflict: { bundleVersion: 4, baseVersion: null } });
+
+    const forced = await POST(authorized("/api/recipes/import?onConflict=new_version", { method: "POST", body: newer }));
+    expect(await forced.json()).toEqual({ status: "updated", id: RECIPE_ID, version: 2 });
+  });
+
+  it("fast-forwards targets still at the bundle's base version", async () => {
+    const { GET } = await import("@/app/api/recipes/[id]/export/route");
+    const { POST } = await import("@/app/api/recipes/import/route");
+    const { getServiceSupabase } = await import("@/lib/db");
+    const { createRecipeVersion } = await import("@/lib/recipes");
+    const seeded = decodeRecipeBundle(
+      await (await GET(authorized(`/api/recipes/${RECIPE_ID}/export`), { params: { id: RECIPE_ID } })).text()
+    );
+    const edited = { ...seeded.recipe.definition, steps: definition.steps };
+    const base = { version: 1, checksum: recipeContentChecksum(seeded.recipe.definition) };
+    const promotion = encodeRecipeBundle(
+      createRecipeBundle({ name: "CRM Contacts", version: 2, base, definition: edited }),
+      "json"
+    );
+    const promoted = await POST(authorized("/api/recipes/import", { method: "POST", body: promotion }));
+    expect(await promoted.json()).toEqual({ status: "updated", id: RECIPE_ID, version: 2 });
+
+    // The target now holds version 2, so a bundle built on version 1 again has diverged.
+    const stale = encodeRecipeBundle(
+      createRecipeBundle({ name: "CRM Contacts", version: 2, base, definition: { ...edited, steps: [] } }),
+      "json"
+    );
+    const conflict = await POST(authorized("/api/recipes/import", { method: "POST", body: stale }));
+    expect(conflict.status).toBe(409);
+
+    await createRecipeVersion(getServiceSupabase(), {
+      recipeId: RECIPE_ID,
+      tenantId: TENANT_ID,
+      recipe: { ...edited, steps: [{ type: "include", config: { recipeId: RECIPE_ID, version: 1 } }] }
+    });
+    const exported = await GET(authorized(`/api/recipes/${RECIPE_ID}/export?version=2`), { params: { id: RECIPE_ID } });
+    expect(decodeRecipeBundle(await exported.text()).recipe.base).toEqual(base);
+    const withInclude = await GET(authorized(`/api/recipes/${RECIPE_ID}/export?version=3`), { params: { id: RECIPE_ID } });
+    expect(withInclude.status).toBe(422);
+    expect(await withInclude.json()).toMatchObject({ issues: [{ path: "steps[0].config.recipeId" }] });
+  });
+
+  it("carries the lookup tables a recipe references", async () => {
+    const { GET } = await import("@/app/api/recipes/[id]/export/route");
+    const { POST } = await import("@/app/api/recipes/import/route");
+    const { getServiceSupabase } = await import("@/lib/db");
+    const { createRecipeVersion } = await import("@/lib/recipes");
+    const { getLookupTables, saveLookupTable } = await import("@/lib/lookupTables");
+    const supabase = getServiceSupabase();
+    const regions = { north: "N", south: "S" };
+    await createRecipeVersion(supabase, {
+      recipeId: RECIPE_ID,
+      tenantId: TENANT_ID,
+      recipe: {
+        ...definition,
+        name: "CRM Contacts",
+        steps: [{ type: "format", config: { operations: [{ field: "region", op: { kind: "lookup", table: "regions" } }] } }]
+      }
+    });
+
+    const missing = await GET(authorized(`/api/recipes/${RECIPE_ID}/export?version=2`), { params: { id: RECIPE_ID } });
+    expect(missing.status).toBe(422);
+    expect(await missing.json()).toMatchObject({ issues: [{ path: "steps[0].config.operations[0].op.table" }] });
+
+    await saveLookupTable(supabase, { tenantId: TENANT_ID, name: "regions", entries: regions });
+    const exported = await GET(authorized(`/api/recipes/${RECIPE_ID}/export?version=2`), { params: { id: RECIPE_ID } });
+    const bundle = decodeRecipeBundle(await exported.text());
+    expect(bundle.lookupTables).toEqual({ regions });
+    expect(() => decodeRecipeBundle(encodeRecipeBundle(createRecipeBundle(bundle.recipe), "json"))).toThrow(
+      "Bundle is missing lookup tables"
+    );
+
+    // Tables are shared by the tenant's recipes, so a differing one is only replaced on request.
+    await saveLookupTable(supabase, { tenantId: TENANT_ID, name: "regions", entries: { north: "North" } });
+    const body = encodeRecipeBundle(bundle, "json");
+    const conflict = await POST(authorized("/api/recipes/import", { method: "POST", body }));
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ conflict: { lookupTables: ["regions"] } });
+    expect(await getLookupTables(supabase, TENANT_ID, ["regions"])).toEqual({ regions: { north: "North" } });
+
+    const replaced = await POST(authorized("/api/recipes/import?onConflict=new_version", { method: "POST", body }));
+    expect(await replaced.json()).toEqual({ status: "unchanged", id: RECIPE_ID, version: 2 });
+    expect(await getLookupTables(supabase, TENANT_ID, ["regions"])).toEqual({ regions });
+  });
+});
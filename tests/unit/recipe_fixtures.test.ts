@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import type { RecipeDefinition } from "@/lib/recipe-engine";
+import { runRecipeFixture } from "@/lib/recipeFixtures";
+
+const RECIPE_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+const recipe: RecipeDefinition = {
+  id: "crm",
+  name: "CRM Contacts",
+  version: 1,
+  steps: [
+    { type: "format", config: { operations: [{ field: "name", op: { kind: "title_case" } }] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] } }
+  ]
+};
+
+function request(path: string, body?: unknown) {
+  return new Request(`https://example.com${path}`, {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${jwt.sign({ accountId: "demo-account", userId: 7 }, "client-secret")}`
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+describe("runRecipeFixture", () => {
+  it("passes when rows and errors match", () => {
+    const result = runRecipeFixture(recipe, {
+      name: "title case",
+      input: [{ name: "ada lovelace", email: "ada@example.com" }, { name: "bob" }],
+      expectedRows: [{ name: "Ada Lovelace", email: "ada@example.com" }, { name: "Bob" }],
+      expectedErrors: [{ code: "required", rowIndex: 1, field: "email" }]
+    });
+    expect(result).toEqual({ name: "title case", passed: true, mismatches: [] });
+  });
+
+  it("reports mismatches cell by cell", () => {
+    const result = runRecipeFixture(recipe, {
+      name: "drifted",
+      input: [{ name: "ada", email: "ada@example.com" }, { name: "bob", email: "bob@example.com" }],
+      expectedRows: [{ name: "ada", email: "ada@example.com" }],
+      expectedErrors: [{ code: "required" }]
+    });
+    expect(result.passed).toBe(false);
+    expect(result.mismatches).toEqual([
+      { kind: "row_count", expected: 1, actual: 2 },
+      { kind: "cell", rowIndex: 0, field: "name", expected: "ada", actual: "Ada" },
+      { kind: "missing_error", code: "required" }
+    ]);
+  });
+
+  it("reports errors that were not expected", () => {
+    const result = runRecipeFixture(recipe, { name: "no errors", input: [{ name: "x" }], expectedErrors: [] });
+    expect(result.mismatches).toEqual([
+      { kind: "unexpected_error", code: "required", rowIndex: 0, field: "email", message: expect.any(String) }
+    ]);
+  });
+});
+
+describe("recipe fixture routes", () => {
+  it("stores fixtures and runs them against a draft", async () => {
+    const fixtures = await import("@/app/api/recipes/[id]/fixtures/route");
+    const { POST: run } = await import("@/app/api/recipes/[id]/fixtures/run/route");
+    const params = { params: { id: RECIPE_ID } };
+
+    const created = await fixtures.POST(
+      request(`/api/recipes/${RECIPE_ID}/fixtures`, {
+        name: "keeps names",
+        input: [{ name: "ada" }],
+        expectedRows: [{ name: "ada" }]
+      }),
+      params
+    );
+    expect(created.status).toBe(200);
+    const listed = await (await fixtures.GET(request(`/api/recipes/${RECIPE_ID}/fixtures`), params)).json();
+    expect(listed.fixtures).toMatchObject([{ name: "keeps names", input: [{ name: "ada" }] }]);
+
+    const stored = await (await run(request(`/api/recipes/${RECIPE_ID}/fixtures/run`, {}), params)).json();
+    expect(stored.passed).toBe(true);
+    const draft = await (await run(request(`/api/recipes/${RECIPE_ID}/fixtures/run`, { recipe }), params)).json();
+    expect(draft).toEqual({
+      passed: false,
+      results: [
+        {
+          name: "keeps names",
+          passed: false,
+          mismatches: [{ kind: "cell", rowIndex: 0, field: "name", expected: "ada", actual: "Ada" }]
+        }
+      ]
+    });
+  });
+
+  it("rejects fixtures without expectations", async () => {
+    const { POST } = await import("@/app/api/recipes/[id]/fixtures/route");
+    const response = await POST(request(`/api/recipes/${RECIPE_ID}/fixtures`, { name: "empty", input: [] }), {
+      params: { id: RECIPE_ID }
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).issues[0].path).toBe("expectedRows");
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import { ValidationError } from "@/lib/errors";
+import { previewRecipe } from "@/lib/recipe-engine";
+import { instantiateRecipeTemplate, listRecipeTemplates } from "@/lib/recipeTemplates";
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+describe("recipe templates", () => {
+  it("instantiates every template with default parameters", () => {
+    const templates = listRecipeTemplates();
+    expect(templates.map((template) => template.id)).toEqual([
+      "crm_contacts",
+      "leads",
+      "invoices",
+      "product_catalog",
+      "employee_roster",
+      "event_registrations"
+    ]);
+    for (const template of templates) {
+      const recipe = instantiateRecipeTemplate(template.id);
+      expect(recipe).toMatchObject({ id: template.id, name: template.name, version: 1 });
+      expect(recipe.steps[0].type).toBe("map_columns");
+    }
+  });
+
+  it("maps header synonyms and applies parameters", () => {
+    const recipe = instantiateRecipeTemplate("crm_contacts", { defaultCountry: "gb" });
+    const result = previewRecipe(
+      recipe,
+      [{ "E-mail": "Ada@Example.com", "FIRST NAME": "ada", Mobile: "020 7946 0018", Country: "" }],
+      { allowFuzzy: false }
+    );
+    expect(result.rows[0]).toMatchObject({
+      email: "ada@example.com",
+      first_name: "Ada",
+      phone: "+442079460018",
+      country: "GB"
+    });
+  });
+
+  it("fills blank currencies with the template currency", () => {
+    const recipe = instantiateRecipeTemplate("invoices", { currency: "eur", numberLocale: "de-DE" });
+    const result = previewRecipe(recipe, [{ "Invoice #": "INV-1", Net: "1.200,50", VAT: "228,10" }], {
+      allowFuzzy: false
+    });
+    expect(result.rows[0]).toMatchObject({ invoice_number: "INV-1", amount: 1200.5, currency: "EUR", total: 1428.6 });
+  });
+
+  it("reports invalid parameters with JSON paths", () => {
+    try {
+      instantiateRecipeTemplate("invoices", { currency: "euro", unknown: 1 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toEqual([
+        { path: "parameters.currency", message: "Expected an ISO 4217 currency code" },
+        { path: "parameters", message: "Unrecognized key(s) in object: 'unknown'" }
+      ]);
+    }
+  });
+
+  it("creates a tenant recipe from a template", async () => {
+    const { POST } = await import("@/app/api/recipes/templates/[templateId]/route");
+    const { getRecipe } = await import("@/lib/recipes");
+    const { getServiceSupabase } = await import("@/lib/db");
+    const request = new Request("https://example.com/api/recipes/templates/leads", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt.sign({ accountId: "demo-account", userId: 7 }, "client-secret")}`
+      },
+      body: JSON.stringify({ name: "Webinar leads", parameters: { defaultCountry: "DE" } })
+    });
+
+    const response = await POST(request, { params: { templateId: "leads" } });
+    expect(response.status).toBe(200);
+    const { id, version } = await response.json();
+    expect(version).toBe(1);
+    const stored = await getRecipe(getServiceSupabase(), id, "11111111-1111-1111-1111-111111111111");
+    expect(stored).toMatchObject({ name: "Webinar leads", version: 1 });
+  });
+});
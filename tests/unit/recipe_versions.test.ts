@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import {
+  latestSchemaVersion,
+  migrateRecipe,
+  recipeMigrations,
+  type RecipeMigration
+} from "@/lib/recipe-engine/migrations";
+import { recipeDefinitionSchema } from "@/lib/recipe-engine/schema";
+import { diffRecipeJson } from "@/lib/recipes";
+
+const RECIPE_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const TENANT_ID = "11111111-1111-1111-1111-111111111111";
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+function save(payload: unknown) {
+  return new Request("https://example.com/api/recipes/update", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${jwt.sign({ accountId: "demo-account", userId: 1 }, "client-secret")}`
+    },
+    body: JSON.stringify({ id: RECIPE_ID, payload })
+  });
+}
+
+const recipe = {
+  id: "crm",
+  name: "CRM Contacts",
+  version: 1,
+  steps: [{ type: "format", config: { operations: [{ field: "email", op: { kind: "email_normalize" } }] } }]
+};
+
+describe("recipe versions", () => {
+  it("records every save as a new immutable version", async () => {
+    const { POST } = await import("@/app/api/recipes/update/route");
+    const { getServiceSupabase } = await import("@/lib/db");
+    const { getRecipeVersion, listRecipeVersions } = await import("@/lib/recipes");
+
+    const first = await POST(save(recipe));
+    expect(await first.json()).toEqual({ ok: true, version: 2 });
+    const second = await POST(save({ ...recipe, steps: [] }));
+    expect(await second.json()).toEqual({ ok: true, version: 3 });
+
+    const supabase = getServiceSupabase();
+    const versions = await listRecipeVersions(supabase, RECIPE_ID, TENANT_ID);
+    expect(versions.map((entry) => entry.version)).toEqual([3, 2, 1]);
+    const pinned = await getRecipeVersion(supabase, RECIPE_ID, TENANT_ID, 2);
+    expect(pinned?.json).toMatchObject({ version: 2, steps: recipe.steps });
+    const { data } = await supabase.from("recipes").select("version").eq("id", RECIPE_ID).maybeSingle();
+    expect(data).toMatchObject({ version: 3 });
+  });
+
+  it("rejects invalid recipes with JSON paths", async () => {
+    const { POST } = await import("@/app/api/recipes/update/route");
+    const response = await POST(save({ ...recipe, steps: [{ type: "format", config: {} }] }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).issues[0].path).toBe("payload.steps[0].config.operations");
+  });
+});
+
+describe("diffRecipeJson", () => {
+  it("lists changed paths", () => {
+    const next = {
+      ...recipe,
+      version: 2,
+      steps: [{ type: "format", config: { operations: [{ field: "email", op: { kind: "trim_collapse_whitespace" } }] } }]
+    };
+    expect(diffRecipeJson(recipe, next)).toEqual([
+      { path: "version", before: 1, after: 2 },
+      { path: "steps[0].config.operations[0].op.kind", before: "email_normalize", after: "trim_collapse_whitespace" }
+    ]);
+  });
+});
+
+describe("migrateRecipe", () => {
+  const migrations: RecipeMigration[] = [
+    {
+      from: 1,
+      description: "rename map_columns.columns to mapping",
+      migrate: (old) => ({
+        ...old,
+        steps: (old.steps as Array<{ type: string; config: Record<string, unknown> }>).map(({ type, config }) =>
+          type === "map_columns" ? { type, config: { mapping: config.columns } } : { type, config }
+        )
+      })
+    }
+  ];
+
+  it("upgrades recipes from older schema versions", () => {
+    const old = { id: "r", name: "R", version: 1, steps: [{ type: "map_columns", config: { columns: { A: "a" } } }] };
+    expect(migrateRecipe(old, migrations)).toEqual({
+      ...old,
+      schemaVersion: 2,
+      steps: [{ type: "map_columns", config: { mapping: { A: "a" } } }]
+    });
+  });
+
+  it("leaves current recipes untouched", () => {
+    const current = { id: "r", name: "R", version: 1, schemaVersion: 2, steps: [] };
+    expect(migrateRecipe(current, migrations)).toBe(current);
+  });
+
+  it("upgrades unversioned recipes to the current schema version", () => {
+    const old = { id: "r", name: "R", version: 1, steps: [{ type: "map_columns", config: { mapping: { A: "a" } } }] };
+    expect(latestSchemaVersion()).toBe(2);
+    expect(migrateRecipe(old)).toEqual({ ...old, schemaVersion: 2 });
+    expect(recipeDefinitionSchema.parse(old)).toMatchObject({ schemaVersion: 2, steps: old.steps });
+  });
+
+  it("chains the registered migrations with later ones", () => {
+    const chain: RecipeMigration[] = [
+      ...recipeMigrations,
+      {
+        from: 2,
+        description: "rename the recipe",
+        migrate: (recipe) => ({ ...recipe, name: `${String(recipe.name)} (v3)` })
+      }
+    ];
+    const old = { id: "r", name: "R", version: 1, schemaVersion: 1, steps: [] };
+    expect(migrateRecipe(old, chain)).toEqual({ ...old, name: "R (v3)", schemaVersion: 3 });
+    expect(() => migrateRecipe(old, chain.slice(1))).toThrow("No recipe migration from schema version 1");
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+
+const RECIPE_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+function request(path: string, init: RequestInit & { account?: string } = {}) {
+  const { account = "demo-account", ...rest } = init;
+  const token = jwt.sign({ accountId: account, userId: 7 }, "client-secret");
+  return new Request(`https://example.com${path}`, {
+    ...rest,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` }
+  });
+}
+
+async function addOtherTenant() {
+  const { getServiceSupabase } = await import("@/lib/db");
+  await getServiceSupabase()
+    .from("tenants")
+    .insert({ id: "22222222-2222-2222-2222-222222222222", monday_account_id: "other-account", plan: "free", seats: 1 });
+}
+
+const params = { params: { id: RECIPE_ID } };
+
+describe("recipe CRUD routes", () => {
+  it("requires a session token", async () => {
+    const { GET } = await import("@/app/api/recipes/route");
+    const response = await GET(new Request("https://example.com/api/recipes"));
+    expect(response.status).toBe(401);
+  });
+
+  it("lists, clones and archives the session tenant's recipes", async () => {
+    const { GET: list } = await import("@/app/api/recipes/route");
+    const { GET: get, DELETE: archive } = await import("@/app/api/recipes/[id]/route");
+    const { POST: clone } = await import("@/app/api/recipes/[id]/clone/route");
+
+    const cloned = await clone(request(`/api/recipes/${RECIPE_ID}/clone`, { method: "POST", body: "{}" }), params);
+    const { id: cloneId } = (await cloned.json()) as { id: string };
+    const copy = await get(request(`/api/recipes/${cloneId}`), { params: { id: cloneId } });
+    expect(await copy.json()).toMatchObject({ name: "CRM Contacts (copy)", version: 1, json: { name: "CRM Contacts (copy)" } });
+
+    expect((await archive(request(`/api/recipes/${RECIPE_ID}`, { method: "DELETE" }), params)).status).toBe(200);
+
+    const listed = (await (await list(request("/api/recipes"))).json()) as { recipes: Array<{ id: string }> };
+    expect(listed.recipes.map((recipe) => recipe.id)).toEqual([cloneId]);
+    const all = (await (await list(request("/api/recipes?includeArchived=true"))).json()) as { recipes: unknown[] };
+    expect(all.recipes).toHaveLength(2);
+  });
+
+  it("hides other tenants' recipes", async () => {
+    await addOtherTenant();
+    const { GET: get, DELETE: archive } = await import("@/app/api/recipes/[id]/route");
+    const { POST: update } = await import("@/app/api/recipes/update/route");
+
+    expect((await get(request(`/api/recipes/${RECIPE_ID}`, { account: "other-account" }), params)).status).toBe(404);
+    expect(
+      (await archive(request(`/api/recipes/${RECIPE_ID}`, { method: "DELETE", account: "other-account" }), params)).status
+    ).toBe(404);
+
+    const overwrite = await update(
+      request("/api/recipes/update", {
+        method: "POST",
+        account: "other-account",
+        body: JSON.stringify({
+          id: RECIPE_ID,
+          tenantId: "11111111-1111-1111-1111-111111111111",
+          payload: { id: "crm", name: "Hijacked", version: 1, steps: [] }
+        })
+      })
+    );
+    expect(overwrite.status).toBe(404);
+    const original = await get(request(`/api/recipes/${RECIPE_ID}`), params);
+    expect(await original.json()).toMatchObject({ name: "CRM Contacts", version: 1 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  createStepRegistry,
+  defaultStepRegistry,
+  executeRecipe,
+  extendStepRegistry,
+  previewRecipe,
+  type RecipeDefinition,
+  type RecipeRow,
+  type StepDefinition
+} from "@/lib/recipe-engine";
+
+const upper = (rows: RecipeRow[], field: string) =>
+  rows.map((row) => ({ ...row, [field]: String(row[field] ?? "").toUpperCase() }));
+
+const upperStep: StepDefinition<{ field: string }> = {
+  type: "tenant_upper",
+  configSchema: z.object({ field: z.string() }),
+  preview(rows, config) {
+    return { rows: upper(rows, config.field) };
+  },
+  async execute(rows, config) {
+    return { rows: upper(rows, config.field) };
+  }
+};
+
+const recipe = {
+  id: "custom",
+  name: "Custom",
+  version: 1,
+  steps: [
+    { type: "map_columns", config: { mapping: { Name: "name" } } },
+    { type: "tenant_upper", config: { field: "name" } }
+  ]
+} as unknown as RecipeDefinition;
+
+describe("step registry", () => {
+  it("registers the built-in steps", () => {
+    expect(defaultStepRegistry.types()).toEqual(["map_columns", "format", "validate", "derive", "dedupe", "write_back", "filter", "sort", "include"]);
+  });
+
+  it("rejects duplicate registrations", () => {
+    const registry = createStepRegistry([upperStep]);
+    expect(() => registry.register(upperStep)).toThrow(/already registered/);
+  });
+
+  it("dispatches custom steps in preview and execute", async () => {
+    const registry = extendStepRegistry(defaultStepRegistry, [upperStep]);
+    const preview = previewRecipe(recipe, [{ Name: "ada" }], { allowFuzzy: false, registry });
+    expect(preview.rows).toEqual([{ name: "ADA" }]);
+
+    const result = await executeRecipe(recipe, [{ Name: "ada" }], { allowFuzzy: false, registry });
+    expect(result).toMatchObject({ rowsProcessed: 1, rowsWritten: 0 });
+    expect(defaultStepRegistry.get("tenant_upper")).toBeUndefined();
+  });
+
+  it("throws for unknown steps and invalid configs", () => {
+    expect(() => previewRecipe(recipe, [], { allowFuzzy: false })).toThrow(/Unsupported recipe step/);
+
+    const invalid = {
+      ...recipe,
+      steps: [{ type: "format", config: { operations: [{ field: "name", op: { kind: "shout" } }] } }]
+    } as unknown as RecipeDefinition;
+    expect(() => previewRecipe(invalid, [], { allowFuzzy: false })).toThrow(/Invalid config for step 0/);
+  });
+});
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import type { RecipeDefinition, RecipeRow } from "@/lib/recipe-engine";
+
+const RECIPE_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const TENANT_ID = "11111111-1111-1111-1111-111111111111";
+
+const written: RecipeRow[][] = [];
+
+vi.mock("@/lib/mondayApi", () => ({
+  resolveOAuthToken: async () => "access-token",
+  upsertRowsToBoard: async ({ rows }: { rows: RecipeRow[] }) => {
+    written.push(rows);
+  }
+}));
+
+beforeEach(() => {
+  vi.resetModules();
+  written.length = 0;
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    APP_BASE_URL: "https://example.com",
+    MONDAY_CLIENT_ID: "client-id",
+    MONDAY_CLIENT_SECRET: "client-secret",
+    MONDAY_SIGNING_SECRET: "signing-secret",
+    MONDAY_DEFAULT_SCOPES: "boards:read boards:write",
+    NEXT_PUBLIC_MONDAY_REDIRECT_URI: "https://example.com/api/monday/oauth/callback",
+    SUPABASE_URL: "https://stub.supabase.co",
+    SUPABASE_ANON_KEY: "anon-key",
+    ENABLE_SUPABASE_STUB: "1"
+  });
+});
+
+const writeBack = {
+  type: "write_back",
+  config: { strategy: "monday_upsert", boardId: "42", columnMapping: { name: "text" } }
+} as const;
+
+function execute(body: Record<string, unknown>) {
+  const token = jwt.sign({ accountId: "demo-account", userId: 7 }, "client-secret");
+  return new Request("https://example.com/api/recipes/run/execute", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+}
+
+async function storeVersion(recipe: RecipeDefinition) {
+  const { getServiceSupabase } = await import("@/lib/db");
+  const { createRecipeVersion } = await import("@/lib/recipes");
+  const supabase = getServiceSupabase();
+  return createRecipeVersion(supabase, { recipeId: RECIPE_ID, tenantId: TENANT_ID, recipe });
+}
+
+describe("run routes", () => {
+  it("runs the stored version a run is pinned to and refuses edited steps", async () => {
+    const stored: RecipeDefinition = {
+      id: RECIPE_ID,
+      name: "CRM Contacts",
+      version: 2,
+      steps: [{ type: "format", config: { operations: [{ field: "name", op: { kind: "title_case" } }] } }, writeBack]
+    };
+    const { version } = await storeVersion(stored);
+    const { getServiceSupabase } = await import("@/lib/db");
+    await getServiceSupabase()
+      .from("runs")
+      .insert({ id: "run-1", tenant_id: TENANT_ID, recipe_id: RECIPE_ID, recipe_version: version, status: "queued" });
+
+    const { POST } = await import("@/app/api/recipes/run/execute/route");
+    const edited = await POST(
+      execute({
+        runId: "run-1",
+        recipe: { ...stored, version, steps: [writeBack] },
+        previewRows: [{ name: "ada lovelace" }]
+      })
+    );
+    expect(edited.status).toBe(409);
+    expect(await edited.json()).toMatchObject({
+      error: "Recipe differs from its stored version",
+      changes: expect.arrayContaining([{ path: "steps[0].type", before: "format", after: "write_back" }])
+    });
+    expect(written).toEqual([]);
+
+    const response = await POST(
+      execute({ runId: "run-1", recipe: { ...stored, version }, previewRows: [{ name: "ada lovelace" }] })
+    );
+    expect(response.status).toBe(200);
+    expect(written).toEqual([[{ name: "Ada Lovelace" }]]);
+
+    const stale = await POST(
+      execute({ runId: "run-1", recipe: { ...stored, version: 1 }, previewRows: [{ name: "ada lovelace" }] })
+    );
+    expect(stale.status).toBe(409);
+  });
+
+  it("pins recipes whose own id names a stored version", async () => {
+    const steps: RecipeDefinition["steps"] = [
+      { type: "format", config: { operations: [{ field: "name", op: { kind: "title_case" } }] } },
+      writeBack
+    ];
+    const { version } = await storeVersion({ id: RECIPE_ID, name: "CRM Contacts", version: 2, steps });
+    const { POST } = await import("@/app/api/recipes/run/execute/route");
+    const edited = await POST(
+      execute({
+        recipe: { id: RECIPE_ID, name: "CRM Contacts", version, steps: [writeBack] },
+        previewRows: [{ name: "grace hopper" }]
+      })
+    );
+    expect(edited.status).toBe(409);
+    expect(written).toEqual([]);
+
+    const response = await POST(
+      execute({
+        recipe: { id: RECIPE_ID, name: "CRM Contacts", version, steps },
+        previewRows: [{ name: "grace hopper" }]
+      })
+    );
+    expect(response.status).toBe(200);
+    expect(written).toEqual([[{ name: "Grace Hopper" }]]);
+  });
+
+  it("writes nothing when a fail_run step fails a later chunk", async () => {
+    const previewRows = Array.from({ length: 600 }, (_, index) => ({
+      name: `contact ${index}`,
+      email: index === 550 ? "" : `user${index}@example.com`
+    }));
+    const { POST } = await import("@/app/api/recipes/run/execute/route");
+    const response = await POST(
+      execute({
+        recipe: {
+          id: "custom",
+          name: "Custom",
+          version: 1,
+          steps: [
+            { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError: "fail_run" },
+            writeBack
+          ]
+        },
+        previewRows
+      })
+    );
+    expect(await response.json()).toMatchObject({ rowsWritten: 0, failed: true, errors: [{ rowIndex: 550 }] });
+    expect(written).toEqual([]);
+  });
+
+  it("answers 400 with issues when bound parameters make a step config invalid", async () => {
+    const recipe = {
+      id: "custom",
+      name: "Custom",
+      version: 1,
+      parameters: [{ name: "zone", type: "string", default: "UTC" }],
+      steps: [
+        {
+          type: "format",
+          config: { operations: [{ field: "at", op: { kind: "timezone_to_utc", sourceTimezone: { $param: "zone" } } }] }
+        },
+        writeBack
+      ]
+    };
+    const { POST: executePost } = await import("@/app/api/recipes/run/execute/route");
+    const executed = await executePost(
+      execute({ recipe, parameters: { zone: "Mars/Olympus" }, previewRows: [{ at: "2024-07-01 12:00" }] })
+    );
+    expect(executed.status).toBe(400);
+    expect(await executed.json()).toMatchObject({
+      issues: [{ path: "steps[0].config.operations[0].op.sourceTimezone" }]
+    });
+    expect(written).toEqual([]);
+
+    const { POST: previewPost } = await import("@/app/api/recipes/run/preview/route");
+    const form = new FormData();
+    form.set("file", new File(["at,name\n2024-07-01 12:00,ada\n"], "rows.csv", { type: "text/csv" }));
+    form.set("recipe", JSON.stringify(recipe));
+    form.set("parameters", JSON.stringify({ zone: "Mars/Olympus" }));
+    const token = jwt.sign({ accountId: "demo-account", userId: 7 }, "client-secret");
+    const previewed = await previewPost(
+      new Request("https://example.com/api/recipes/run/preview", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: form
+      })
+    );
+    expect(previewed.status).toBe(400);
+    expect(await previewed.json()).toMatchObject({
+      issues: [{ path: "steps[0].config.operations[0].op.sourceTimezone" }]
+    });
+  });
+
+  it("maps values through the tenant's lookup tables", async () => {
+    const recipe = {
+      id: "custom",
+      name: "Custom",
+      version: 1,
+      steps: [
+        { type: "format", config: { operations: [{ field: "name", op: { kind: "lookup", table: "nicknames" } }] } },
+        writeBack
+      ]
+    };
+    const { POST } = await import("@/app/api/recipes/run/execute/route");
+    const missing = await POST(execute({ recipe, previewRows: [{ name: "ada" }] }));
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ issues: [{ path: "steps[0].config.operations[0].op.table" }] });
+
+    const { getServiceSupabase } = await import("@/lib/db");
+    const { saveLookupTable } = await import("@/lib/lookupTables");
+    await saveLookupTable(getServiceSupabase(), { tenantId: TENANT_ID, name: "nicknames", entries: { ada: "Ada Lovelace" } });
+    const response = await POST(execute({ recipe, previewRows: [{ name: "ADA" }] }));
+    expect(response.status).toBe(200);
+    expect(written).toEqual([[{ name: "Ada Lovelace" }]]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { recipeDefinitionSchema, schemaIssues } from "@/lib/recipe-engine/schema";
+import { formatRows } from "@/lib/recipe-engine/steps/format";
+import { previewRecipe, type RecipeDefinition } from "@/lib/recipe-engine";
+import { ValidationError } from "@/lib/errors";
+
+const recipe = {
+  id: "crm",
+  name: "CRM Contacts",
+  version: 1,
+  steps: [
+    { type: "map_columns", config: { mapping: { FirstName: "first_name", Email: "email" } } },
+    { type: "format", config: { operations: [{ field: "email", op: { kind: "email_normalize" } }] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError: "quarantine" },
+    { type: "write_back", config: { strategy: "monday_upsert", keyColumn: "email" } }
+  ]
+};
+
+function issuesFor(value: unknown) {
+  const result = recipeDefinitionSchema.safeParse(value);
+  return result.success ? [] : schemaIssues(result.error, ["recipe"]);
+}
+
+describe("recipeDefinitionSchema", () => {
+  it("accepts a well-formed recipe", () => {
+    expect(issuesFor(recipe)).toEqual([]);
+  });
+
+  it("reports unknown format operations at their JSON path", () => {
+    const invalid = structuredClone(recipe);
+    invalid.steps[1].config.operations = [{ field: "email", op: { kind: "lowercase" } }];
+    expect(issuesFor(invalid).map((issue) => issue.path)).toEqual(["recipe.steps[1].config.operations[0].op.kind"]);
+  });
+
+  it("reports unknown step types and missing config", () => {
+    const invalid = {
+      ...recipe,
+      steps: [{ type: "transform", config: {} }, { type: "dedupe", config: {} }]
+    };
+    expect(issuesFor(invalid).map((issue) => issue.path)).toEqual(["recipe.steps[0].type", "recipe.steps[1].config.keys"]);
+  });
+
+  it("validates step modifiers", () => {
+    const invalid = structuredClone(recipe) as { steps: Array<Record<string, unknown>> };
+    invalid.steps[2].onError = "ignore";
+    expect(issuesFor(invalid).map((issue) => issue.path)).toEqual(["recipe.steps[2].onError"]);
+  });
+
+  it("rejects regex rules whose pattern does not compile", () => {
+    const invalid = structuredClone(recipe) as { steps: Array<{ config: Record<string, unknown> }> };
+    invalid.steps[2].config.rules = [{ kind: "regex", field: "email", pattern: "([a-z" }];
+    expect(issuesFor(invalid)).toEqual([
+      { path: "recipe.steps[2].config.rules[0].pattern", message: "Invalid regular expression" }
+    ]);
+  });
+});
+
+describe("engine validation", () => {
+  it("reports step config issues with their path", () => {
+    const invalid = {
+      ...recipe,
+      steps: [{ type: "format", config: { operations: [{ field: "x", op: { kind: "round_numeric", precision: "2" } }] } }]
+    } as unknown as RecipeDefinition;
+    try {
+      previewRecipe(invalid, [], { allowFuzzy: false });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toEqual([
+        { path: "steps[0].config.operations[0].op.precision", message: "Expected number, received string" }
+      ]);
+    }
+  });
+
+  it("rejects unknown format operations instead of skipping them", () => {
+    const config = { operations: [{ field: "x", op: { kind: "lowercase" } }] } as unknown as Parameters<
+      typeof formatRows
+    >[1];
+    expect(() => formatRows([{ x: "A" }], config)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { doubleMetaphone } from "@/lib/recipe-engine/matching/phonetic";
+import {
+  compareValues,
+  editDistance,
+  jaroWinkler,
+  scoreRecords,
+  tokenSetRatio
+} from "@/lib/recipe-engine/matching/similarity";
+import { dedupeRows } from "@/lib/recipe-engine/steps/dedupe";
+
+describe("doubleMetaphone", () => {
+  it("returns primary and alternate encodings", () => {
+    expect(doubleMetaphone("Smith")).toEqual(["SM0", "XMT"]);
+    expect(doubleMetaphone("Schmidt")).toEqual(["XMT", "SMT"]);
+    expect(doubleMetaphone("Thompson")[0]).toBe("TMPS");
+    expect(doubleMetaphone("Philip")[0]).toBe("FLP");
+    expect(doubleMetaphone("")).toEqual(["", ""]);
+  });
+});
+
+describe("similarity algorithms", () => {
+  it("counts adjacent transpositions once with damerau_levenshtein", () => {
+    expect(editDistance("ca", "ac")).toBe(2);
+    expect(editDistance("ca", "ac", true)).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("ignores word order and legal-form abbreviations with token_set", () => {
+    const tokenScore = tokenSetRatio("acme corp inc", "inc acme corporation");
+    expect(tokenScore).toBeGreaterThanOrEqual(0.9);
+    expect(tokenScore).toBeGreaterThan(jaroWinkler("acme corp inc", "inc acme corporation"));
+  });
+
+  it("matches names that sound alike with phonetic algorithms", () => {
+    expect(compareValues("jon smith", "john smyth", "double_metaphone")).toBe(1);
+    expect(compareValues("robert", "rupert", "soundex")).toBe(1);
+    expect(compareValues("robert", "alice", "soundex")).toBe(0);
+  });
+});
+
+describe("scoreRecords", () => {
+  it("weights comparators and skips fields empty on both records", () => {
+    const score = scoreRecords(
+      { name: "Acme", email: "ops@acme.io", phone: "" },
+      { name: "Acme", email: "sales@acme.io", phone: "" },
+      [
+        { field: "name", algorithm: "exact", weight: 3 },
+        { field: "email", algorithm: "exact", weight: 1 },
+        { field: "phone", algorithm: "exact", weight: 5 }
+      ]
+    );
+    expect(score).toBeCloseTo(0.75);
+  });
+
+  it("returns null when there is nothing to compare", () => {
+    expect(scoreRecords({}, {}, [{ field: "name", algorithm: "levenshtein" }])).toBeNull();
+  });
+});
+
+describe("dedupe with comparators", () => {
+  it("merges records using per-field algorithms", () => {
+    const rows = [
+      { company: "Acme Corp Inc", contact: "Jon Smith" },
+      { company: "Inc Acme Corporation", contact: "John Smyth" },
+      { company: "Globex", contact: "Hank Scorpio" }
+    ];
+    const result = dedupeRows(
+      rows,
+      {
+        keys: ["company", "contact"],
+        fuzzy: {
+          enabled: true,
+          threshold: 0.9,
+          blocking: { strategy: "none" },
+          comparators: [
+            { field: "company", algorithm: "token_set", weight: 2 },
+            { field: "contact", algorithm: "double_metaphone" }
+          ]
+        }
+      },
+      true
+    );
+    expect(result.rows).toHaveLength(2);
+    expect(result.errors).toEqual([{ rowIndex: 1, code: "dedupe_fuzzy", message: "Fuzzy duplicate of row 0" }]);
+  });
+});
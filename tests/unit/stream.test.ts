@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  defaultStepRegistry,
+  executeRecipe,
+  executeRecipeStream,
+  extendStepRegistry,
+  type RecipeDefinition,
+  type RecipeRow,
+  type StepDefinition
+} from "@/lib/recipe-engine";
+
+const rows: RecipeRow[] = Array.from({ length: 25 }, (_, index) => ({
+  name: `  contact ${index % 10} `,
+  email: index % 4 === 0 ? "" : `user${index % 10}@example.com`
+}));
+
+const recipe: RecipeDefinition = {
+  id: "stream",
+  name: "Stream",
+  version: 1,
+  steps: [
+    { type: "format", config: { operations: [{ field: "name", op: { kind: "trim_collapse_whitespace" } }] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "email" }] } },
+    { type: "dedupe", config: { keys: ["email"] } },
+    { type: "validate", config: { rules: [{ kind: "required", field: "name" }] } }
+  ]
+};
+
+async function* generate(source: RecipeRow[]) {
+  for (const row of source) {
+    yield row;
+  }
+}
+
+function byRow(a: { rowIndex: number; code: string }, b: { rowIndex: number; code: string }) {
+  return a.rowIndex - b.rowIndex || a.code.localeCompare(b.code);
+}
+
+describe("executeRecipeStream", () => {
+  it("matches executeRecipe", async () => {
+    const expected = await executeRecipe(recipe, rows, { allowFuzzy: false });
+    const streamed = await executeRecipeStream(recipe, generate(rows), { allowFuzzy: false, chunkSize: 4 });
+
+    expect(streamed.rowsProcessed).toBe(expected.rowsProcessed);
+    expect(streamed.rowsWritten).toBe(expected.rowsWritten);
+    expect([...streamed.errors].sort(byRow)).toEqual([...expected.errors].sort(byRow));
+  });
+
+  it("feeds row-scoped steps bounded chunks and buffers table-scoped steps", async () => {
+    const seen: Record<string, number[]> = { row: [], table: [] };
+    const probe = (type: string, scope: "row" | "table"): StepDefinition<Record<string, never>> => ({
+      type,
+      configSchema: z.object({}).strict(),
+      scope: () => scope,
+      preview: (input) => ({ rows: input }),
+      async execute(input) {
+        seen[scope].push(input.length);
+        return { rows: input };
+      }
+    });
+    const registry = extendStepRegistry(defaultStepRegistry, [probe("row_probe", "row"), probe("table_probe", "table")]);
+
+    const result = await executeRecipeStream(
+      {
+        id: "probe",
+        name: "Probe",
+        version: 1,
+        steps: [
+          { type: "row_probe", config: {} },
+          { type: "table_probe", config: {} }
+        ] as unknown as RecipeDefinition["steps"]
+      },
+      rows,
+      { allowFuzzy: false, chunkSize: 10, registry }
+    );
+
+    expect(seen.row).toEqual([10, 10, 5]);
+    expect(seen.table).toEqual([25]);
+    expect(result).toMatchObject({ rowsProcessed: 25, rowsWritten: 0 });
+  });
+
+  it("writes back chunk by chunk", async () => {
+    const batches: number[] = [];
+    await executeRecipeStream(
+      {
+        id: "write",
+        name: "Write",
+        version: 1,
+        steps: [{ type: "write_back", config: { strategy: "monday_upsert", boardId: "1", columnMapping: {} } }]
+      },
+      generate(rows),
+      {
+        allowFuzzy: false,
+        chunkSize: 10,
+        writeBack: async (batch) => {
+          batches.push(batch.length);
+        }
+      }
+    );
+    expect(batches).toEqual([10, 10, 5]);
+  });
+
+  it("reports the same result as executeRecipe when a step fails the run", async () => {
+    const failing: RecipeDefinition = {
+      id: "failing",
+      name: "Failing",
+      version: 1,
+      steps: [
+        { type: "format", config: { operations: [{ field: "name", op: { kind: "trim_collapse_whitespace" } }] } },
+        { type: "validate", config: { rules: [{ kind: "required", field: "email" }] }, onError: "fail_run" },
+        { type: "write_back", config: { strategy: "monday_upsert", boardId: "1", columnMapping: {} } }
+      ]
+    };
+    const input = [...rows.filter((row) => row.email), { name: "last", email: "" }];
+    const written: RecipeRow[] = [];
+    const writeBack = async (batch: RecipeRow[]) => {
+      written.push(...batch);
+    };
+
+    const expected = await executeRecipe(failing, input, { allowFuzzy: false, writeBack });
+    const streamed = await executeRecipeStream(failing, generate(input), { allowFuzzy: false, chunkSize: 5, writeBack });
+
+    expect(streamed).toEqual(expected);
+    expect(expected).toMatchObject({ rowsProcessed: 19, rowsWritten: 0, failed: true, errors: [{ rowIndex: 18 }] });
+    expect(written).toEqual([]);
+  });
+
+  it("counts only rows handed to write-back", async () => {
+    const selective: RecipeDefinition = {
+      ...recipe,
+      steps: [
+        ...recipe.steps,
+        {
+          type: "write_back",
+          when: { field: "name", op: "eq", value: "contact 1" },
+          config: { strategy: "monday_upsert", boardId: "1", columnMapping: {} }
+        }
+      ]
+    };
+    const options = { allowFuzzy: false, writeBack: async () => undefined };
+
+    const expected = await executeRecipe(selective, rows, options);
+    const streamed = await executeRecipeStream(selective, generate(rows), { ...options, chunkSize: 4 });
+
+    expect(expected.rowsWritten).toBe(1);
+    expect(streamed.rowsWritten).toBe(expected.rowsWritten);
+  });
+});
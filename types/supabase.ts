@@ -96,6 +96,7 @@ export type Database = {
           json: Json;
           created_at: string | null;
           updated_at: string | null;
+          archived_at: string | null;
         };
         Insert: {
           id?: string;
@@ -105,6 +106,7 @@ export type Database = {
           json: Json;
           created_at?: string | null;
           updated_at?: string | null;
+          archived_at?: string | null;
         };
         Update: {
           id?: string;
@@ -114,6 +116,100 @@ export type Database = {
           json?: Json;
           created_at?: string | null;
           updated_at?: string | null;
+          archived_at?: string | null;
+        };
+      };
+      recipe_versions: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          tenant_id: string;
+          version: number;
+          json: Json;
+          created_by: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          tenant_id: string;
+          version: number;
+          json: Json;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          tenant_id?: string;
+          version?: number;
+          json?: Json;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+      };
+      recipe_fixtures: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          tenant_id: string;
+          name: string;
+          input: Json;
+          expected_rows: Json | null;
+          expected_errors: Json | null;
+          created_by: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          tenant_id: string;
+          name: string;
+          input: Json;
+          expected_rows?: Json | null;
+          expected_errors?: Json | null;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          tenant_id?: string;
+          name?: string;
+          input?: Json;
+          expected_rows?: Json | null;
+          expected_errors?: Json | null;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+      };
+      lookup_tables: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          name: string;
+          entries: Json;
+          created_by: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          name: string;
+          entries: Json;
+          created_by?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          tenant_id?: string;
+          name?: string;
+          entries?: Json;
+          created_by?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
         };
       };
       runs: {